@@ -0,0 +1,77 @@
+/**
+ * Service Worker - Keeps the app shell available offline
+ *
+ * Data is not cached here: DataCacheContext already keeps the last fetched
+ * data in IndexedDB and shows it when the API cannot be reached. This worker
+ * only makes sure the page itself (HTML, JS, CSS, icons) loads without a
+ * connection. Registered from src/lib/serviceWorker.ts in production builds.
+ */
+const SHELL_CACHE = 'placement-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/assets/iare-logo.jpg'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then(cache => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+// Drop shells from older versions of this worker
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys
+                .filter(key => key.startsWith('placement-shell-') && key !== SHELL_CACHE)
+                .map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const putInCache = (request, response) => {
+    if (!response.ok) return;
+    const copy = response.clone();
+    caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    // API calls go to the backend services with cookies - never cache them here
+    if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+    // Pages: network first so new deploys show up; offline, every route gets the SPA shell
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then(response => {
+                    putInCache('/index.html', response);
+                    return response;
+                })
+                .catch(() => caches.match('/index.html'))
+        );
+        return;
+    }
+
+    // Built files carry a content hash in their name, so a cached copy is always right
+    if (url.pathname.startsWith('/assets/')) {
+        event.respondWith(
+            caches.match(request).then(cached => cached || fetch(request).then(response => {
+                putInCache(request, response);
+                return response;
+            }))
+        );
+        return;
+    }
+
+    // Anything else from this origin: network first, cached copy when offline
+    event.respondWith(
+        fetch(request)
+            .then(response => {
+                putInCache(request, response);
+                return response;
+            })
+            .catch(() => caches.match(request).then(cached => cached || Response.error()))
+    );
+});
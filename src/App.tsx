@@ -4,9 +4,12 @@ import { ChatProvider } from './context/ChatContext';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { DataCacheProvider } from './context/DataCacheContext';
 import { ToastProvider } from './context/ToastContext';
+import { UploadQueueProvider } from './context/UploadQueueContext';
+import { OfflineQueueProvider } from './context/OfflineQueueContext';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
 import Login from './pages/Login';
+import ChangePassword from './pages/ChangePassword';
 import Home from './pages/Home';
 
 import Profile from './pages/Profile';
@@ -20,8 +23,17 @@ import Reports from './pages/Reports';
 import Trends from './pages/Trends';
 import Leaderboard from './pages/Leaderboard';
 import UploadData from './pages/UploadData';
+import OfflineChanges from './pages/OfflineChanges';
+import MyPlacement from './pages/MyPlacement';
+import AuditLog from './pages/AuditLog';
+import { AUDIT_LOG_AVAILABLE } from './lib/api';
 
 
+// Staff land on the dashboard, students on their portal
+function HomeRedirect() {
+  const { homePath } = useAuth();
+  return <Navigate to={homePath} replace />;
+}
 
 function App() {
   return (
@@ -29,51 +41,64 @@ function App() {
       <AuthProvider>
         <DataCacheProvider>
           <ToastProvider>
-            <ChatProvider>
-              <Router>
-                <Routes>
-                  {/* Public Routes */}
-                  <Route path="/" element={<Home />} />
-                  <Route path="/login" element={<Login />} />
+            <UploadQueueProvider>
+              <OfflineQueueProvider>
+                <ChatProvider>
+                  <Router>
+                    <Routes>
+                      {/* Public Routes */}
+                      <Route path="/" element={<Home />} />
+                      <Route path="/login" element={<Login />} />
+                      {/* Logged in, but must replace an admin-issued one-time password first */}
+                      <Route path="/change-password" element={<ChangePassword />} />
 
-                  {/* Protected Routes */}
-                  <Route
-                    path="/*"
-                    element={
-                      <ProtectedRoute>
-                        <Layout>
-                          <Routes>
-                            <Route path="/dashboard" element={<Dashboard />} />
-                            <Route path="/companies" element={<Companies />} />
-                            <Route path="/companies/:id" element={<CompanyDetails />} />
-                            <Route path="/students" element={<Students />} />
-                            <Route path="/analytics" element={<Analytics />} />
-                            <Route path="/reports" element={<Reports />} />
-                            <Route path="/trends" element={<Trends />} />
-                            <Route path="/leaderboard" element={<Leaderboard />} />
-                            <Route path="/upload" element={<UploadData />} />
-                            <Route path="/profile" element={<Profile />} />
+                      {/* Protected Routes */}
+                      <Route
+                        path="/*"
+                        element={
+                          <ProtectedRoute>
+                            <Layout>
+                              <Routes>
+                                {/* Each page checks its permission (lib/permissions) */}
+                                <Route path="/my-placement" element={<ProtectedRoute permission="view:own-placement"><MyPlacement /></ProtectedRoute>} />
+                                <Route path="/dashboard" element={<ProtectedRoute permission="view:dashboard"><Dashboard /></ProtectedRoute>} />
+                                <Route path="/companies" element={<ProtectedRoute permission="view:companies"><Companies /></ProtectedRoute>} />
+                                <Route path="/companies/:id" element={<ProtectedRoute permission="view:rounds"><CompanyDetails /></ProtectedRoute>} />
+                                <Route path="/students" element={<ProtectedRoute permission="view:students"><Students /></ProtectedRoute>} />
+                                <Route path="/analytics" element={<ProtectedRoute permission="view:analytics"><Analytics /></ProtectedRoute>} />
+                                <Route path="/reports" element={<ProtectedRoute permission="view:reports"><Reports /></ProtectedRoute>} />
+                                <Route path="/trends" element={<ProtectedRoute permission="view:analytics"><Trends /></ProtectedRoute>} />
+                                <Route path="/leaderboard" element={<ProtectedRoute permission="view:reports"><Leaderboard /></ProtectedRoute>} />
+                                <Route path="/upload" element={<ProtectedRoute permission="upload:round"><UploadData /></ProtectedRoute>} />
+                                <Route path="/profile" element={<Profile />} />
+                                <Route path="/offline-changes" element={<OfflineChanges />} />
 
-                            {/* Admin Only Route */}
-                            <Route
-                              path="/admin"
-                              element={
-                                <ProtectedRoute requireAdmin>
-                                  <Admin />
-                                </ProtectedRoute>
-                              }
-                            />
+                                {/* Admin Only Route */}
+                                <Route
+                                  path="/admin"
+                                  element={
+                                    <ProtectedRoute permission="manage:users">
+                                      <Admin />
+                                    </ProtectedRoute>
+                                  }
+                                />
+                                {/* Only on a backend that records the trail itself (see AUDIT_LOG_AVAILABLE) */}
+                                {AUDIT_LOG_AVAILABLE && (
+                                  <Route path="/audit-log" element={<ProtectedRoute permission="view:audit"><AuditLog /></ProtectedRoute>} />
+                                )}
 
-                            {/* Catch all - redirect to dashboard */}
-                            <Route path="*" element={<Navigate to="/dashboard" replace />} />
-                          </Routes>
-                        </Layout>
-                      </ProtectedRoute>
-                    }
-                  />
-                </Routes>
-              </Router>
-            </ChatProvider>
+                                {/* Catch all - redirect to the role's landing page */}
+                                <Route path="*" element={<HomeRedirect />} />
+                              </Routes>
+                            </Layout>
+                          </ProtectedRoute>
+                        }
+                      />
+                    </Routes>
+                  </Router>
+                </ChatProvider>
+              </OfflineQueueProvider>
+            </UploadQueueProvider>
           </ToastProvider>
         </DataCacheProvider>
       </AuthProvider>
@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import { FileSpreadsheet, Flag, Layers, Loader2, Trash2, Upload, AlertTriangle } from 'lucide-react';
+import { Company } from '../types';
+import { ColumnMapping } from '../types/upload';
+import { useUploadQueue } from '../context/UploadQueueContext';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { useToast } from '../context/ToastContext';
+import { canPreviewFile, detectColumnMapping, parseSheetFile, validateSheetMapping } from '../lib/sheetParser';
+import { isOffline } from '../lib/offlineQueue';
+import { describeUploadStatus, formatBytes, guessUploadTarget } from '../lib/uploadUtils';
+import UploadStatusIcon from './UploadStatusIcon';
+
+interface BatchUploadFormProps {
+    runningCompanies: Company[];
+}
+
+interface BatchRow {
+    key: string;
+    file: File;
+    companyYearId: string;   // '' = new company
+    companyName: string;
+    year: string;
+    roundNumber: string;
+    roundName: string;
+    isFinal: boolean;
+    parsing: boolean;
+    columnMapping?: ColumnMapping;
+    rawColumns?: string[];
+    issue: string | null;    // Blocking problem found while reading the file
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Batch Upload Form Component
+ *
+ * Takes several round files at once, guesses company, year and round from
+ * each file name, and queues them in the listed order as one batch
+ */
+export default function BatchUploadForm({ runningCompanies }: BatchUploadFormProps) {
+    const { jobs, enqueueBatch } = useUploadQueue();
+    const { queueMutation } = useOfflineQueue();
+    const { showToast } = useToast();
+    const [rows, setRows] = useState<BatchRow[]>([]);
+    const [batchId, setBatchId] = useState<string | null>(null);
+    const [dragActive, setDragActive] = useState(false);
+
+    const batchJobs = batchId ? jobs.filter(job => job.batchId === batchId) : [];
+    const batchDone = batchJobs.length > 0 && batchJobs.every(job => ['success', 'error', 'cancelled'].includes(job.status));
+
+    const patchRow = (key: string, updates: Partial<BatchRow>) => {
+        setRows(prev => prev.map(row => (row.key === key ? { ...row, ...updates } : row)));
+    };
+
+    const addFiles = (files: File[]) => {
+        const added = files
+            .filter(file => /\.(xlsx|xls|csv)$/i.test(file.name))
+            .map((file, index): BatchRow => {
+                const guess = guessUploadTarget(file.name, runningCompanies);
+                return {
+                    key: `${file.name}-${file.size}-${Date.now()}-${index}`,
+                    file,
+                    companyYearId: guess.companyYearId ?? '',
+                    companyName: guess.companyName,
+                    year: String(guess.year ?? new Date().getFullYear()),
+                    roundNumber: guess.roundNumber ? String(guess.roundNumber) : '',
+                    roundName: '',
+                    isFinal: guess.isFinal,
+                    parsing: canPreviewFile(file),
+                    issue: null,
+                };
+            });
+        setRows(prev => [...prev, ...added]);
+
+        // Read each sheet so the roll number column is known before upload
+        added.filter(row => row.parsing).forEach(row => {
+            parseSheetFile(row.file)
+                .then(sheet => {
+                    const columnMapping = detectColumnMapping(sheet);
+                    const blocking = validateSheetMapping(sheet, columnMapping).find(issue => issue.level === 'error');
+                    patchRow(row.key, { parsing: false, columnMapping, rawColumns: sheet.columns, issue: blocking?.message ?? null });
+                })
+                .catch(error => patchRow(row.key, { parsing: false, issue: `Could not read file: ${(error as Error).message || 'unreadable'}` }));
+        });
+    };
+
+    const handleDrag = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDragActive(e.type === 'dragenter' || e.type === 'dragover');
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDragActive(false);
+        addFiles(Array.from(e.dataTransfer.files || []));
+    };
+
+    const isRowReady = (row: BatchRow) => !row.parsing && !row.issue
+        && (row.companyYearId ? true : (row.companyName.trim() && row.year));
+    const canSubmit = rows.length > 0 && rows.every(isRowReady);
+
+    const handleSubmit = () => {
+        if (!canSubmit) return;
+        const inputs = rows.map(row => {
+            const existing = runningCompanies.find(c => c.companyYearId === row.companyYearId);
+            return {
+                file: row.file,
+                companyName: existing ? existing.companyName : row.companyName.trim(),
+                year: existing ? existing.year : parseInt(row.year),
+                roundNumber: row.roundNumber ? parseInt(row.roundNumber) : undefined,
+                roundName: row.roundName || undefined,
+                isFinal: row.isFinal,
+                columnMapping: row.columnMapping,
+                rawColumns: row.rawColumns,
+            };
+        });
+
+        // Each file becomes its own offline change, replayed in the same order
+        if (isOffline()) {
+            inputs.forEach(input => queueMutation({ kind: 'upload-round', input }));
+            showToast({
+                type: 'success',
+                title: 'Saved Offline',
+                message: `${inputs.length} file${inputs.length === 1 ? '' : 's'} will be uploaded once you send your offline changes.`
+            });
+            setRows([]);
+            return;
+        }
+
+        setBatchId(enqueueBatch(inputs));
+    };
+
+    const startOver = () => {
+        setRows([]);
+        setBatchId(null);
+    };
+
+    // ==================== Batch Progress ====================
+    if (batchId) {
+        const finished = batchJobs.filter(job => ['success', 'error', 'cancelled'].includes(job.status)).length;
+        return (
+            <div className="space-y-4 animate-fade-in">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {batchDone ? 'Batch finished' : 'Uploading in order'} · {finished} of {batchJobs.length} files done
+                </p>
+                <div className="space-y-2">
+                    {batchJobs.map(job => (
+                        <div key={job.id} className="p-3 rounded-xl bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 flex items-center gap-3">
+                            <UploadStatusIcon job={job} />
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium text-gray-900 dark:text-white truncate">{job.file.name}</p>
+                                <p className={`text-sm truncate ${job.status === 'error' ? 'text-red-500' : 'text-gray-500'}`}>
+                                    {job.companyName} {job.year} · {describeUploadStatus(job)}
+                                </p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                {batchDone && (
+                    <button
+                        onClick={startOver}
+                        className="w-full py-3 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-white font-medium hover:from-blue-600 hover:to-purple-700 transition-all shadow-lg"
+                    >
+                        Upload Another Batch
+                    </button>
+                )}
+            </div>
+        );
+    }
+
+    // ==================== File Assignment ====================
+    return (
+        <div className="space-y-6">
+            <div
+                onDragEnter={handleDrag}
+                onDragLeave={handleDrag}
+                onDragOver={handleDrag}
+                onDrop={handleDrop}
+                className={`relative border-2 border-dashed rounded-2xl p-6 text-center transition-all duration-200 ${dragActive
+                    ? 'border-blue-500 bg-blue-500/10'
+                    : 'border-gray-300 dark:border-gray-600 hover:border-blue-400 dark:hover:border-blue-500'
+                    }`}
+            >
+                <input
+                    type="file"
+                    accept=".xlsx,.xls,.csv"
+                    multiple
+                    onChange={(e) => {
+                        addFiles(Array.from(e.target.files || []));
+                        e.target.value = '';
+                    }}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                />
+                <div className="flex flex-col items-center gap-2">
+                    <Layers className="h-8 w-8 text-gray-400" />
+                    <p className="font-medium text-gray-900 dark:text-white">Drop several Excel or CSV files or click to browse</p>
+                    <p className="text-sm text-gray-500">Company, year and round are guessed from each file name</p>
+                </div>
+            </div>
+
+            {rows.map((row, index) => (
+                <div key={row.key} className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 space-y-3">
+                    <div className="flex items-center gap-3">
+                        <span className="text-sm font-semibold text-gray-400">{index + 1}</span>
+                        <FileSpreadsheet className="h-5 w-5 text-green-500" />
+                        <div className="flex-1 min-w-0">
+                            <p className="font-medium text-gray-900 dark:text-white truncate">{row.file.name}</p>
+                            <p className="text-xs text-gray-500">{formatBytes(row.file.size)}</p>
+                        </div>
+                        {row.parsing && <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />}
+                        <button
+                            type="button"
+                            onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))}
+                            className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400 transition-all"
+                            title="Remove file"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <select
+                            value={row.companyYearId}
+                            onChange={(e) => patchRow(row.key, { companyYearId: e.target.value })}
+                            className={inputClass}
+                        >
+                            <option value="">New company</option>
+                            {runningCompanies.map(c => (
+                                <option key={c.companyYearId} value={c.companyYearId}>{c.companyName} ({c.year})</option>
+                            ))}
+                        </select>
+                        {row.companyYearId ? (
+                            <div />
+                        ) : (
+                            <div className="grid grid-cols-2 gap-2">
+                                <input
+                                    type="text"
+                                    value={row.companyName}
+                                    onChange={(e) => patchRow(row.key, { companyName: e.target.value })}
+                                    placeholder="Company name"
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="number"
+                                    value={row.year}
+                                    onChange={(e) => patchRow(row.key, { year: e.target.value })}
+                                    min="2000"
+                                    max="2100"
+                                    className={inputClass}
+                                />
+                            </div>
+                        )}
+                        <input
+                            type="number"
+                            value={row.roundNumber}
+                            onChange={(e) => patchRow(row.key, { roundNumber: e.target.value })}
+                            placeholder="Round (auto if empty)"
+                            min="1"
+                            className={inputClass}
+                        />
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={row.roundName}
+                                onChange={(e) => patchRow(row.key, { roundName: e.target.value })}
+                                placeholder="Round name"
+                                className={inputClass}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => patchRow(row.key, { isFinal: !row.isFinal })}
+                                className={`px-2 py-1.5 rounded-lg text-sm flex items-center gap-1 whitespace-nowrap transition-all ${row.isFinal
+                                    ? 'bg-green-500/20 text-green-600 dark:text-green-400'
+                                    : 'bg-gray-200 dark:bg-gray-700 text-gray-500'
+                                    }`}
+                                title="Final round"
+                            >
+                                <Flag className="h-4 w-4" />
+                                Final
+                            </button>
+                        </div>
+                    </div>
+
+                    {row.issue && (
+                        <p className="text-sm text-red-500 flex items-start gap-2">
+                            <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                            {row.issue}
+                        </p>
+                    )}
+                </div>
+            ))}
+
+            {rows.length > 0 && (
+                <button
+                    type="button"
+                    onClick={handleSubmit}
+                    disabled={!canSubmit}
+                    className={`w-full py-4 rounded-xl font-semibold text-white transition-all duration-200 flex items-center justify-center gap-3 ${!canSubmit
+                        ? 'bg-gray-400 cursor-not-allowed'
+                        : 'bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 shadow-lg hover:shadow-xl'
+                        }`}
+                >
+                    <Upload className="h-5 w-5" />
+                    Upload {rows.length} File{rows.length === 1 ? '' : 's'}
+                </button>
+            )}
+        </div>
+    );
+}
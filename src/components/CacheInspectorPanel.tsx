@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react';
+import { Database, Download, HardDrive, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { useDataCache } from '../context/DataCacheContext';
+import { useToast } from '../context/ToastContext';
+import { formatCacheAge, isCacheStale } from '../lib/cachePolicy';
+import { entityForStorageKey } from '../lib/cacheStorage';
+import { parseCacheSnapshot } from '../lib/cacheSnapshot';
+import { exportToJSON } from '../lib/exportUtils';
+import { formatBytes } from '../lib/uploadUtils';
+import { CacheUsage } from '../types/cache';
+
+/**
+ * Cache Inspector Panel
+ *
+ * Admin view of every cached entry with its size, age and record count.
+ * Single entries can be refreshed or evicted, and the whole cache can be
+ * exported as a snapshot for bug reports or imported from one
+ */
+export default function CacheInspectorPanel() {
+    const { cacheEntries, refreshEntry, evictEntry, exportSnapshot, importSnapshot, getStorageUsage } = useDataCache();
+    const { showToast } = useToast();
+    const [usage, setUsage] = useState<CacheUsage | null>(null);
+    const [refreshing, setRefreshing] = useState<Set<string>>(new Set());
+    const [importing, setImporting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const now = Date.now();
+
+    // Sizes live in storage - read them again whenever an entry changes
+    useEffect(() => {
+        let cancelled = false;
+        getStorageUsage()
+            .then(result => {
+                if (!cancelled) setUsage(result);
+            })
+            .catch(error => console.warn('Failed to read cache usage:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [cacheEntries, getStorageUsage]);
+
+    const bytesByKey = new Map((usage?.entries ?? []).map(entry => [entry.key, entry.bytes]));
+
+    const handleRefresh = async (key: string) => {
+        setRefreshing(prev => new Set(prev).add(key));
+        try {
+            await refreshEntry(key);
+        } finally {
+            setRefreshing(prev => {
+                const next = new Set(prev);
+                next.delete(key);
+                return next;
+            });
+        }
+    };
+
+    const handleExport = async () => {
+        try {
+            const snapshot = await exportSnapshot();
+            exportToJSON(snapshot, `cache-snapshot-${new Date(snapshot.exportedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}`);
+        } catch (error) {
+            showToast({ type: 'error', title: 'Export Failed', message: (error as Error).message });
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        setImporting(true);
+        try {
+            const snapshot = parseCacheSnapshot(await file.text());
+            const count = Object.keys(snapshot.entries).length;
+            const confirmed = window.confirm(
+                `Replace the whole data cache with this snapshot?\n\n` +
+                `${count} entries, exported ${new Date(snapshot.exportedAt).toLocaleString()}.\n` +
+                `Entries keep their original age, so stale ones refresh in the background when a page shows them.`
+            );
+            if (!confirmed) return;
+
+            await importSnapshot(snapshot);
+            showToast({ type: 'success', title: 'Snapshot Imported', message: `${count} cache entries loaded` });
+        } catch (error) {
+            showToast({ type: 'error', title: 'Import Failed', message: (error as Error).message });
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    return (
+        <div className="glass-strong rounded-2xl p-6 shadow-2xl">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+                <div>
+                    <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-3">
+                        <div className="p-2 bg-gradient-to-br from-cyan-500 to-blue-600 rounded-lg">
+                            <Database className="h-5 w-5 text-white stroke-white" strokeWidth={2} />
+                        </div>
+                        Data Cache
+                    </h2>
+                    {usage && (
+                        <p className="text-sm text-gray-500 mt-2 flex items-center gap-2">
+                            <HardDrive className="h-4 w-4" />
+                            {usage.backend === 'indexeddb' ? 'IndexedDB' : 'localStorage'} · {formatBytes(usage.totalBytes)} cached
+                            {usage.usedBytes !== null && usage.quotaBytes !== null && ` · ${formatBytes(usage.usedBytes)} of ${formatBytes(usage.quotaBytes)} used by this site`}
+                        </p>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleExport}
+                        className="px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-xl font-medium transition-all flex items-center gap-2"
+                        title="Download every cached entry as JSON - it contains student data, share it carefully"
+                    >
+                        <Download className="h-4 w-4" />
+                        Export
+                    </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={importing}
+                        className="px-4 py-2 bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 rounded-xl font-medium transition-all flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <Upload className="h-4 w-4" />
+                        {importing ? 'Importing...' : 'Import'}
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            </div>
+
+            {cacheEntries.length === 0 ? (
+                <p className="text-gray-500 text-sm">Nothing is cached yet - entries appear as pages load their data.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full">
+                        <thead>
+                            <tr className="border-b border-gray-700">
+                                <th className="text-left py-3 px-4 text-gray-400 font-medium">Entry</th>
+                                <th className="text-right py-3 px-4 text-gray-400 font-medium">Records</th>
+                                <th className="text-right py-3 px-4 text-gray-400 font-medium">Size</th>
+                                <th className="text-left py-3 px-4 text-gray-400 font-medium">Fetched</th>
+                                <th className="text-right py-3 px-4 text-gray-400 font-medium">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {cacheEntries.map(entry => {
+                                const entity = entityForStorageKey(entry.key);
+                                const stale = !!entity && isCacheStale(entity, entry, now);
+                                const isRefreshing = refreshing.has(entry.key);
+                                const bytes = bytesByKey.get(entry.key);
+
+                                return (
+                                    <tr key={entry.key} className="border-b border-gray-700/50 hover:bg-gray-700/30 transition-colors">
+                                        <td className="py-3 px-4">
+                                            <p className="text-gray-900 dark:text-white font-medium">{entry.label}</p>
+                                            <p className="text-xs text-gray-500 font-mono">{entry.key}</p>
+                                        </td>
+                                        <td className="py-3 px-4 text-right text-gray-700 dark:text-gray-300">{entry.records.toLocaleString()}</td>
+                                        <td className="py-3 px-4 text-right text-gray-700 dark:text-gray-300">{bytes !== undefined ? formatBytes(bytes) : '—'}</td>
+                                        <td className="py-3 px-4">
+                                            <span className="text-gray-700 dark:text-gray-300" title={new Date(entry.timestamp).toLocaleString()}>
+                                                {formatCacheAge(entry.timestamp, now)}
+                                            </span>
+                                            {(entry.invalidated || stale) && (
+                                                <span className="ml-2 px-2 py-0.5 rounded-md bg-yellow-500/20 text-yellow-600 dark:text-yellow-400 text-xs font-medium">
+                                                    {entry.invalidated ? 'Invalidated' : 'Stale'}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="py-3 px-4">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <button
+                                                    onClick={() => handleRefresh(entry.key)}
+                                                    disabled={isRefreshing}
+                                                    className="p-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-lg transition-all disabled:opacity-50"
+                                                    title="Fetch this entry again"
+                                                >
+                                                    <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                                                </button>
+                                                <button
+                                                    onClick={() => evictEntry(entry.key)}
+                                                    disabled={isRefreshing}
+                                                    className="p-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-all disabled:opacity-50"
+                                                    title="Remove from the cache"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
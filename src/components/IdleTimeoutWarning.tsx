@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clock, LogOut } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { ACTIVITY_EVENTS, ACTIVITY_SHARE_MS, IDLE_TIMEOUT_MS, IDLE_WARNING_MS, formatCountdown } from '../lib/session';
+import { postTabMessage, subscribeTabMessages } from '../lib/tabSync';
+
+// Counts down the last IDLE_WARNING_MS before an idle logout. Once the warning is up only
+// "Stay logged in" (or activity in another tab) keeps the session, so a mouse
+// nudged by someone walking past a lab machine does not.
+export default function IdleTimeoutWarning() {
+    const { endSession, logout } = useAuth();
+    const navigate = useNavigate();
+    const [remainingMs, setRemainingMs] = useState<number | null>(null);   // null = no warning
+    const lastActivityRef = useRef(Date.now());
+    const warningRef = useRef(false);
+
+    useEffect(() => {
+        if (IDLE_TIMEOUT_MS <= 0) return;
+
+        let lastShared = 0;
+        const markActive = () => {
+            if (warningRef.current) return;
+            const now = Date.now();
+            lastActivityRef.current = now;
+            if (now - lastShared > ACTIVITY_SHARE_MS) {
+                lastShared = now;
+                postTabMessage({ type: 'session-activity' });
+            }
+        };
+
+        const unsubscribe = subscribeTabMessages(message => {
+            if (message.type === 'session-activity') lastActivityRef.current = Date.now();
+        });
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+        // Worked out from timestamps, so throttled timers in background tabs stay correct
+        const interval = setInterval(() => {
+            const remaining = lastActivityRef.current + IDLE_TIMEOUT_MS - Date.now();
+            if (remaining <= 0) {
+                clearInterval(interval);
+                endSession('idle');
+                return;
+            }
+            warningRef.current = remaining <= IDLE_WARNING_MS;
+            setRemainingMs(warningRef.current ? remaining : null);
+        }, 1000);
+
+        return () => {
+            clearInterval(interval);
+            unsubscribe();
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+        };
+    }, [endSession]);
+
+    const handleStay = () => {
+        warningRef.current = false;
+        lastActivityRef.current = Date.now();
+        postTabMessage({ type: 'session-activity' });
+        setRemainingMs(null);
+    };
+
+    // A deliberate logout, so no "return to this page" on the login screen
+    const handleLogout = async () => {
+        await logout();
+        navigate('/login');
+    };
+
+    if (remainingMs === null) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[60] p-4 animate-fade-in">
+            <div
+                role="alertdialog"
+                aria-labelledby="idle-timeout-title"
+                className="glass-strong rounded-2xl border border-yellow-500/30 max-w-md w-full shadow-2xl animate-scale-in p-6 text-center"
+            >
+                <div className="mx-auto mb-4 h-14 w-14 rounded-full bg-yellow-500/20 flex items-center justify-center">
+                    <Clock className="h-7 w-7 text-yellow-400" />
+                </div>
+                <h3 id="idle-timeout-title" className="text-xl font-bold text-gray-900 dark:text-white mb-2">Are you still there?</h3>
+                <p className="text-gray-600 dark:text-gray-400 mb-4">
+                    You will be logged out for inactivity in
+                </p>
+                <p className="text-4xl font-bold text-yellow-400 mb-6 tabular-nums" aria-live="polite">
+                    {formatCountdown(remainingMs)}
+                </p>
+                <div className="flex gap-3">
+                    <button
+                        onClick={handleLogout}
+                        className="flex-1 py-3 bg-gray-500 hover:bg-gray-600 text-white rounded-xl font-medium transition-all flex items-center justify-center gap-2"
+                    >
+                        <LogOut className="h-4 w-4" />
+                        Log out now
+                    </button>
+                    <button
+                        onClick={handleStay}
+                        autoFocus
+                        className="flex-1 py-3 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all"
+                    >
+                        Stay logged in
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { Clock, RefreshCw } from 'lucide-react';
+import { useDataCache } from '../context/DataCacheContext';
+import { CacheEntity, formatCacheAge } from '../lib/cachePolicy';
+
+interface LastUpdatedProps {
+    entities?: Exclude<CacheEntity, 'rounds'>[];
+    roundsFor?: string;   // companyYearId whose rounds are shown
+    className?: string;
+}
+
+/**
+ * Last Updated Component
+ *
+ * "Updated 5 min ago" for the cached data a page shows, using the oldest
+ * entry, and "Updating..." while a background revalidation is running
+ */
+export default function LastUpdated({ entities = [], roundsFor, className = '' }: LastUpdatedProps) {
+    const { cacheTimestamps, revalidating } = useDataCache();
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const timestamps = entities.map(entity => cacheTimestamps[entity]);
+    if (roundsFor) timestamps.push(cacheTimestamps.rounds[roundsFor] ?? null);
+    const known = timestamps.filter((timestamp): timestamp is number => timestamp !== null);
+
+    const isRevalidating = entities.some(entity => revalidating[entity])
+        || (!!roundsFor && revalidating[`rounds:${roundsFor}`]);
+
+    if (known.length === 0 && !isRevalidating) return null;
+
+    const oldest = Math.min(...known);
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap ${className}`}
+            title={known.length > 0 ? `Fetched ${new Date(oldest).toLocaleString()}` : undefined}
+        >
+            {isRevalidating ? (
+                <>
+                    <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+                    Updating...
+                </>
+            ) : (
+                <>
+                    <Clock className="h-3.5 w-3.5" />
+                    Updated {formatCacheAge(oldest, now)}
+                </>
+            )}
+        </span>
+    );
+}
@@ -1,46 +1,57 @@
 import { Link, useLocation } from 'react-router-dom';
-import { LayoutDashboard, Building2, Users, BarChart3, Menu, X, Sparkles, Sun, Moon, FileText, TrendingUp, Trophy, ChevronDown, PieChart, Upload, User as UserIcon, Shield, LogOut } from 'lucide-react';
+import { LayoutDashboard, GraduationCap, Building2, Users, BarChart3, Menu, X, Sparkles, Sun, Moon, FileText, TrendingUp, Trophy, ChevronDown, PieChart, Upload, User as UserIcon, Shield, LogOut, ScrollText } from 'lucide-react';
 import { useState, useRef, useEffect } from 'react';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
 import FloatingAIButton from './FloatingAIButton';
+import IdleTimeoutWarning from './IdleTimeoutWarning';
+import ServiceWakeBanner from './ServiceWakeBanner';
+import OfflineBanner from './OfflineBanner';
+import UploadQueueIndicator from './UploadQueueIndicator';
+import { Permission } from '../lib/permissions';
+import { AUDIT_LOG_AVAILABLE } from '../lib/api';
+
+// Each item is shown only to roles with its permission (same as the route's)
+interface NavItem {
+  name: string;
+  path: string;
+  icon: typeof LayoutDashboard;
+  permission: Permission;
+}
 
 // Main navigation items
-const mainNavigation = [
-  { name: 'Dashboard', path: '/dashboard', icon: LayoutDashboard },
-  { name: 'Companies', path: '/companies', icon: Building2 },
-  { name: 'Students', path: '/students', icon: Users },
+const mainNavigation: NavItem[] = [
+  { name: 'My Placement', path: '/my-placement', icon: GraduationCap, permission: 'view:own-placement' },
+  { name: 'Dashboard', path: '/dashboard', icon: LayoutDashboard, permission: 'view:dashboard' },
+  { name: 'Companies', path: '/companies', icon: Building2, permission: 'view:companies' },
+  { name: 'Students', path: '/students', icon: Users, permission: 'view:students' },
 ];
 
 // Dropdown navigation groups
-const dropdownGroups = [
+const dropdownGroups: { name: string; icon: typeof PieChart; items: NavItem[] }[] = [
   {
     name: 'Insights',
     icon: PieChart,
     items: [
-      { name: 'Analytics', path: '/analytics', icon: BarChart3 },
-      { name: 'Trends', path: '/trends', icon: TrendingUp },
+      { name: 'Analytics', path: '/analytics', icon: BarChart3, permission: 'view:analytics' },
+      { name: 'Trends', path: '/trends', icon: TrendingUp, permission: 'view:analytics' },
     ]
   },
   {
     name: 'More',
     icon: FileText,
     items: [
-      { name: 'Upload Data', path: '/upload', icon: Upload },
-      { name: 'Reports', path: '/reports', icon: FileText },
-      { name: 'Leaderboard', path: '/leaderboard', icon: Trophy },
+      { name: 'Upload Data', path: '/upload', icon: Upload, permission: 'upload:round' },
+      { name: 'Reports', path: '/reports', icon: FileText, permission: 'view:reports' },
+      { name: 'Leaderboard', path: '/leaderboard', icon: Trophy, permission: 'view:reports' },
     ]
   }
 ];
 
 // All navigation for mobile
-const allNavigation = [
+const allNavigation: NavItem[] = [
   ...mainNavigation,
-  { name: 'Analytics', path: '/analytics', icon: BarChart3 },
-  { name: 'Trends', path: '/trends', icon: TrendingUp },
-  { name: 'Upload Data', path: '/upload', icon: Upload },
-  { name: 'Reports', path: '/reports', icon: FileText },
-  { name: 'Leaderboard', path: '/leaderboard', icon: Trophy },
+  ...dropdownGroups.flatMap(group => group.items),
 ];
 
 interface DropdownProps {
@@ -52,7 +63,7 @@ interface DropdownProps {
 function UserProfileDropdown() {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const { user, isAdmin, logout } = useAuth();
+  const { user, can, logout } = useAuth();
   const location = useLocation();
 
   // Close dropdown when clicking outside
@@ -116,7 +127,7 @@ function UserProfileDropdown() {
               Profile
             </Link>
 
-            {isAdmin && (
+            {can('manage:users') && (
               <Link
                 to="/admin"
                 onClick={() => setIsOpen(false)}
@@ -130,6 +141,20 @@ function UserProfileDropdown() {
               </Link>
             )}
 
+            {AUDIT_LOG_AVAILABLE && can('view:audit') && (
+              <Link
+                to="/audit-log"
+                onClick={() => setIsOpen(false)}
+                className={`flex items-center px-4 py-2.5 text-sm transition-all duration-200 ${location.pathname === '/audit-log'
+                  ? 'bg-gradient-to-r from-purple-500 to-purple-600 text-white font-medium'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700/50 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+              >
+                <ScrollText className="h-4 w-4 mr-3" />
+                Audit Log
+              </Link>
+            )}
+
             <div className="border-t border-gray-200 dark:border-gray-700 my-2"></div>
 
             <button
@@ -216,6 +241,12 @@ export default function Layout({ children }: { children: React.ReactNode }) {
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
+  const { can, homePath } = useAuth();
+  const visibleMain = mainNavigation.filter(item => can(item.permission));
+  const visibleGroups = dropdownGroups
+    .map(group => ({ ...group, items: group.items.filter(item => can(item.permission)) }))
+    .filter(group => group.items.length > 0);
+  const visibleAll = allNavigation.filter(item => can(item.permission));
 
   return (
     <div className="min-h-screen">
@@ -225,7 +256,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
           <div className="flex justify-between h-16">
             {/* Logo and Brand */}
             <div className="flex items-center">
-              <Link to="/dashboard" className="flex-shrink-0 flex items-center gap-3 group">
+              <Link to={homePath} className="flex-shrink-0 flex items-center gap-3 group">
                 <div className="relative">
                   <div className="absolute inset-0 bg-gradient-to-r from-blue-500 to-purple-500 rounded-xl blur-md opacity-50 group-hover:opacity-75 transition-opacity"></div>
                   <div className="relative h-10 w-10 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center shadow-lg text-always-white">
@@ -243,7 +274,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
               {/* Desktop Navigation */}
               <div className="hidden md:ml-10 md:flex md:items-center md:space-x-1">
                 {/* Main nav items */}
-                {mainNavigation.map((item) => {
+                {visibleMain.map((item) => {
                   const Icon = item.icon;
                   const isActive = location.pathname === item.path;
                   return (
@@ -272,7 +303,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
                 })}
 
                 {/* Dropdown groups */}
-                {dropdownGroups.map((group) => (
+                {visibleGroups.map((group) => (
                   <NavDropdown key={group.name} group={group} location={location} />
                 ))}
               </div>
@@ -317,7 +348,7 @@ export default function Layout({ children }: { children: React.ReactNode }) {
         {mobileMenuOpen && (
           <div className="md:hidden border-t border-gray-200 dark:border-gray-700/50">
             <div className="px-2 pt-2 pb-3 space-y-1">
-              {allNavigation.map((item) => {
+              {visibleAll.map((item) => {
                 const Icon = item.icon;
                 const isActive = location.pathname === item.path;
                 return (
@@ -341,13 +372,25 @@ export default function Layout({ children }: { children: React.ReactNode }) {
         )}
       </nav>
 
+      {/* Cold start notice */}
+      <ServiceWakeBanner />
+
+      {/* Offline notice and queued changes */}
+      <OfflineBanner />
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {children}
       </main>
 
       {/* Floating AI Button */}
-      <FloatingAIButton />
+      {can('use:assistant') && <FloatingAIButton />}
+
+      {/* Idle logout countdown */}
+      <IdleTimeoutWarning />
+
+      {/* Background uploads */}
+      <UploadQueueIndicator />
     </div>
   );
 }
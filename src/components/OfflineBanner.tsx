@@ -0,0 +1,49 @@
+import { Link, useLocation } from 'react-router-dom';
+import { CloudOff, WifiOff } from 'lucide-react';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+
+/**
+ * Offline Banner
+ *
+ * Shown while the browser is offline (cached data stays readable, writes
+ * are queued) and while queued offline changes are waiting to be sent
+ */
+export default function OfflineBanner() {
+    const { isOnline, items } = useOfflineQueue();
+    const location = useLocation();
+
+    const waiting = items.length;
+    if (isOnline && (waiting === 0 || location.pathname === '/offline-changes')) return null;
+
+    const changes = `${waiting} change${waiting === 1 ? '' : 's'}`;
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            className={isOnline
+                ? 'bg-blue-50 dark:bg-blue-500/10 border-b border-blue-200 dark:border-blue-500/30 text-blue-800 dark:text-blue-300'
+                : 'bg-gray-100 dark:bg-gray-800 border-b border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300'}
+        >
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-3 text-sm">
+                {isOnline ? <CloudOff className="h-4 w-4 flex-shrink-0" /> : <WifiOff className="h-4 w-4 flex-shrink-0" />}
+                <span className="flex-1">
+                    {isOnline ? (
+                        <span className="font-semibold">{changes} made offline {waiting === 1 ? 'is' : 'are'} waiting to be sent.</span>
+                    ) : (
+                        <>
+                            <span className="font-semibold">You are offline</span>
+                            {' '}- showing the last data saved on this device. New students, deletes and uploads are queued
+                            {waiting > 0 && ` (${changes} so far)`}.
+                        </>
+                    )}
+                </span>
+                {waiting > 0 && location.pathname !== '/offline-changes' && (
+                    <Link to="/offline-changes" className="font-semibold underline hover:no-underline whitespace-nowrap">
+                        Review
+                    </Link>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,28 +1,42 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { PERMISSION_LABELS, Permission } from '../lib/permissions';
 import LoadingSpinner from './LoadingSpinner';
+import ServiceWakeBanner from './ServiceWakeBanner';
 
 interface ProtectedRouteProps {
     children: React.ReactNode;
-    requireAdmin?: boolean;
+    permission?: Permission;   // Shows a 403 page to users whose role lacks it
 }
 
-export default function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-    const { loading, isAuthenticated, isAdmin } = useAuth();
+export default function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+    const { user, loading, isAuthenticated, can } = useAuth();
+    const location = useLocation();
 
     if (loading) {
         return (
-            <div className="min-h-screen flex items-center justify-center">
-                <LoadingSpinner />
+            <div className="min-h-screen flex flex-col">
+                {/* Session check can hit a sleeping auth service */}
+                <ServiceWakeBanner />
+                <div className="flex-1 flex items-center justify-center">
+                    <LoadingSpinner />
+                </div>
             </div>
         );
     }
 
+    // Login (and the forced password change) send the user back here afterwards
+    const from = `${location.pathname}${location.search}${location.hash}`;
     if (!isAuthenticated) {
-        return <Navigate to="/login" replace />;
+        return <Navigate to="/login" replace state={{ from }} />;
+    }
+
+    // After an admin reset the one-time password only opens the change screen
+    if (user?.mustChangePassword) {
+        return <Navigate to="/change-password" replace state={{ from }} />;
     }
 
-    if (requireAdmin && !isAdmin) {
+    if (permission && !can(permission)) {
         return (
             <div className="min-h-screen flex items-center justify-center">
                 <div className="text-center">
@@ -31,7 +45,7 @@ export default function ProtectedRoute({ children, requireAdmin = false }: Prote
                         You don't have permission to access this page.
                     </p>
                     <p className="text-gray-500 dark:text-gray-500 mt-2">
-                        Admin access required.
+                        Requires permission: {PERMISSION_LABELS[permission]}.
                     </p>
                 </div>
             </div>
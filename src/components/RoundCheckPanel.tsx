@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight, ListChecks, Loader2 } from 'lucide-react';
+import { RoundCheckEntry, RoundCheckReport, countRoundCheckFindings } from '../lib/roundValidation';
+
+interface RoundCheckPanelProps {
+    report: RoundCheckReport | null;
+    checking: boolean;
+    confirmed: boolean;
+    onConfirmChange: (confirmed: boolean) => void;
+}
+
+const SECTIONS: { key: Exclude<keyof RoundCheckReport, 'previousRound'>; label: string; hint: string }[] = [
+    { key: 'notInPreviousRound', label: 'Not in previous round', hint: 'These roll numbers did not take part in the previous round' },
+    { key: 'reappearing', label: 'Eliminated earlier', hint: 'Marked not qualified in an earlier round but listed again' },
+    { key: 'duplicates', label: 'Duplicate rows', hint: 'Only one row per roll number will be kept' },
+    { key: 'alreadyPlaced', label: 'Already placed', hint: 'Already selected by another company' },
+];
+
+/**
+ * Round Check Panel Component
+ *
+ * Shows how the sheet compares with the company's earlier rounds and asks
+ * the uploader to confirm before anything with findings is sent
+ */
+export default function RoundCheckPanel({ report, checking, confirmed, onConfirmChange }: RoundCheckPanelProps) {
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    if (checking) {
+        return (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking against earlier rounds...
+            </div>
+        );
+    }
+    if (!report) return null;
+
+    const findings = countRoundCheckFindings(report);
+    const previousLabel = report.previousRound
+        ? `Round ${report.previousRound.roundNumber}${report.previousRound.roundName ? ` (${report.previousRound.roundName})` : ''}`
+        : null;
+
+    if (findings === 0) {
+        return (
+            <div className="p-3 rounded-xl border bg-green-500/10 border-green-500/30 text-green-600 dark:text-green-400 text-sm flex items-start gap-2">
+                <CheckCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                {previousLabel
+                    ? `Every student in this sheet continues from ${previousLabel}.`
+                    : 'No earlier rounds to compare with - no duplicates or students placed elsewhere.'}
+            </div>
+        );
+    }
+
+    const renderEntries = (entries: RoundCheckEntry[]) => (
+        <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700/50">
+            {entries.map(entry => (
+                <li key={entry.rollNumber} className="py-1.5 flex items-center justify-between gap-3 text-sm">
+                    <span className="font-mono text-gray-900 dark:text-gray-200">{entry.rollNumber}</span>
+                    <span className="flex-1 truncate text-gray-600 dark:text-gray-400">{entry.name}</span>
+                    {entry.detail && <span className="text-xs text-gray-500">{entry.detail}</span>}
+                </li>
+            ))}
+        </ul>
+    );
+
+    return (
+        <div className="space-y-3 p-4 rounded-xl border border-yellow-500/30 bg-yellow-500/5 animate-fade-in">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                Round check{previousLabel && <span className="text-gray-500 font-normal">· compared with {previousLabel}</span>}
+            </p>
+
+            {SECTIONS.filter(section => report[section.key].length > 0).map(section => {
+                const entries = report[section.key];
+                const isOpen = expanded === section.key;
+                return (
+                    <div key={section.key} className="rounded-lg bg-white/60 dark:bg-gray-800/50 px-3 py-2">
+                        <button
+                            type="button"
+                            onClick={() => setExpanded(isOpen ? null : section.key)}
+                            className="w-full flex items-center gap-2 text-left text-sm"
+                        >
+                            {isOpen ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                            <span className="font-medium text-yellow-700 dark:text-yellow-400">{section.label}</span>
+                            <span className="px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-700 dark:text-yellow-400 text-xs">
+                                {entries.length}
+                            </span>
+                            <span className="flex-1 text-xs text-gray-500 truncate">{section.hint}</span>
+                        </button>
+                        {isOpen && renderEntries(entries)}
+                    </div>
+                );
+            })}
+
+            <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={confirmed}
+                    onChange={(e) => onConfirmChange(e.target.checked)}
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="flex items-start gap-1">
+                    <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+                    I have reviewed these {findings} finding{findings === 1 ? '' : 's'} and want to upload the sheet as it is
+                </span>
+            </label>
+        </div>
+    );
+}
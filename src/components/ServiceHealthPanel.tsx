@@ -0,0 +1,142 @@
+import { Activity, AlertCircle, CheckCircle, Cookie, RefreshCw, XCircle } from 'lucide-react';
+import { useServiceHealth, HEALTH_SERVICES } from '../hooks/useServiceHealth';
+import { SERVICE_LABELS } from '../lib/apiError';
+import { ServiceHealthCheck } from '../types';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+function getStatus(latest: ServiceHealthCheck | undefined) {
+    if (!latest) return { label: 'Not checked', className: 'bg-gray-500/20 text-gray-400 border-gray-500/30' };
+    if (!latest.reachable) return { label: 'Unreachable', className: 'bg-red-500/20 text-red-400 border-red-500/30' };
+    if (latest.sessionAccepted === false) return { label: 'Session rejected', className: 'bg-yellow-500/20 text-yellow-600 dark:text-yellow-400 border-yellow-500/30' };
+    return { label: 'Healthy', className: 'bg-green-500/20 text-green-400 border-green-500/30' };
+}
+
+/**
+ * Service Health Panel
+ *
+ * Admin view of the auth, Excel, AI and Delete services: reachability,
+ * latency history, last error and whether each domain accepted the
+ * session cookie handed out by set-token at login
+ */
+export default function ServiceHealthPanel() {
+    const { history, checking, checkService, checkAll, resyncSession } = useServiceHealth();
+
+    return (
+        <div className="glass-strong rounded-2xl p-6 shadow-2xl">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-3">
+                    <div className="p-2 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg">
+                        <Activity className="h-5 w-5 text-white stroke-white" strokeWidth={2} />
+                    </div>
+                    Service Health
+                </h2>
+                <button
+                    onClick={checkAll}
+                    disabled={checking.size > 0}
+                    className="px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-xl font-medium transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <RefreshCw className={`h-4 w-4 ${checking.size > 0 ? 'animate-spin' : ''}`} />
+                    Check all
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+                {HEALTH_SERVICES.map(service => {
+                    const results = history[service];
+                    const latest = results[results.length - 1];
+                    const lastFailure = [...results].reverse().find(result => result.error);
+                    const status = getStatus(latest);
+                    const maxLatency = Math.max(1, ...results.map(result => result.latencyMs));
+                    const reachableResults = results.filter(result => result.reachable);
+                    const avgLatency = reachableResults.length > 0
+                        ? Math.round(reachableResults.reduce((sum, result) => sum + result.latencyMs, 0) / reachableResults.length)
+                        : null;
+                    const isChecking = checking.has(service);
+
+                    return (
+                        <div key={service} className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 flex flex-col gap-3">
+                            <div className="flex items-center justify-between">
+                                <span className="font-semibold text-gray-900 dark:text-white">{SERVICE_LABELS[service]}</span>
+                                <span className={`inline-flex items-center px-2 py-1 rounded-lg text-xs font-medium border ${status.className}`}>
+                                    {isChecking ? 'Checking...' : status.label}
+                                </span>
+                            </div>
+
+                            {/* Latency */}
+                            <div className="flex items-baseline gap-2">
+                                <span className="text-2xl font-bold text-gray-900 dark:text-white">
+                                    {latest?.reachable ? `${latest.latencyMs} ms` : '—'}
+                                </span>
+                                {avgLatency !== null && (
+                                    <span className="text-xs text-gray-500">avg {avgLatency} ms</span>
+                                )}
+                            </div>
+
+                            {/* Latency history (oldest → newest) */}
+                            <div className="flex items-end gap-0.5 h-10" title="Latency history">
+                                {results.map(result => (
+                                    <div
+                                        key={result.checkedAt}
+                                        className={`flex-1 rounded-sm ${result.reachable ? 'bg-green-500/70' : 'bg-red-500/70'}`}
+                                        style={{ height: `${result.reachable ? Math.max(8, (result.latencyMs / maxLatency) * 100) : 100}%` }}
+                                        title={`${formatTime(result.checkedAt)} - ${result.reachable ? `${result.latencyMs} ms` : 'unreachable'}`}
+                                    />
+                                ))}
+                            </div>
+
+                            {/* Session cookie */}
+                            <div className="flex items-center gap-2 text-sm">
+                                <Cookie className="h-4 w-4 text-gray-400" />
+                                {latest?.sessionAccepted === true && (
+                                    <span className="flex items-center gap-1 text-green-500"><CheckCircle className="h-4 w-4" /> Session accepted</span>
+                                )}
+                                {latest?.sessionAccepted === false && (
+                                    <span className="flex items-center gap-1 text-yellow-600 dark:text-yellow-400"><XCircle className="h-4 w-4" /> Session rejected</span>
+                                )}
+                                {(!latest || latest.sessionAccepted === null) && (
+                                    <span className="text-gray-500">Session unknown</span>
+                                )}
+                            </div>
+
+                            {/* Last error */}
+                            {lastFailure && (
+                                <div className="p-2 bg-red-500/10 border border-red-500/30 rounded-lg flex items-start gap-2">
+                                    <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0 mt-0.5" />
+                                    <div className="text-xs">
+                                        <p className="text-red-600 dark:text-red-400">{lastFailure.error}</p>
+                                        <p className="text-gray-500 mt-1">{formatTime(lastFailure.checkedAt)}</p>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="flex gap-2 mt-auto pt-1">
+                                <button
+                                    onClick={() => checkService(service)}
+                                    disabled={isChecking}
+                                    className="flex-1 px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded-lg transition-all disabled:opacity-50"
+                                >
+                                    Ping
+                                </button>
+                                {latest?.sessionAccepted === false && (
+                                    <button
+                                        onClick={() => resyncSession(service)}
+                                        disabled={isChecking}
+                                        className="flex-1 px-3 py-1.5 text-sm bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-600 dark:text-yellow-400 rounded-lg transition-all disabled:opacity-50"
+                                        title="Refresh the session and send set-token to this service again"
+                                    >
+                                        Re-sync cookie
+                                    </button>
+                                )}
+                            </div>
+
+                            {latest && (
+                                <p className="text-xs text-gray-500">Last checked {formatTime(latest.checkedAt)}</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
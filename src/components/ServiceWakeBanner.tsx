@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useWakingServices } from '../hooks/useServiceStatus';
+import { SERVICE_LABELS } from '../lib/apiError';
+
+/**
+ * Service Wake Banner
+ *
+ * Shown while one or more Render services are booting after being idle,
+ * so a long first load reads as "waking up" instead of a frozen page
+ */
+export default function ServiceWakeBanner() {
+    const waking = useWakingServices();
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tick once a second so the elapsed time stays current
+    useEffect(() => {
+        if (waking.length === 0) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [waking.length]);
+
+    if (waking.length === 0) return null;
+
+    const names = waking.map(entry => SERVICE_LABELS[entry.service]).join(', ');
+    const since = Math.min(...waking.map(entry => entry.since));
+    const elapsed = Math.max(0, Math.round((now - since) / 1000));
+    const attempt = Math.max(...waking.map(entry => entry.attempt));
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            className="bg-amber-50 dark:bg-amber-500/10 border-b border-amber-200 dark:border-amber-500/30 text-amber-800 dark:text-amber-300"
+        >
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-3 text-sm">
+                <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+                <span>
+                    <span className="font-semibold">Waking up {names} {waking.length === 1 ? 'service' : 'services'}</span>
+                    {' '}- idle servers can take up to a minute to start ({elapsed}s so far{attempt > 0 ? `, retry ${attempt}` : ''}).
+                </span>
+            </div>
+        </div>
+    );
+}
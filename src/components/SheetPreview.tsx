@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronLeft, ChevronRight, Table } from 'lucide-react';
+import { ParsedSheet, SheetIssue } from '../lib/sheetParser';
+import { ColumnMapping } from '../types/upload';
+
+interface SheetPreviewProps {
+    sheet: ParsedSheet;
+    mapping: ColumnMapping;
+    issues: SheetIssue[];
+    onMappingChange: (mapping: ColumnMapping) => void;
+}
+
+const ROWS_PER_PAGE = 10;
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+    { key: 'rollNumber', label: 'Roll Number *' },
+    { key: 'name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+];
+
+/**
+ * Sheet Preview Component
+ *
+ * Paginated look at a parsed round file with the detected roll number,
+ * name and email columns, which the user can re-map before uploading
+ */
+export default function SheetPreview({ sheet, mapping, issues, onMappingChange }: SheetPreviewProps) {
+    const [page, setPage] = useState(0);
+    const totalPages = Math.max(1, Math.ceil(sheet.rows.length / ROWS_PER_PAGE));
+    const currentPage = Math.min(page, totalPages - 1);
+    const pageRows = sheet.rows.slice(currentPage * ROWS_PER_PAGE, (currentPage + 1) * ROWS_PER_PAGE);
+
+    const fieldForColumn = (column: string) => MAPPING_FIELDS.find(field => mapping[field.key] === column);
+
+    return (
+        <div className="space-y-4 animate-fade-in">
+            <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+                    <Table className="h-4 w-4" />
+                    Preview · {sheet.sheetName}
+                </p>
+                <p className="text-xs text-gray-500">
+                    {sheet.rows.length} rows · {sheet.columns.length} columns
+                </p>
+            </div>
+
+            {/* Column Mapping */}
+            <div className="grid grid-cols-3 gap-3">
+                {MAPPING_FIELDS.map(field => (
+                    <div key={field.key}>
+                        <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                            {field.label}
+                        </label>
+                        <select
+                            value={mapping[field.key] ?? ''}
+                            onChange={(e) => onMappingChange({ ...mapping, [field.key]: e.target.value || null })}
+                            className="w-full px-3 py-2 text-sm rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                            <option value="">Not in sheet</option>
+                            {sheet.columns.map(column => (
+                                <option key={column} value={column}>{column}</option>
+                            ))}
+                        </select>
+                    </div>
+                ))}
+            </div>
+
+            {/* Issues */}
+            {issues.length > 0 && (
+                <div className="space-y-2">
+                    {issues.map(issue => (
+                        <div
+                            key={issue.message}
+                            className={`p-3 rounded-xl border flex items-start gap-2 text-sm ${issue.level === 'error'
+                                ? 'bg-red-500/10 border-red-500/30 text-red-600 dark:text-red-400'
+                                : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-700 dark:text-yellow-400'
+                                }`}
+                        >
+                            {issue.level === 'error'
+                                ? <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                                : <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />}
+                            {issue.message}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Rows */}
+            <div className="overflow-x-auto rounded-xl border border-gray-200 dark:border-gray-700">
+                <table className="w-full text-sm">
+                    <thead className="bg-gray-100 dark:bg-gray-800">
+                        <tr>
+                            {sheet.columns.map(column => {
+                                const field = fieldForColumn(column);
+                                return (
+                                    <th
+                                        key={column}
+                                        className={`text-left py-2 px-3 font-medium whitespace-nowrap ${field ? 'text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400'}`}
+                                    >
+                                        {column}
+                                        {field && (
+                                            <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-500/20 text-xs">
+                                                {field.label.replace(' *', '')}
+                                            </span>
+                                        )}
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {pageRows.map((row, index) => (
+                            <tr key={currentPage * ROWS_PER_PAGE + index} className="border-t border-gray-200 dark:border-gray-700/50">
+                                {sheet.columns.map(column => (
+                                    <td
+                                        key={column}
+                                        className={`py-2 px-3 whitespace-nowrap text-gray-900 dark:text-gray-200 ${fieldForColumn(column) ? 'bg-blue-500/5' : ''}`}
+                                    >
+                                        {String(row[column] ?? '')}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+                <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                    <span>
+                        Rows {currentPage * ROWS_PER_PAGE + 1}-{Math.min((currentPage + 1) * ROWS_PER_PAGE, sheet.rows.length)} of {sheet.rows.length}
+                    </span>
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setPage(currentPage - 1)}
+                            disabled={currentPage === 0}
+                            className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                        >
+                            <ChevronLeft className="h-4 w-4" />
+                        </button>
+                        <span>{currentPage + 1} / {totalPages}</span>
+                        <button
+                            type="button"
+                            onClick={() => setPage(currentPage + 1)}
+                            disabled={currentPage >= totalPages - 1}
+                            className="p-1.5 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                        >
+                            <ChevronRight className="h-4 w-4" />
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
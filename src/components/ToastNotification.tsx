@@ -75,6 +75,17 @@ export default function ToastNotification({ toast, onRemove }: ToastNotification
                     <p className="text-sm text-gray-600 dark:text-gray-400 mt-0.5">
                         {toast.message}
                     </p>
+                    {toast.action && (
+                        <button
+                            onClick={() => {
+                                toast.action!.onClick();
+                                handleRemove();
+                            }}
+                            className="mt-2 text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                            {toast.action.label}
+                        </button>
+                    )}
                 </div>
 
                 {/* Close button (only for non-loading toasts) */}
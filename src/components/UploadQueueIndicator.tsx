@@ -0,0 +1,47 @@
+import { Link, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useUploadQueue } from '../context/UploadQueueContext';
+import { describeUploadRound } from '../lib/uploadUtils';
+
+/**
+ * Upload Queue Indicator
+ *
+ * Small floating card that follows the user around the app while round
+ * uploads are still running, linking back to the Upload page
+ */
+export default function UploadQueueIndicator() {
+    const { jobs } = useUploadQueue();
+    const location = useLocation();
+
+    const pending = jobs.filter(job => ['queued', 'uploading', 'processing'].includes(job.status));
+    if (pending.length === 0 || location.pathname === '/upload') return null;
+
+    const active = pending.find(job => job.status !== 'queued') ?? pending[0];
+    const percent = active.total > 0 ? Math.round((active.loaded / active.total) * 100) : 0;
+
+    return (
+        <Link
+            to="/upload"
+            className="fixed bottom-6 left-6 z-40 w-72 glass-strong rounded-xl p-4 shadow-2xl border border-blue-500/30 hover:border-blue-500/60 transition-all animate-fade-in"
+        >
+            <div className="flex items-center gap-3">
+                <Loader2 className="h-5 w-5 text-blue-500 animate-spin flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {active.companyName} - {describeUploadRound(active)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                        {active.status === 'processing' ? 'Processing...' : active.status === 'queued' ? 'Waiting...' : `${percent}% uploaded`}
+                        {pending.length > 1 && ` · ${pending.length - 1} more queued`}
+                    </p>
+                </div>
+            </div>
+            <div className="mt-3 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-200"
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+        </Link>
+    );
+}
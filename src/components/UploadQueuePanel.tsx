@@ -0,0 +1,100 @@
+import { RefreshCw, X, ListOrdered } from 'lucide-react';
+import { useUploadQueue } from '../context/UploadQueueContext';
+import { describeUploadRound, describeUploadStatus } from '../lib/uploadUtils';
+import UploadStatusIcon from './UploadStatusIcon';
+
+/**
+ * Upload Queue Panel
+ *
+ * Lists every round upload of this session with live progress.
+ * Failed or cancelled uploads can be retried with the same file and fields.
+ */
+export default function UploadQueuePanel() {
+    const { jobs, cancelUpload, retryUpload, removeUpload, clearFinished } = useUploadQueue();
+
+    if (jobs.length === 0) return null;
+
+    const hasFinished = jobs.some(job => ['success', 'error', 'cancelled'].includes(job.status));
+
+    return (
+        <div className="glass-strong rounded-2xl p-6 shadow-2xl mt-6">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-3">
+                    <div className="p-2 bg-gradient-to-br from-purple-500 to-pink-600 rounded-lg">
+                        <ListOrdered className="h-5 w-5 text-white stroke-white" strokeWidth={2} />
+                    </div>
+                    Upload Queue
+                </h2>
+                {hasFinished && (
+                    <button
+                        onClick={clearFinished}
+                        className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+                    >
+                        Clear finished
+                    </button>
+                )}
+            </div>
+
+            <div className="space-y-3">
+                {jobs.map(job => {
+                    const isActive = job.status === 'uploading' || job.status === 'processing';
+                    const canRetry = job.status === 'error' || job.status === 'cancelled';
+                    const percent = job.total > 0 ? Math.round((job.loaded / job.total) * 100) : 0;
+
+                    return (
+                        <div key={job.id} className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700">
+                            <div className="flex items-center gap-3">
+                                <UploadStatusIcon job={job} />
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-medium text-gray-900 dark:text-white truncate">
+                                        {job.companyName} {job.year} - {describeUploadRound(job)}
+                                    </p>
+                                    <p className={`text-sm truncate ${job.status === 'error' ? 'text-red-500' : 'text-gray-500'}`}>
+                                        {job.file.name} · {describeUploadStatus(job)}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {(isActive || job.status === 'queued') && (
+                                        <button
+                                            onClick={() => cancelUpload(job.id)}
+                                            className="px-3 py-1 text-sm rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-500 transition-all"
+                                        >
+                                            Cancel
+                                        </button>
+                                    )}
+                                    {canRetry && (
+                                        <button
+                                            onClick={() => retryUpload(job.id)}
+                                            className="p-2 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 text-blue-500 transition-all"
+                                            title="Retry upload"
+                                        >
+                                            <RefreshCw className="h-4 w-4" />
+                                        </button>
+                                    )}
+                                    {!isActive && (
+                                        <button
+                                            onClick={() => removeUpload(job.id)}
+                                            className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400 transition-all"
+                                            title="Remove from list"
+                                        >
+                                            <X className="h-4 w-4" />
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {isActive && (
+                                <div className="mt-3 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-200"
+                                        style={{ width: `${percent}%` }}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
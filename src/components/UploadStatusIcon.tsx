@@ -0,0 +1,18 @@
+import { CheckCircle, XCircle, Loader2, Clock, Ban } from 'lucide-react';
+import { UploadJob } from '../types/upload';
+
+export default function UploadStatusIcon({ job }: { job: UploadJob }) {
+    switch (job.status) {
+        case 'queued':
+            return <Clock className="h-5 w-5 text-gray-400" />;
+        case 'uploading':
+        case 'processing':
+            return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />;
+        case 'success':
+            return <CheckCircle className="h-5 w-5 text-green-500" />;
+        case 'error':
+            return <XCircle className="h-5 w-5 text-red-500" />;
+        case 'cancelled':
+            return <Ban className="h-5 w-5 text-gray-400" />;
+    }
+}
@@ -0,0 +1,297 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, FileSpreadsheet, KeyRound, Loader2, Upload, X } from 'lucide-react';
+import { parseSheetFile } from '../lib/sheetParser';
+import { exportToCSV } from '../lib/exportUtils';
+import {
+    IMPORT_BATCH_SIZE,
+    USER_IMPORT_TEMPLATE,
+    UserImportResult,
+    UserImportRow,
+    buildImportRows,
+    checkImportColumns,
+    detectImportColumns,
+    importUsers,
+} from '../lib/userImport';
+
+interface UserImportModalProps {
+    existingUsernames: string[];
+    onClose: () => void;
+    onImported: (created: number) => void;
+}
+
+type Step = 'pick' | 'preview' | 'importing' | 'done';
+
+const ROW_BADGES: Record<UserImportRow['status'] | UserImportResult['status'], { label: string; className: string }> = {
+    ready: { label: 'Ready', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+    exists: { label: 'Exists', className: 'bg-gray-500/20 text-gray-400 border-gray-500/30' },
+    invalid: { label: 'Invalid', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+    created: { label: 'Created', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+    failed: { label: 'Failed', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+    skipped: { label: 'Skipped', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+};
+
+// Bulk account creation from a CSV: preview, throttled import, then a one-time credentials download
+export default function UserImportModal({ existingUsernames, onClose, onImported }: UserImportModalProps) {
+    const [step, setStep] = useState<Step>('pick');
+    const [fileName, setFileName] = useState('');
+    const [sheetProblems, setSheetProblems] = useState<string[]>([]);
+    const [rows, setRows] = useState<UserImportRow[]>([]);
+    const [results, setResults] = useState<Record<number, UserImportResult>>({});
+    const [credentialsDownloaded, setCredentialsDownloaded] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const counts = {
+        ready: rows.filter(row => row.status === 'ready').length,
+        exists: rows.filter(row => row.status === 'exists').length,
+        invalid: rows.filter(row => row.status === 'invalid').length,
+    };
+    const resultList = Object.values(results);
+    const created = resultList.filter(result => result.status === 'created');
+    const hasUnsavedCredentials = created.length > 0 && !credentialsDownloaded;
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFileName(file.name);
+        setSheetProblems([]);
+        setRows([]);
+
+        try {
+            const sheet = await parseSheetFile(file);
+            const columns = detectImportColumns(sheet);
+            const problems = checkImportColumns(sheet, columns);
+            if (problems.length > 0) {
+                setSheetProblems(problems);
+                return;
+            }
+            setRows(buildImportRows(sheet, columns, existingUsernames));
+            setStep('preview');
+        } catch (error) {
+            setSheetProblems([(error as Error).message || 'Could not read the file']);
+        }
+    };
+
+    const handleImport = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setResults({});
+        setStep('importing');
+
+        const finished = await importUsers(
+            rows,
+            result => setResults(prev => ({ ...prev, [result.row]: result })),
+            controller.signal
+        );
+        abortRef.current = null;
+        setStep('done');
+        onImported(finished.filter(result => result.status === 'created').length);
+    };
+
+    // Passwords are dropped from memory once downloaded - there is no second copy
+    const handleDownloadCredentials = () => {
+        const passwords = new Map(rows.map(row => [row.row, row.password]));
+        exportToCSV(created.map(result => ({
+            Username: result.username,
+            Role: result.role,
+            'Roll Number': result.rollNumber ?? '',
+            Password: passwords.get(result.row),
+        })), `initial-credentials-${new Date().toISOString().slice(0, 10)}`);
+        setRows(prev => prev.map(row => ({ ...row, password: '' })));
+        setCredentialsDownloaded(true);
+    };
+
+    const handleDownloadReport = () => {
+        exportToCSV(rows.map(row => {
+            const result = results[row.row];
+            return {
+                Row: row.row,
+                Username: row.username,
+                Role: row.role ?? '',
+                'Roll Number': row.rollNumber ?? '',
+                Result: result ? ROW_BADGES[result.status].label : ROW_BADGES[row.status].label,
+                Details: result?.message ?? row.issues.join('; '),
+            };
+        }), `user-import-report-${new Date().toISOString().slice(0, 10)}`);
+    };
+
+    const handleClose = () => {
+        if (step === 'importing') return;
+        if (hasUnsavedCredentials && !confirm('The initial passwords have not been downloaded and cannot be shown again. Close anyway?')) {
+            return;
+        }
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in" onClick={handleClose}>
+            <div className="glass-strong rounded-2xl border border-purple-500/30 max-w-4xl w-full max-h-[90vh] flex flex-col shadow-2xl animate-scale-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-6 border-b border-gray-700">
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <FileSpreadsheet className="h-5 w-5 text-purple-400" />
+                        Import Users {fileName && <span className="text-sm font-normal text-gray-500">- {fileName}</span>}
+                    </h3>
+                    <button onClick={handleClose} disabled={step === 'importing'} className="p-2 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50">
+                        <X className="h-5 w-5 text-gray-400" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    {step === 'pick' && (
+                        <>
+                            <p className="text-gray-600 dark:text-gray-400 text-sm">
+                                Upload a .csv or .xlsx sheet with <strong>Username</strong> and <strong>Role</strong> (admin, faculty or student) columns,
+                                plus <strong>Roll Number</strong> for students and an optional <strong>Password</strong>. Blank passwords are generated.
+                            </p>
+                            <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl cursor-pointer hover:border-purple-500/60 transition-colors">
+                                <Upload className="h-8 w-8 text-gray-400" />
+                                <span className="text-gray-700 dark:text-gray-300 font-medium">Choose a file</span>
+                                <input type="file" accept=".csv,.xlsx" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+                            </label>
+                            <button
+                                onClick={() => exportToCSV(USER_IMPORT_TEMPLATE, 'user-import-template')}
+                                className="text-sm text-blue-500 hover:text-blue-400 flex items-center gap-2"
+                            >
+                                <Download className="h-4 w-4" />
+                                Download a template
+                            </button>
+                            {sheetProblems.length > 0 && (
+                                <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3">
+                                    <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+                                    <ul className="text-red-600 dark:text-red-400 text-sm space-y-1">
+                                        {sheetProblems.map(problem => <li key={problem}>{problem}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {step !== 'pick' && (
+                        <>
+                            <div className="flex flex-wrap gap-3 text-sm">
+                                <span className="px-3 py-1.5 rounded-lg bg-blue-500/10 text-blue-500">{counts.ready} to create</span>
+                                <span className="px-3 py-1.5 rounded-lg bg-gray-500/10 text-gray-500">{counts.exists} already exist</span>
+                                <span className="px-3 py-1.5 rounded-lg bg-red-500/10 text-red-500">{counts.invalid} invalid</span>
+                                {step !== 'preview' && (
+                                    <span className="px-3 py-1.5 rounded-lg bg-green-500/10 text-green-500">
+                                        {created.length} created · {resultList.filter(result => result.status === 'failed').length} failed
+                                    </span>
+                                )}
+                            </div>
+
+                            {step === 'importing' && (
+                                <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                    Creating accounts {IMPORT_BATCH_SIZE} at a time - {resultList.length} of {counts.ready} done
+                                </div>
+                            )}
+
+                            {step === 'done' && created.length > 0 && (
+                                <div className={`p-4 rounded-xl border flex items-start gap-3 ${credentialsDownloaded ? 'bg-green-500/10 border-green-500/30' : 'bg-yellow-500/10 border-yellow-500/30'}`}>
+                                    {credentialsDownloaded
+                                        ? <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+                                        : <KeyRound className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />}
+                                    <p className={`text-sm ${credentialsDownloaded ? 'text-green-600 dark:text-green-400' : 'text-yellow-700 dark:text-yellow-400'}`}>
+                                        {credentialsDownloaded
+                                            ? 'Initial credentials downloaded. The passwords are no longer kept in the browser.'
+                                            : 'Download the initial credentials now - the passwords can only be downloaded once and are not shown anywhere else.'}
+                                    </p>
+                                </div>
+                            )}
+
+                            <div className="overflow-x-auto border border-gray-700/50 rounded-xl">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b border-gray-700 text-gray-400">
+                                            <th className="text-left py-2 px-3 font-medium">Row</th>
+                                            <th className="text-left py-2 px-3 font-medium">Username</th>
+                                            <th className="text-left py-2 px-3 font-medium">Role</th>
+                                            <th className="text-left py-2 px-3 font-medium">Roll Number</th>
+                                            <th className="text-left py-2 px-3 font-medium">Password</th>
+                                            <th className="text-left py-2 px-3 font-medium">Status</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {rows.map(row => {
+                                            const result = results[row.row];
+                                            const badge = ROW_BADGES[result?.status ?? row.status];
+                                            const details = result ? (result.status === 'created' ? [] : [result.message]) : row.issues;
+                                            return (
+                                                <tr key={row.row} className="border-b border-gray-700/50 align-top">
+                                                    <td className="py-2 px-3 text-gray-500">{row.row}</td>
+                                                    <td className="py-2 px-3 text-gray-900 dark:text-white">{row.username || '-'}</td>
+                                                    <td className="py-2 px-3 text-gray-700 dark:text-gray-300">{row.role ?? '-'}</td>
+                                                    <td className="py-2 px-3 text-gray-700 dark:text-gray-300">{row.rollNumber ?? '-'}</td>
+                                                    <td className="py-2 px-3 text-gray-500">{row.generatedPassword ? 'Generated' : 'From sheet'}</td>
+                                                    <td className="py-2 px-3">
+                                                        <span className={`inline-flex px-2 py-0.5 rounded-md text-xs font-medium border ${badge.className}`}>{badge.label}</span>
+                                                        {details.map(detail => (
+                                                            <p key={detail} className="text-xs text-gray-500 mt-1">{detail}</p>
+                                                        ))}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-3 p-6 border-t border-gray-700">
+                    {step === 'preview' && (
+                        <>
+                            <button
+                                onClick={() => setStep('pick')}
+                                className="px-5 py-3 bg-gray-500 hover:bg-gray-600 text-white rounded-xl font-medium transition-all"
+                            >
+                                Choose another file
+                            </button>
+                            <button
+                                onClick={handleImport}
+                                disabled={counts.ready === 0}
+                                className="px-5 py-3 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all disabled:opacity-50"
+                            >
+                                Create {counts.ready} account{counts.ready === 1 ? '' : 's'}
+                            </button>
+                        </>
+                    )}
+                    {step === 'importing' && (
+                        <button
+                            onClick={() => abortRef.current?.abort()}
+                            className="px-5 py-3 bg-red-500 hover:bg-red-600 text-white rounded-xl font-medium transition-all"
+                        >
+                            Stop after this batch
+                        </button>
+                    )}
+                    {step === 'done' && (
+                        <>
+                            <button
+                                onClick={handleDownloadReport}
+                                className="px-5 py-3 bg-gray-500 hover:bg-gray-600 text-white rounded-xl font-medium transition-all flex items-center gap-2"
+                            >
+                                <Download className="h-4 w-4" />
+                                Download report
+                            </button>
+                            {created.length > 0 && (
+                                <button
+                                    onClick={handleDownloadCredentials}
+                                    disabled={credentialsDownloaded}
+                                    className="px-5 py-3 bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 text-white rounded-xl font-medium transition-all disabled:opacity-50 flex items-center gap-2"
+                                >
+                                    <KeyRound className="h-4 w-4" />
+                                    {credentialsDownloaded ? 'Credentials downloaded' : 'Download credentials'}
+                                </button>
+                            )}
+                            <button
+                                onClick={handleClose}
+                                className="px-5 py-3 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all"
+                            >
+                                Close
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,11 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
 import { api } from '../lib/api';
-import { AuthContextType, User } from '../types';
+import { cacheStorage } from '../lib/cacheStorage';
+import { offlineQueueStorage } from '../lib/offlineQueue';
+import { postTabMessage, subscribeTabMessages } from '../lib/tabSync';
+import { Permission, homePathForRole, permissionsForRole } from '../lib/permissions';
+import { SESSION_RENEW_MS, subscribeSessionExpired } from '../lib/session';
+import { AuthContextType, SessionEnd, SessionEndReason, User } from '../types';
 
 
 
@@ -9,6 +14,11 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
+    const [sessionEnded, setSessionEnded] = useState<SessionEnd | null>(null);
+    const userRef = useRef<User | null>(null);
+    useEffect(() => {
+        userRef.current = user;
+    }, [user]);
 
     const fetchUser = async () => {
         try {
@@ -26,36 +36,117 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         fetchUser();
     }, []);
 
+    // Logins and logouts in other tabs share the same cookies - follow them here
+    useEffect(() => subscribeTabMessages(message => {
+        if (message.type === 'logout') {
+            console.log('🔒 Logged out in another tab');
+            const current = userRef.current;
+            if (message.reason && current) setSessionEnded({ reason: message.reason, username: current.username });
+            setUser(null);
+        } else if (message.type === 'login') {
+            setSessionEnded(null);
+            setUser(message.user);
+        }
+    }), []);
+
     const login = async (username: string, password: string) => {
         const response = await api.login(username, password);
+        setSessionEnded(null);
         setUser(response.user);
+        postTabMessage({ type: 'login', user: response.user });
+        return response.user;
     };
 
     const logout = async () => {
         await api.logout();
-        // ✅ SECURITY: Clear local cache to prevent data leakage
-        localStorage.clear();
-        console.log('🗑️ Local storage cleared on logout');
+        await clearLocalData();
+        postTabMessage({ type: 'logout' });
+        setSessionEnded(null);
         setUser(null);
     };
 
+    // Idle timeout or a session the server no longer accepts. Remembers who it was
+    // so the login page can explain and send the same user back to their page.
+    const endSession = useCallback(async (reason: SessionEndReason) => {
+        const current = userRef.current;
+        if (!current) return;
+        userRef.current = null;  // Ignore repeats while the logout is in flight
+
+        console.log(reason === 'idle' ? '⏰ Logged out after inactivity' : '🔒 Session expired');
+        await api.logout();
+        // Unsent offline changes wait for the same user to log back in
+        await clearLocalData({ keepOfflineQueue: true });
+        postTabMessage({ type: 'logout', reason });
+        setSessionEnded({ reason, username: current.username });
+        setUser(null);
+    }, []);
+
+    // A 401 the refresh token could not fix - only matters while someone is logged in
+    useEffect(() => subscribeSessionExpired(() => {
+        endSession('expired');
+    }), [endSession]);
+
+    // Renew before the access token lapses instead of waiting for a request to hit 401.
+    // A failed renewal is left to that 401 path - it may just be a sleeping auth service.
+    const userId = user?.id;
+    useEffect(() => {
+        if (!userId || SESSION_RENEW_MS <= 0) return;
+
+        const interval = setInterval(() => {
+            if (!navigator.onLine) return;
+            api.renewSession()
+                .then(renewed => console.log(renewed ? '🔄 Session renewed' : '⚠️ Session renewal failed'))
+                .catch(error => console.warn('Session renewal failed:', error));
+        }, SESSION_RENEW_MS);
+        return () => clearInterval(interval);
+    }, [userId]);
+
     const refreshUser = async () => {
         await fetchUser();
     };
 
+    // Re-read the user so a cleared mustChangePassword lets every tab past the change screen
+    const changePassword = async (currentPassword: string, newPassword: string) => {
+        await api.changePassword(currentPassword, newPassword);
+        const updated = await api.getCurrentUser();
+        setUser(updated);
+        postTabMessage({ type: 'login', user: updated });
+    };
+
+    const permissions = useMemo(() => permissionsForRole(user?.role), [user?.role]);
+
     const value = {
         user,
         loading,
         login,
         logout,
         refreshUser,
+        changePassword,
         isAuthenticated: !!user,
         isAdmin: user?.role === 'admin',
+        can: (permission: Permission) => permissions.has(permission),
+        homePath: homePathForRole(user?.role),
+        sessionEnded,
+        endSession,
     };
 
     return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
 
+// ✅ SECURITY: Clear local cache to prevent data leakage
+async function clearLocalData({ keepOfflineQueue = false } = {}) {
+    localStorage.clear();
+    await cacheStorage.clear().catch(error => console.warn('Failed to clear cache storage:', error));
+    if (keepOfflineQueue) {
+        // Kept per owner - no other user can see or replay it (offlineQueueStorage.loadForUser)
+        console.log('🗑️ Local storage and cached data cleared on logout; offline changes kept for their owner');
+        return;
+    }
+    // Queued offline changes must not be replayed under the next user's session
+    await offlineQueueStorage.clear().catch(error => console.warn('Failed to clear offline queue:', error));
+    console.log('🗑️ Local storage, cached data and offline changes cleared on logout');
+}
+
 // eslint-disable-next-line react-refresh/only-export-components
 export function useAuth() {
     const context = useContext(AuthContext);
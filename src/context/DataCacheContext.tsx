@@ -1,22 +1,40 @@
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, ReactNode, Dispatch, SetStateAction } from 'react';
 import { api } from '../lib/api';
-import { YearAnalytics, Company, Student, StudentStats, DashboardSummary, Round } from '../types';
-
-interface CacheEntry<T> {
-    data: T;
-    timestamp: number;
-}
+import { YearAnalytics, Company, Student, StudentStats, DashboardSummary, Round, CreateStudentPayload, DeleteStudentResponse, StudentsResponse, CompaniesDeltaResponse } from '../types';
+import { CacheEntity, REVALIDATE_MIN_INTERVAL_MS, deltaSyncCursor, isCacheStale } from '../lib/cachePolicy';
+import { ENTITY_STORAGE_KEYS, ROUNDS_KEY_PREFIX, cacheStorage, entityForStorageKey, roundsKey } from '../lib/cacheStorage';
+import { CACHE_SCHEMA_VERSION, upgradeCacheEntry } from '../lib/cacheSchema';
+import {
+    companiesResponseSchema,
+    companySchema,
+    dashboardSummarySchema,
+    roundsResponseSchema,
+    studentStatsSchema,
+    studentsResponseSchema,
+    yearsResponseSchema,
+} from '../lib/responseSchemas';
+import { postTabMessage, subscribeTabMessages } from '../lib/tabSync';
+import { useAuth } from './AuthContext';
+import { CacheEntry, CacheEntrySummary, CacheMutation, CacheSnapshot, CacheUsage } from '../types/cache';
+import { buildPendingStudent, mergeDelta, removeCompanyFromStudents, upsertCompany } from '../lib/cacheMutations';
+import { isOffline } from '../lib/offlineQueue';
+import { buildCacheSnapshot } from '../lib/cacheSnapshot';
 
 interface DataCacheContextType {
     // Cached data
     years: YearAnalytics[] | null;
     companies: Company[] | null;
-    students: Student[] | null;
+    students: Student[] | null;         // Includes optimistic creates, hides optimistic deletes
+    pendingStudentIds: string[];         // Created rows the server has not confirmed yet
     studentsStats: StudentStats | null;
     dashboardSummary: DashboardSummary | null;
     rounds: Record<string, Round[]>;  // Keyed by companyYearId
 
-    // Fetch functions (cache-first)
+    // When each entry was fetched (CacheEntry.timestamp), for "last updated" labels
+    cacheTimestamps: Record<Exclude<CacheEntity, 'rounds'>, number | null> & { rounds: Record<string, number> };
+    revalidating: Record<string, boolean>;  // Keyed by entity, or `rounds:<companyYearId>`
+
+    // Fetch functions (stale-while-revalidate)
     fetchYears: (force?: boolean) => Promise<YearAnalytics[]>;
     fetchCompanies: (force?: boolean) => Promise<Company[]>;
     fetchStudents: (force?: boolean) => Promise<Student[]>;
@@ -35,58 +53,132 @@ interface DataCacheContextType {
     // Cache management
     refreshAll: () => Promise<void>;
     clearCache: () => void;
+    invalidateCache: (entities: Exclude<CacheEntity, 'rounds'>[], roundsFor?: string[]) => void;   // Refetch on next read
+    applyMutation: (mutation: CacheMutation) => Promise<void>;   // Update only what a delete/upload touched
+    getStorageUsage: () => Promise<CacheUsage>;
+
+    // Maintenance (Admin > Data cache), by storage key
+    cacheEntries: CacheEntrySummary[];
+    refreshEntry: (key: string) => Promise<void>;
+    evictEntry: (key: string) => void;
+    exportSnapshot: () => Promise<CacheSnapshot>;
+    importSnapshot: (snapshot: CacheSnapshot) => Promise<void>;   // Replaces the whole cache
+
+    // Optimistic writes - the list changes at once and rolls back if the request fails
+    createStudent: (payload: CreateStudentPayload) => Promise<Student>;
+    deleteStudent: (student: Student) => Promise<DeleteStudentResponse>;
 }
 
 const DataCacheContext = createContext<DataCacheContextType | undefined>(undefined);
 
-// ✅ NO MORE TTL - Cache is permanent until manually cleared!
-// Data fetched ONCE and stored in localStorage
-// Reused across all pages without refetching
+// Stale-while-revalidate: cached data is always returned straight away, and
+// entries older than their TTL (lib/cachePolicy) are refetched in the background.
+// Pages re-run their effects when the fetch functions change, so they pick up
+// the revalidated data without a spinner.
+
+// Every cache write, invalidation and clear is also broadcast (lib/tabSync), so
+// all open tabs show the same data without refetching it themselves.
+
+// Give up on slow storage and start with an empty cache
+const HYDRATE_TIMEOUT_MS = 3000;
 
 export function DataCacheProvider({ children }: { children: ReactNode }) {
-    // Helper to load from localStorage
-    const loadFromStorage = <T,>(key: string): CacheEntry<T> | null => {
-        try {
-            const stored = localStorage.getItem(key);
-            if (stored) {
-                return JSON.parse(stored) as CacheEntry<T>;
-            }
-        } catch (error) {
-            console.warn(`Failed to load ${key} from localStorage:`, error);
-        }
-        return null;
+    // Helper to persist an entry (IndexedDB, or localStorage as fallback) and share it with other tabs
+    const saveToStorage = <T,>(key: string, data: CacheEntry<T>) => {
+        cacheStorage.save(key, data).catch(error => {
+            console.warn(`Failed to save ${key} to cache storage:`, error);
+        });
+        postTabMessage({ type: 'cache-updated', key, entry: { ...data, schemaVersion: CACHE_SCHEMA_VERSION } });
     };
 
-    // Helper to save to localStorage
-    const saveToStorage = <T,>(key: string, data: CacheEntry<T>) => {
-        try {
-            localStorage.setItem(key, JSON.stringify(data));
-        } catch (error) {
-            console.warn(`Failed to save ${key} to localStorage:`, error);
+    // Cache entries with timestamps - filled from cache storage on mount
+    const [hydrated, setHydrated] = useState(false);
+    const [yearsCache, setYearsCache] = useState<CacheEntry<YearAnalytics[]> | null>(null);
+    const [companiesCache, setCompaniesCache] = useState<CacheEntry<Company[]> | null>(null);
+    const [studentsCache, setStudentsCache] = useState<CacheEntry<Student[]> | null>(null);
+    const [statsCache, setStatsCache] = useState<CacheEntry<StudentStats> | null>(null);
+    const [dashboardCache, setDashboardCache] = useState<CacheEntry<DashboardSummary> | null>(null);
+    const [roundsCache, setRoundsCache] = useState<Record<string, CacheEntry<Round[]>>>({});
+
+    // Optimistic student writes, kept apart from the cache so revalidations cannot drop them
+    const [pendingStudents, setPendingStudents] = useState<{ added: Student[]; removedIds: string[] }>({ added: [], removedIds: [] });
+
+    // Apply a change to the in-memory entry behind a storage key (null removes it)
+    const updateEntry = useCallback((key: string, update: (prev: CacheEntry<unknown> | null) => CacheEntry<unknown> | null) => {
+        if (key.startsWith(ROUNDS_KEY_PREFIX)) {
+            const companyYearId = key.slice(ROUNDS_KEY_PREFIX.length);
+            setRoundsCache(prev => {
+                const next = { ...prev };
+                const entry = update(prev[companyYearId] ?? null);
+                if (entry) {
+                    next[companyYearId] = entry as CacheEntry<Round[]>;
+                } else {
+                    delete next[companyYearId];
+                }
+                return next;
+            });
+            return;
         }
-    };
 
-    // Cache entries with timestamps - Initialize from localStorage
-    const [yearsCache, setYearsCache] = useState<CacheEntry<YearAnalytics[]> | null>(() =>
-        loadFromStorage<YearAnalytics[]>('cache_years')
-    );
-    const [companiesCache, setCompaniesCache] = useState<CacheEntry<Company[]> | null>(() =>
-        loadFromStorage<Company[]>('cache_companies')
-    );
-    const [studentsCache, setStudentsCache] = useState<CacheEntry<Student[]> | null>(() =>
-        loadFromStorage<Student[]>('cache_all_students')  // ✅ Same key as Students page!
-    );
-    const [statsCache, setStatsCache] = useState<CacheEntry<StudentStats> | null>(() =>
-        loadFromStorage<StudentStats>('cache_stats')
-    );
-    const [dashboardCache, setDashboardCache] = useState<CacheEntry<DashboardSummary> | null>(() =>
-        loadFromStorage<DashboardSummary>('cache_dashboard')
-    );
-    const [roundsCache, setRoundsCache] = useState<Record<string, CacheEntry<Round[]>>>(() => {
-        // Load all company rounds from localStorage
-        const cached = loadFromStorage<Record<string, CacheEntry<Round[]>>>('cache_rounds');
-        return cached?.data || {};
-    });
+        const apply = <T,>(setter: Dispatch<SetStateAction<CacheEntry<T> | null>>) => {
+            setter(prev => update(prev) as CacheEntry<T> | null);
+        };
+        switch (key) {
+            case ENTITY_STORAGE_KEYS.years: apply(setYearsCache); break;
+            case ENTITY_STORAGE_KEYS.companies: apply(setCompaniesCache); break;
+            case ENTITY_STORAGE_KEYS.students: apply(setStudentsCache); break;
+            case ENTITY_STORAGE_KEYS.stats: apply(setStatsCache); break;
+            case ENTITY_STORAGE_KEYS.dashboard: apply(setDashboardCache); break;
+        }
+    }, []);
+
+    const resetMemory = useCallback(() => {
+        setYearsCache(null);
+        setCompaniesCache(null);
+        setStudentsCache(null);
+        setStatsCache(null);
+        setDashboardCache(null);
+        setRoundsCache({});  // Clear all rounds
+    }, []);
+
+    // Storage reads are async now - started once on mount, while children render straight away
+    const storageReadRef = useRef<Promise<Record<string, CacheEntry<unknown>>> | null>(null);
+    if (!storageReadRef.current) {
+        const timeout = new Promise<Record<string, CacheEntry<unknown>>>(resolve => {
+            setTimeout(() => resolve({}), HYDRATE_TIMEOUT_MS);
+        });
+        storageReadRef.current = Promise.race([cacheStorage.loadAll(), timeout]).catch(error => {
+            console.warn('Failed to load cache storage:', error);
+            return {};
+        });
+    }
+
+    useEffect(() => {
+        let cancelled = false;
+        storageReadRef.current!.then(entries => {
+            if (cancelled) return;
+            // Entries that other tabs sent in the meantime are newer than storage
+            Object.entries(entries).forEach(([key, entry]) => updateEntry(key, prev => prev ?? entry));
+            console.log(`📦 Loaded ${Object.keys(entries).length} cache entries from storage`);
+            setHydrated(true);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [updateEntry]);
+
+    // Fetches made before the loaded entries reach state wait for the storage read
+    // instead of going to the API, and use what it found
+    const hydratedRef = useRef(false);
+    useEffect(() => {
+        hydratedRef.current = hydrated;
+    }, [hydrated]);
+
+    const storedEntry = useCallback(async <T,>(key: string): Promise<CacheEntry<T> | null> => {
+        if (hydratedRef.current) return null;
+        const entries = await storageReadRef.current!;
+        return (entries[key] as CacheEntry<T> | undefined) ?? null;
+    }, []);
 
     // Loading states
     const [yearsLoading, setYearsLoading] = useState(false);
@@ -95,20 +187,40 @@ export function DataCacheProvider({ children }: { children: ReactNode }) {
     const [statsLoading, setStatsLoading] = useState(false);
     const [dashboardLoading, setDashboardLoading] = useState(false);
     const [roundsLoading, setRoundsLoading] = useState<Record<string, boolean>>({});
+    const [revalidating, setRevalidating] = useState<Record<string, boolean>>({});
+    const lastRevalidationRef = useRef(new Map<string, number>());
+
+    // Refetch a stale entry once in the background - callers keep the cached data
+    const revalidateInBackground = useCallback((key: string, refetch: () => Promise<unknown>) => {
+        if (isOffline()) return;   // Keep showing the saved copy until the connection is back
+        const lastAttempt = lastRevalidationRef.current.get(key);
+        if (lastAttempt && Date.now() - lastAttempt < REVALIDATE_MIN_INTERVAL_MS) return;
+        lastRevalidationRef.current.set(key, Date.now());
+
+        console.log(`♻️ Cache for ${key} is stale - revalidating in background`);
+        setRevalidating(prev => ({ ...prev, [key]: true }));
+        refetch()
+            .catch(error => console.warn(`⚠️ Background revalidation of ${key} failed:`, error))
+            .finally(() => setRevalidating(prev => ({ ...prev, [key]: false })));
+    }, []);
 
-    // Fetch Years (cache-first, permanent)
+    // Fetch Years (stale-while-revalidate)
     const fetchYears = useCallback(async (force = false): Promise<YearAnalytics[]> => {
+        const cached = yearsCache ?? await storedEntry<YearAnalytics[]>(ENTITY_STORAGE_KEYS.years);
         // ✅ Return cached data if exists (unless forced refresh)
-        if (!force && yearsCache?.data) {
-            console.log('✅ Using cached years from localStorage/memory');
-            return yearsCache.data;
+        if (!force && cached?.data) {
+            console.log('✅ Using cached years from storage/memory');
+            if (isCacheStale('years', cached)) {
+                revalidateInBackground('years', () => fetchYears(true));
+            }
+            return cached.data;
         }
 
         // Fetch from API
         console.log('🔄 Fetching years from API...');
         setYearsLoading(true);
         try {
-            const data = await api.request<YearAnalytics[]>('/years');
+            const data = await api.request<YearAnalytics[]>('/years', {}, yearsResponseSchema);
             data.sort((a, b) => a.year - b.year);
 
             const cacheEntry = {
@@ -116,36 +228,52 @@ export function DataCacheProvider({ children }: { children: ReactNode }) {
                 timestamp: Date.now(),
             };
             setYearsCache(cacheEntry);
-            saveToStorage('cache_years', cacheEntry);
+            saveToStorage(ENTITY_STORAGE_KEYS.years, cacheEntry);
 
-            console.log(`✅ Cached ${data.length} years to memory + localStorage`);
+            console.log(`✅ Cached ${data.length} years to memory + storage`);
             return data;
         } catch (error) {
             console.error('❌ Error fetching years:', error);
             // Return cached data if available, even if expired
-            if (yearsCache) {
+            if (cached) {
                 console.log('⚠️ Using expired cache due to error');
-                return yearsCache.data;
+                return cached.data;
             }
             throw error;
         } finally {
             setYearsLoading(false);
         }
-    }, [yearsCache]);
+    }, [yearsCache, revalidateInBackground, storedEntry]);
 
-    // Fetch Companies (cache-first, permanent)
+    // Fetch Companies (stale-while-revalidate)
     const fetchCompanies = useCallback(async (force = false): Promise<Company[]> => {
+        const cached = companiesCache ?? await storedEntry<Company[]>(ENTITY_STORAGE_KEYS.companies);
         // ✅ Return cached data if exists (unless forced refresh)
-        if (!force && companiesCache?.data) {
-            console.log('✅ Using cached companies from localStorage/memory');
-            return companiesCache.data;
+        if (!force && cached?.data) {
+            console.log('✅ Using cached companies from storage/memory');
+            if (isCacheStale('companies', cached)) {
+                revalidateInBackground('companies', () => fetchCompanies(true));
+            }
+            return cached.data;
         }
 
-        // Fetch from API
-        console.log('🔄 Fetching companies from API...');
+        // Fetch from API - only what changed since the cached copy, when there is one
+        const since = deltaSyncCursor(cached);
+        console.log(since ? `🔁 Syncing companies changed since ${since}...` : '🔄 Fetching companies from API...');
         setCompaniesLoading(true);
         try {
-            const data = await api.request<Company[]>('/companies');
+            const response = await api.request<Company[] | CompaniesDeltaResponse>(
+                since ? `/companies?since=${encodeURIComponent(since)}` : '/companies',
+                {},
+                companiesResponseSchema
+            );
+            // A server without delta support answers with the full array
+            const data = Array.isArray(response)
+                ? response
+                : mergeDelta(cached?.data ?? [], response.companies, response.deleted, company => company.companyYearId);
+            if (!Array.isArray(response)) {
+                console.log(`🔁 Delta sync: ${response.companies.length} companies changed, ${response.deleted.length} deleted`);
+            }
             data.sort((a, b) => (b.year - a.year) || a.companyName.localeCompare(b.companyName));
 
             const cacheEntry = {
@@ -153,139 +281,167 @@ export function DataCacheProvider({ children }: { children: ReactNode }) {
                 timestamp: Date.now(),
             };
             setCompaniesCache(cacheEntry);
-            saveToStorage('cache_companies', cacheEntry);
+            saveToStorage(ENTITY_STORAGE_KEYS.companies, cacheEntry);
 
-            console.log(`✅ Cached ${data.length} companies to memory + localStorage`);
+            console.log(`✅ Cached ${data.length} companies to memory + storage`);
             return data;
         } catch (error) {
             console.error('❌ Error fetching companies:', error);
             // Return cached data if available, even if expired
-            if (companiesCache) {
+            if (cached) {
                 console.log('⚠️ Using expired cache due to error');
-                return companiesCache.data;
+                return cached.data;
             }
             throw error;
         } finally {
             setCompaniesLoading(false);
         }
-    }, [companiesCache]);
+    }, [companiesCache, revalidateInBackground, storedEntry]);
 
-    // Fetch Students (cache-first, permanent) - SHARED with Students page!
+    // Fetch Students (stale-while-revalidate) - SHARED with Students page!
     const fetchStudents = useCallback(async (force = false): Promise<Student[]> => {
+        const cached = studentsCache ?? await storedEntry<Student[]>(ENTITY_STORAGE_KEYS.students);
         // ✅ Return cached data if exists (unless forced refresh)
-        if (!force && studentsCache?.data) {
-            console.log(`✅ [CACHE HIT] Using cached ${studentsCache.data.length} students from localStorage - NO API CALL!`);
-            return studentsCache.data;
+        if (!force && cached?.data) {
+            console.log(`✅ [CACHE HIT] Using cached ${cached.data.length} students from storage - NO API CALL!`);
+            if (isCacheStale('students', cached)) {
+                revalidateInBackground('students', () => fetchStudents(true));
+            }
+            return cached.data;
         }
 
-        // Fetch ALL students from API
-        console.log('📡 [API CALL] Fetching ALL students from /api/students...');
+        // Fetch ALL students from API, or only the changes when a cached copy exists
+        const since = deltaSyncCursor(cached);
+        console.log(since
+            ? `🔁 [API CALL] Syncing students changed since ${since}...`
+            : '📡 [API CALL] Fetching ALL students from /api/students...');
         setStudentsLoading(true);
         try {
-            // Fetch all students (no limit - backend returns everything)
-            const response = await api.request<{ students: Student[] }>('/students');
-            const students = response.students || [];
+            const response = await api.request<StudentsResponse>(
+                since ? `/students?since=${encodeURIComponent(since)}` : '/students',
+                {},
+                studentsResponseSchema
+            );
+            // Without `deleted` the server ignored `since` and sent everything
+            const students = since && response.deleted
+                ? mergeDelta(cached?.data ?? [], response.students || [], response.deleted, student => student.studentId)
+                : response.students || [];
+            if (since && response.deleted) {
+                console.log(`🔁 Delta sync: ${response.students?.length ?? 0} students changed, ${response.deleted.length} deleted`);
+            }
 
             const cacheEntry = {
                 data: students,
                 timestamp: Date.now(),
             };
             setStudentsCache(cacheEntry);
-            saveToStorage('cache_all_students', cacheEntry);  // ✅ Shared cache key!
+            saveToStorage(ENTITY_STORAGE_KEYS.students, cacheEntry);  // ✅ Shared cache key!
 
-            console.log(`✅ [CACHED] ${students.length} students saved to localStorage`);
+            console.log(`✅ [CACHED] ${students.length} students saved to storage`);
             console.log(`💡 Next time = instant load, NO API call!`);
             return students;
         } catch (error) {
             console.error('❌ Error fetching students:', error);
-            if (studentsCache) {
+            if (cached) {
                 console.log('⚠️ Using expired cache due to error');
-                return studentsCache.data;
+                return cached.data;
             }
             throw error;
         } finally {
             setStudentsLoading(false);
         }
-    }, [studentsCache]);
+    }, [studentsCache, revalidateInBackground, storedEntry]);
 
-    // Fetch Students Stats (cache-first, permanent)
+    // Fetch Students Stats (stale-while-revalidate)
     const fetchStudentsStats = useCallback(async (force = false): Promise<StudentStats> => {
+        const cached = statsCache ?? await storedEntry<StudentStats>(ENTITY_STORAGE_KEYS.stats);
         // ✅ Return cached data if exists (unless forced refresh)
-        if (!force && statsCache?.data) {
-            console.log('✅ Using cached stats from localStorage/memory');
-            return statsCache.data;
+        if (!force && cached?.data) {
+            console.log('✅ Using cached stats from storage/memory');
+            if (isCacheStale('stats', cached)) {
+                revalidateInBackground('stats', () => fetchStudentsStats(true));
+            }
+            return cached.data;
         }
 
         // Fetch from API
         console.log('🔄 Fetching students stats from API...');
         setStatsLoading(true);
         try {
-            const data = await api.request<StudentStats>('/students/stats');
+            const data = await api.request<StudentStats>('/students/stats', {}, studentStatsSchema);
 
             const cacheEntry = {
                 data,
                 timestamp: Date.now(),
             };
             setStatsCache(cacheEntry);
-            saveToStorage('cache_stats', cacheEntry);
+            saveToStorage(ENTITY_STORAGE_KEYS.stats, cacheEntry);
 
-            console.log(`✅ Cached student stats to memory + localStorage`);
+            console.log(`✅ Cached student stats to memory + storage`);
             return data;
         } catch (error) {
             console.error('❌ Error fetching students stats:', error);
             // Return cached data if available, even if expired
-            if (statsCache) {
+            if (cached) {
                 console.log('⚠️ Using expired cache due to error');
-                return statsCache.data;
+                return cached.data;
             }
             throw error;
         } finally {
             setStatsLoading(false);
         }
-    }, [statsCache]);
+    }, [statsCache, revalidateInBackground, storedEntry]);
 
-    // Fetch Dashboard Summary (cache-first, permanent)
+    // Fetch Dashboard Summary (stale-while-revalidate)
     const fetchDashboardSummary = useCallback(async (force = false): Promise<DashboardSummary> => {
+        const cached = dashboardCache ?? await storedEntry<DashboardSummary>(ENTITY_STORAGE_KEYS.dashboard);
         // ✅ Return cached data if exists (unless forced refresh)
-        if (!force && dashboardCache?.data) {
-            console.log('✅ Using cached dashboard from localStorage/memory (includes companyWise)');
-            return dashboardCache.data;
+        if (!force && cached?.data) {
+            console.log('✅ Using cached dashboard from storage/memory (includes companyWise)');
+            if (isCacheStale('dashboard', cached)) {
+                revalidateInBackground('dashboard', () => fetchDashboardSummary(true));
+            }
+            return cached.data;
         }
 
         // Fetch from API
         console.log('🔄 Fetching dashboard summary from API...');
         setDashboardLoading(true);
         try {
-            const data = await api.request<DashboardSummary>('/summary/dashboard');
+            const data = await api.request<DashboardSummary>('/summary/dashboard', {}, dashboardSummarySchema);
 
             const cacheEntry = {
                 data,
                 timestamp: Date.now(),
             };
             setDashboardCache(cacheEntry);
-            saveToStorage('cache_dashboard', cacheEntry);
+            saveToStorage(ENTITY_STORAGE_KEYS.dashboard, cacheEntry);
 
-            console.log(`✅ Cached dashboard summary (including latest year companyWise) to memory + localStorage`);
+            console.log(`✅ Cached dashboard summary (including latest year companyWise) to memory + storage`);
             return data;
         } catch (error) {
             console.error('❌ Error fetching dashboard summary:', error);
             // Return cached data if available, even if expired
-            if (dashboardCache) {
+            if (cached) {
                 console.log('⚠️ Using expired cache due to error');
-                return dashboardCache.data;
+                return cached.data;
             }
             throw error;
         } finally {
             setDashboardLoading(false);
         }
-    }, [dashboardCache]);
+    }, [dashboardCache, revalidateInBackground, storedEntry]);
 
-    // Fetch Rounds for Company (cache-first, permanent, per-company)
+    // Fetch Rounds for Company (stale-while-revalidate, per-company)
     const fetchRoundsForCompany = useCallback(async (companyYearId: string, force = false): Promise<Round[]> => {
+        const cached = roundsCache[companyYearId] ?? await storedEntry<Round[]>(roundsKey(companyYearId));
         // ✅ Return cached data if exists (unless forced refresh)
-        if (!force && roundsCache[companyYearId]?.data) {
-            console.log(`✅ Using cached rounds for company ${companyYearId} from localStorage/memory`);
-            return roundsCache[companyYearId].data;
+        if (!force && cached?.data) {
+            console.log(`✅ Using cached rounds for company ${companyYearId} from storage/memory`);
+            if (isCacheStale('rounds', cached)) {
+                revalidateInBackground(`rounds:${companyYearId}`, () => fetchRoundsForCompany(companyYearId, true));
+            }
+            return cached.data;
         }
 
         // Fetch from API
@@ -293,36 +449,37 @@ export function DataCacheProvider({ children }: { children: ReactNode }) {
         setRoundsLoading(prev => ({ ...prev, [companyYearId]: true }));
 
         try {
-            const rounds = await api.request<Round[]>(`/companies/${companyYearId}/rounds`);
+            const rounds = await api.request<Round[]>(`/companies/${companyYearId}/rounds`, {}, roundsResponseSchema);
             console.log(`✅ Fetched ${rounds.length} rounds for company ${companyYearId}`);
 
-            // Save to cache (both memory and localStorage)
+            // Save to cache (both memory and storage)
             const newEntry: CacheEntry<Round[]> = {
                 data: rounds,
                 timestamp: Date.now()
             };
 
-            // Update rounds cache with this company's data
-            const updatedRoundsCache = {
-                ...roundsCache,
+            // Update rounds cache with this company's data (functional update -
+            // background revalidations for several companies can land together)
+            setRoundsCache(prev => ({
+                ...prev,
                 [companyYearId]: newEntry
-            };
-            setRoundsCache(updatedRoundsCache);
+            }));
 
-            // Save all rounds to localStorage
-            saveToStorage('cache_rounds', {
-                data: updatedRoundsCache,
-                timestamp: Date.now()
-            });
+            // Each company's rounds are their own storage record
+            saveToStorage(roundsKey(companyYearId), newEntry);
 
             return rounds;
         } catch (error) {
             console.error(`Error fetching rounds for company ${companyYearId}:`, error);
+            if (cached) {
+                console.log('⚠️ Using expired cache due to error');
+                return cached.data;
+            }
             throw error;
         } finally {
             setRoundsLoading(prev => ({ ...prev, [companyYearId]: false }));
         }
-    }, [roundsCache]);
+    }, [roundsCache, revalidateInBackground, storedEntry]);
 
     // Refresh all cached data
     const refreshAll = useCallback(async () => {
@@ -339,34 +496,294 @@ export function DataCacheProvider({ children }: { children: ReactNode }) {
 
     // Clear all caches
     const clearCache = useCallback(() => {
-        setYearsCache(null);
-        setCompaniesCache(null);
-        setStudentsCache(null);
-        setStatsCache(null);
-        setDashboardCache(null);
-        setRoundsCache({});  // Clear all rounds
+        resetMemory();
+        cacheStorage.clear().catch(error => console.warn('Failed to clear cache storage:', error));
+        postTabMessage({ type: 'cache-cleared' });
+
+        console.log('🗑️ All caches cleared from memory and storage (including rounds)');
+    }, [resetMemory]);
+
+    // Mark entries out of date; pages showing them refetch on their next read
+    const invalidateCache = useCallback((entities: Exclude<CacheEntity, 'rounds'>[], roundsFor: string[] = []) => {
+        const keys = [...entities.map(entity => ENTITY_STORAGE_KEYS[entity]), ...roundsFor.map(roundsKey)];
+        const current: Record<string, CacheEntry<unknown> | null> = {
+            [ENTITY_STORAGE_KEYS.years]: yearsCache,
+            [ENTITY_STORAGE_KEYS.companies]: companiesCache,
+            [ENTITY_STORAGE_KEYS.students]: studentsCache,
+            [ENTITY_STORAGE_KEYS.stats]: statsCache,
+            [ENTITY_STORAGE_KEYS.dashboard]: dashboardCache,
+            ...Object.fromEntries(Object.entries(roundsCache).map(([id, entry]) => [roundsKey(id), entry])),
+        };
+
+        keys.forEach(key => {
+            const entry = current[key];
+            if (!entry) return;
+            updateEntry(key, prev => (prev ? { ...prev, invalidated: true } : prev));
+            cacheStorage.save(key, { ...entry, invalidated: true }).catch(error => {
+                console.warn(`Failed to save ${key} to cache storage:`, error);
+            });
+        });
+        lastRevalidationRef.current.clear();
+        postTabMessage({ type: 'cache-invalidated', keys });
+        console.log(`♻️ Invalidated cache: ${keys.join(', ')}`);
+    }, [yearsCache, companiesCache, studentsCache, statsCache, dashboardCache, roundsCache, updateEntry]);
+
+    // Latest entries for work that outlives a render (uploads and deletes await the network)
+    const latestRef = useRef({ companiesCache, studentsCache, roundsCache, yearsCache });
+    useEffect(() => {
+        latestRef.current = { companiesCache, studentsCache, roundsCache, yearsCache };
+    });
+
+    // Replace (or with null, drop) one entry in memory, storage and other tabs
+    const commitEntry = useCallback((key: string, entry: CacheEntry<unknown> | null) => {
+        updateEntry(key, () => entry);
+        if (entry) {
+            saveToStorage(key, entry);
+        } else {
+            cacheStorage.remove(key).catch(error => console.warn(`Failed to remove ${key} from cache storage:`, error));
+            postTabMessage({ type: 'cache-updated', key, entry: null });
+        }
+    }, [updateEntry]);
+
+    // Patch or refetch only the company, rounds and students a write touched.
+    // Year analytics are refetched (they are small and derived from everything);
+    // stats and dashboard are only invalidated and reload when next shown.
+    const applyMutation = useCallback(async (mutation: CacheMutation) => {
+        const { companiesCache, studentsCache, roundsCache, yearsCache } = latestRef.current;
+        const tasks: Promise<unknown>[] = [];
+        let companyIds: string[] = [];   // Refetched along with their cached rounds
+        let studentsTouched = false;
+        let yearsTouched = true;
+
+        const refetchCompany = async (companyYearId: string) => {
+            const company = await api.request<Company>(`/companies/${companyYearId}`, {}, companySchema);
+            const current = latestRef.current.companiesCache;
+            if (current) {
+                commitEntry(ENTITY_STORAGE_KEYS.companies, { ...current, data: upsertCompany(current.data, company) });
+            }
+        };
 
-        localStorage.removeItem('cache_years');
-        localStorage.removeItem('cache_companies');
-        localStorage.removeItem('cache_all_students');
-        localStorage.removeItem('cache_students');  // Legacy key
-        localStorage.removeItem('cache_stats');
-        localStorage.removeItem('cache_dashboard');
-        localStorage.removeItem('cache_rounds');  // Remove all rounds
+        if (mutation.type === 'company-deleted') {
+            const { companyYearId, companyName, result } = mutation;
+            console.log(`🎯 Patching cache after deleting ${companyName}`);
 
-        console.log('🗑️ All caches cleared from memory and localStorage (including rounds)');
-    }, []);
+            if (companiesCache) {
+                commitEntry(ENTITY_STORAGE_KEYS.companies, {
+                    ...companiesCache,
+                    data: companiesCache.data.filter(company => company.companyYearId !== companyYearId),
+                });
+            }
+            commitEntry(roundsKey(companyYearId), null);
+
+            // The delete service only reports a count - trust the local patch when it matches
+            if (studentsCache && result.deleted.students_updated > 0) {
+                const { students, touched } = removeCompanyFromStudents(studentsCache.data, companyYearId, companyName);
+                if (touched === result.deleted.students_updated) {
+                    commitEntry(ENTITY_STORAGE_KEYS.students, { ...studentsCache, data: students });
+                } else {
+                    console.log(`⚠️ Patched ${touched} students but the server updated ${result.deleted.students_updated} - refetching`);
+                    tasks.push(fetchStudents(true));
+                }
+            }
+        } else if (mutation.type === 'student-created' || mutation.type === 'student-deleted') {
+            const { student } = mutation;
+            if (studentsCache) {
+                const others = studentsCache.data.filter(s => s.studentId !== student.studentId);
+                commitEntry(ENTITY_STORAGE_KEYS.students, {
+                    ...studentsCache,
+                    data: mutation.type === 'student-created' ? [...others, student] : others,
+                });
+            }
+
+            // Deleting a student also rewrites the companies and rounds they took part in
+            yearsTouched = mutation.type === 'student-deleted' && mutation.result.cascadingUpdates.companiesAffected > 0;
+            if (yearsTouched) {
+                companyIds = Object.keys(student.companyStatus ?? {});
+            }
+        } else {
+            const changes = mutation.type === 'round-deleted'
+                ? [{ companyYearId: mutation.companyYearId, students: mutation.result.deleted.students_updated }]
+                : mutation.results
+                    .filter(result => result.success && result.data)
+                    .map(result => ({ companyYearId: result.data!.companyYearId, students: result.data!.totalStudents }));
+            companyIds = [...new Set(changes.map(change => change.companyYearId))];
+            studentsTouched = changes.some(change => change.students > 0);
+            if (studentsCache && studentsTouched) {
+                // No per-student endpoint - one list refetch covers every touched student
+                tasks.push(fetchStudents(true));
+            }
+        }
+
+        if (companyIds.length > 0) {
+            console.log(`🎯 Refetching ${companyIds.length} changed compan${companyIds.length === 1 ? 'y' : 'ies'}`);
+        }
+        companyIds.forEach(companyYearId => {
+            tasks.push(refetchCompany(companyYearId));
+            if (roundsCache[companyYearId]) {
+                tasks.push(fetchRoundsForCompany(companyYearId, true));
+            }
+        });
+
+        if (yearsCache && yearsTouched) {
+            tasks.push(fetchYears(true));
+        }
+        invalidateCache(['stats', 'dashboard']);
+
+        const results = await Promise.allSettled(tasks);
+        const failed = results.filter(result => result.status === 'rejected').length;
+        if (failed > 0) {
+            // Fall back to the TTL path for whatever could not be refetched
+            console.warn(`⚠️ ${failed} targeted refetches failed - invalidating instead`);
+            invalidateCache(['companies', 'years', ...(studentsTouched ? ['students' as const] : [])]);
+        }
+    }, [commitEntry, invalidateCache, fetchStudents, fetchRoundsForCompany, fetchYears]);
+
+    // Create a student; a pending row is shown until the server answers
+    const createStudent = useCallback(async (payload: CreateStudentPayload): Promise<Student> => {
+        const pending = buildPendingStudent(payload);
+        setPendingStudents(prev => ({ ...prev, added: [...prev.added, pending] }));
+        try {
+            const result = await api.createStudent(payload);
+            const student = { ...pending, studentId: result.studentId };
+            await applyMutation({ type: 'student-created', student });
+            return student;
+        } finally {
+            // Same render as the committed entry on success, a rollback on failure
+            setPendingStudents(prev => ({ ...prev, added: prev.added.filter(s => s.studentId !== pending.studentId) }));
+        }
+    }, [applyMutation]);
+
+    // Delete a student; the row is hidden until the server answers
+    const deleteStudent = useCallback(async (student: Student): Promise<DeleteStudentResponse> => {
+        setPendingStudents(prev => ({ ...prev, removedIds: [...prev.removedIds, student.studentId] }));
+        try {
+            const result = await api.deleteStudent(student.studentId);
+            await applyMutation({ type: 'student-deleted', student, result });
+            return result;
+        } finally {
+            setPendingStudents(prev => ({ ...prev, removedIds: prev.removedIds.filter(id => id !== student.studentId) }));
+        }
+    }, [applyMutation]);
+
+    // ==================== Maintenance ====================
+
+    const cacheEntries = useMemo<CacheEntrySummary[]>(() => {
+        const companyNames = new Map((companiesCache?.data ?? []).map(company => [company.companyYearId, `${company.companyName} ${company.year}`]));
+        const summarize = (key: string, label: string, entry: CacheEntry<unknown> | null): CacheEntrySummary[] => (entry ? [{
+            key,
+            label,
+            records: Array.isArray(entry.data) ? entry.data.length : 1,
+            timestamp: entry.timestamp,
+            invalidated: !!entry.invalidated,
+        }] : []);
+
+        return [
+            ...summarize(ENTITY_STORAGE_KEYS.years, 'Year analytics', yearsCache),
+            ...summarize(ENTITY_STORAGE_KEYS.companies, 'Companies', companiesCache),
+            ...summarize(ENTITY_STORAGE_KEYS.students, 'Students', studentsCache),
+            ...summarize(ENTITY_STORAGE_KEYS.stats, 'Student stats', statsCache),
+            ...summarize(ENTITY_STORAGE_KEYS.dashboard, 'Dashboard summary', dashboardCache),
+            ...Object.entries(roundsCache).flatMap(([companyYearId, entry]) =>
+                summarize(roundsKey(companyYearId), `Rounds · ${companyNames.get(companyYearId) ?? companyYearId}`, entry)),
+        ];
+    }, [yearsCache, companiesCache, studentsCache, statsCache, dashboardCache, roundsCache]);
+
+    const refreshEntry = useCallback(async (key: string) => {
+        if (key.startsWith(ROUNDS_KEY_PREFIX)) {
+            await fetchRoundsForCompany(key.slice(ROUNDS_KEY_PREFIX.length), true);
+            return;
+        }
+        switch (key) {
+            case ENTITY_STORAGE_KEYS.years: await fetchYears(true); break;
+            case ENTITY_STORAGE_KEYS.companies: await fetchCompanies(true); break;
+            case ENTITY_STORAGE_KEYS.students: await fetchStudents(true); break;
+            case ENTITY_STORAGE_KEYS.stats: await fetchStudentsStats(true); break;
+            case ENTITY_STORAGE_KEYS.dashboard: await fetchDashboardSummary(true); break;
+        }
+    }, [fetchYears, fetchCompanies, fetchStudents, fetchStudentsStats, fetchDashboardSummary, fetchRoundsForCompany]);
+
+    // Dropped entries are fetched again by the next page that needs them
+    const evictEntry = useCallback((key: string) => {
+        commitEntry(key, null);
+        console.log(`🗑️ Evicted ${key} from the cache`);
+    }, [commitEntry]);
+
+    const exportSnapshot = useCallback(async () => buildCacheSnapshot(await cacheStorage.loadAll()), []);
+
+    const importSnapshot = useCallback(async (snapshot: CacheSnapshot) => {
+        await cacheStorage.clear();
+        resetMemory();
+        postTabMessage({ type: 'cache-cleared' });
+        Object.entries(snapshot.entries).forEach(([key, entry]) => commitEntry(key, entry));
+        lastRevalidationRef.current.clear();
+        console.log(`📥 Imported ${Object.keys(snapshot.entries).length} cache entries from a snapshot`);
+    }, [resetMemory, commitEntry]);
+
+    const students = useMemo(() => {
+        if (!studentsCache) return null;
+        const removed = new Set(pendingStudents.removedIds);
+        return [...studentsCache.data.filter(student => !removed.has(student.studentId)), ...pendingStudents.added];
+    }, [studentsCache, pendingStudents]);
+
+    // Apply what other tabs did to their cache (they already wrote the shared storage)
+    useEffect(() => subscribeTabMessages(message => {
+        switch (message.type) {
+            case 'cache-updated': {
+                // The other tab may run an older or newer build - check its entry like one read from storage
+                const entity = entityForStorageKey(message.key);
+                const entry = entity ? upgradeCacheEntry(entity, message.entry) : null;
+                if (entry) updateEntry(message.key, () => entry);
+                break;
+            }
+            case 'cache-invalidated':
+                message.keys.forEach(key => updateEntry(key, prev => (prev ? { ...prev, invalidated: true } : prev)));
+                lastRevalidationRef.current.clear();
+                break;
+            case 'cache-cleared':
+                resetMemory();
+                break;
+        }
+    }), [updateEntry, resetMemory]);
+
+    // Logout, idle timeout or another user logging in - drop the previous user's data
+    // from memory in this tab too (storage is cleared by AuthContext). Tab messages
+    // cannot do this: the tab that logged out never receives its own broadcast.
+    const { user } = useAuth();
+    const userId = user?.id ?? null;
+    const lastUserIdRef = useRef<string | null>(null);
+    useEffect(() => {
+        const previous = lastUserIdRef.current;
+        lastUserIdRef.current = userId;
+        if (!previous || previous === userId) return;
+
+        resetMemory();
+        setPendingStudents({ added: [], removedIds: [] });
+        lastRevalidationRef.current.clear();
+        console.log('🗑️ In-memory cache cleared for the user change');
+    }, [userId, resetMemory]);
 
     const value: DataCacheContextType = {
         // Cached data - expose only the data, not the cache entries
         years: yearsCache?.data ?? null,
         companies: companiesCache?.data ?? null,
-        students: studentsCache?.data ?? null,
+        students,
+        pendingStudentIds: pendingStudents.added.map(student => student.studentId),
         studentsStats: statsCache?.data ?? null,
         dashboardSummary: dashboardCache?.data ?? null,
         rounds: Object.fromEntries(
             Object.entries(roundsCache).map(([key, entry]) => [key, entry.data])
         ),  // Convert {companyId: CacheEntry} to {companyId: Round[]}
+        cacheTimestamps: {
+            years: yearsCache?.timestamp ?? null,
+            companies: companiesCache?.timestamp ?? null,
+            students: studentsCache?.timestamp ?? null,
+            stats: statsCache?.timestamp ?? null,
+            dashboard: dashboardCache?.timestamp ?? null,
+            rounds: Object.fromEntries(
+                Object.entries(roundsCache).map(([key, entry]) => [key, entry.timestamp])
+            ),
+        },
+        revalidating,
 
         // Fetch functions
         fetchYears,
@@ -387,6 +804,20 @@ export function DataCacheProvider({ children }: { children: ReactNode }) {
         // Cache management
         refreshAll,
         clearCache,
+        invalidateCache,
+        applyMutation,
+        getStorageUsage: cacheStorage.usage,
+
+        // Maintenance
+        cacheEntries,
+        refreshEntry,
+        evictEntry,
+        exportSnapshot,
+        importSnapshot,
+
+        // Optimistic writes
+        createStudent,
+        deleteStudent,
     };
 
     return (
@@ -0,0 +1,226 @@
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { isApiError, getErrorMessage, NetworkError } from '../lib/apiError';
+import { findReplayConflict, offlineQueueStorage } from '../lib/offlineQueue';
+import { postTabMessage, subscribeTabMessages } from '../lib/tabSync';
+import { OfflineMutation, QueuedMutation } from '../types/offline';
+import { useAuth } from './AuthContext';
+import { useToast } from './ToastContext';
+import { useDataCache } from './DataCacheContext';
+import { useUploadQueue } from './UploadQueueContext';
+
+type ReplayOutcome = 'sent' | 'conflict' | 'failed' | 'offline';
+
+interface OfflineQueueContextType {
+    isOnline: boolean;
+    items: QueuedMutation[];
+    queueMutation: (mutation: OfflineMutation) => void;
+    replay: (id: string, options?: { force?: boolean }) => Promise<void>;   // force = send despite a conflict
+    replayAll: () => Promise<void>;    // Every pending or failed item, oldest first
+    discard: (id: string) => void;
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined);
+
+/**
+ * Offline Queue Provider
+ *
+ * Holds the writes made while offline (lib/offlineQueue) and replays them on
+ * request: students through DataCacheContext's optimistic writes, round
+ * uploads by handing them to the upload queue. Nothing is replayed
+ * automatically - the user reviews conflicts first on the Offline Changes page.
+ */
+export function OfflineQueueProvider({ children }: { children: ReactNode }) {
+    const { user } = useAuth();
+    const { showToast } = useToast();
+    const { fetchStudents, fetchCompanies, fetchRoundsForCompany, createStudent, deleteStudent } = useDataCache();
+    const { enqueueUpload } = useUploadQueue();
+    const [items, setItems] = useState<QueuedMutation[]>([]);
+    const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+    const itemsRef = useRef(items);
+    const lastCreatedAtRef = useRef(0);
+
+    useEffect(() => {
+        itemsRef.current = items;
+    }, [items]);
+
+    // Queued items belong to the user who made them (see offlineQueueStorage.loadForUser)
+    const username = user?.username ?? null;
+    const usernameRef = useRef(username);
+    useEffect(() => {
+        usernameRef.current = username;
+    }, [username]);
+
+    const reload = useCallback(() => {
+        const owner = usernameRef.current;
+        if (!owner) {
+            setItems([]);
+            return;
+        }
+        offlineQueueStorage.loadForUser(owner)
+            .then(loaded => {
+                if (usernameRef.current === owner) setItems(loaded);
+            })
+            .catch(error => console.warn('Failed to load offline queue:', error));
+    }, []);
+
+    useEffect(() => subscribeTabMessages(message => {
+        if (message.type === 'offline-queue-changed') reload();
+    }), [reload]);
+
+    // Follow the logged-in user, so the previous user's writes are never shown or
+    // replayed in this tab. A logout message never reaches the tab that sent it.
+    useEffect(() => {
+        setItems([]);
+        reload();
+    }, [username, reload]);
+
+    // Write one item (null removes it) to memory, storage and other tabs
+    const commit = useCallback((id: string, item: QueuedMutation | null) => {
+        setItems(prev => (item
+            ? (prev.some(existing => existing.id === id) ? prev.map(existing => (existing.id === id ? item : existing)) : [...prev, item])
+            : prev.filter(existing => existing.id !== id)));
+        (item ? offlineQueueStorage.save(item) : offlineQueueStorage.remove(id))
+            .then(() => postTabMessage({ type: 'offline-queue-changed' }))
+            .catch(error => console.warn('Failed to save offline queue:', error));
+    }, []);
+
+    const queueMutation = useCallback((mutation: OfflineMutation) => {
+        // Strictly increasing, so a batch queued in one go replays in its own order
+        const createdAt = Math.max(Date.now(), lastCreatedAtRef.current + 1);
+        lastCreatedAtRef.current = createdAt;
+        const id = `offline-${createdAt}-${Math.random().toString(36).slice(2, 8)}`;
+        commit(id, { id, mutation, status: 'pending', error: null, createdAt, owner: usernameRef.current ?? undefined });
+        console.log(`📴 Queued ${mutation.kind} until the connection is back`);
+    }, [commit]);
+
+    // Compare with fresh server data, then send
+    const replayItem = useCallback(async (item: QueuedMutation, force: boolean): Promise<ReplayOutcome> => {
+        const { mutation } = item;
+        commit(item.id, { ...item, status: 'replaying', error: null });
+
+        try {
+            if (!force) {
+                let conflict: string | null = null;
+                if (mutation.kind === 'upload-round') {
+                    const companies = await fetchCompanies(true);
+                    const target = companies.find(company => company.year === mutation.input.year
+                        && company.companyName.trim().toLowerCase() === mutation.input.companyName.trim().toLowerCase());
+                    const rounds = target ? await fetchRoundsForCompany(target.companyYearId, true) : undefined;
+                    conflict = findReplayConflict(mutation, { rounds });
+                } else {
+                    conflict = findReplayConflict(mutation, { students: await fetchStudents(true) });
+                }
+                if (conflict) {
+                    commit(item.id, { ...item, status: 'conflict', error: conflict });
+                    return 'conflict';
+                }
+            }
+
+            switch (mutation.kind) {
+                case 'create-student':
+                    await createStudent(mutation.payload);
+                    break;
+                case 'delete-student':
+                    await deleteStudent(mutation.student);
+                    break;
+                case 'upload-round':
+                    // The upload queue shows progress and handles retries from here
+                    enqueueUpload(mutation.input);
+                    break;
+            }
+            commit(item.id, null);
+            return 'sent';
+        } catch (error: unknown) {
+            const message = getErrorMessage(error, 'Replay failed');
+            if (error instanceof NetworkError) {
+                commit(item.id, { ...item, status: 'pending', error: message });
+                return 'offline';
+            }
+            const isConflict = isApiError(error) && (error.code === 'CONFLICT' || error.code === 'NOT_FOUND');
+            commit(item.id, { ...item, status: isConflict ? 'conflict' : 'failed', error: message });
+            return isConflict ? 'conflict' : 'failed';
+        }
+    }, [commit, fetchStudents, fetchCompanies, fetchRoundsForCompany, createStudent, deleteStudent, enqueueUpload]);
+
+    const replay = useCallback(async (id: string, options: { force?: boolean } = {}) => {
+        const item = itemsRef.current.find(existing => existing.id === id);
+        if (!item || item.status === 'replaying') return;
+
+        const outcome = await replayItem(item, !!options.force);
+        if (outcome === 'sent') {
+            showToast({
+                type: 'success',
+                title: 'Change Sent',
+                message: item.mutation.kind === 'upload-round' ? 'The upload was added to the upload queue.' : 'The offline change was sent to the server.'
+            });
+        } else if (outcome === 'offline') {
+            showToast({ type: 'error', title: 'Still Offline', message: 'The change stays queued until the server can be reached.' });
+        }
+    }, [replayItem, showToast]);
+
+    const replayAll = useCallback(async () => {
+        const queued = itemsRef.current.filter(item => item.status === 'pending' || item.status === 'failed');
+        if (queued.length === 0) return;
+
+        const outcomes: ReplayOutcome[] = [];
+        for (const item of queued) {
+            const outcome = await replayItem(item, false);
+            outcomes.push(outcome);
+            if (outcome === 'offline') break;   // No point trying the rest
+        }
+
+        const sent = outcomes.filter(outcome => outcome === 'sent').length;
+        const conflicts = outcomes.filter(outcome => outcome === 'conflict').length;
+        const left = queued.length - sent;
+        showToast({
+            type: left === 0 ? 'success' : 'error',
+            title: left === 0 ? 'Offline Changes Sent' : 'Some Changes Need Attention',
+            message: `${sent} of ${queued.length} sent${conflicts > 0 ? ` · ${conflicts} conflict${conflicts === 1 ? '' : 's'} to review` : ''}`
+        });
+    }, [replayItem, showToast]);
+
+    const discard = useCallback((id: string) => {
+        const item = itemsRef.current.find(existing => existing.id === id);
+        if (!item || item.status === 'replaying') return;
+        commit(id, null);
+    }, [commit]);
+
+    // Track connectivity; when it returns, offer to send what was queued
+    useEffect(() => {
+        const handleOnline = () => {
+            setIsOnline(true);
+            const waiting = itemsRef.current.filter(item => item.status === 'pending').length;
+            if (waiting === 0) return;
+            showToast({
+                type: 'success',
+                title: 'Back Online',
+                message: `${waiting} offline change${waiting === 1 ? ' is' : 's are'} waiting to be sent.`,
+                duration: 10000,
+                action: { label: 'Send now', onClick: () => replayAll() }
+            });
+        };
+        const handleOffline = () => setIsOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [showToast, replayAll]);
+
+    return (
+        <OfflineQueueContext.Provider value={{ isOnline, items, queueMutation, replay, replayAll, discard }}>
+            {children}
+        </OfflineQueueContext.Provider>
+    );
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function useOfflineQueue() {
+    const context = useContext(OfflineQueueContext);
+    if (!context) {
+        throw new Error('useOfflineQueue must be used within OfflineQueueProvider');
+    }
+    return context;
+}
@@ -0,0 +1,246 @@
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { api } from '../lib/api';
+import { getErrorMessage } from '../lib/apiError';
+import { describeUploadRound } from '../lib/uploadUtils';
+import { UploadJob, UploadJobInput } from '../types/upload';
+import { Toast } from '../types/toast';
+import { useToast } from './ToastContext';
+import { useDataCache } from './DataCacheContext';
+
+interface UploadQueueContextType {
+    jobs: UploadJob[];
+    enqueueUpload: (input: UploadJobInput) => string;
+    enqueueBatch: (inputs: UploadJobInput[]) => string;   // Returns the batch id
+    cancelUpload: (id: string) => void;
+    retryUpload: (id: string) => void;    // Re-send with the same file and fields
+    removeUpload: (id: string) => void;
+    clearFinished: () => void;
+}
+
+const UploadQueueContext = createContext<UploadQueueContextType | undefined>(undefined);
+
+const FINISHED_STATUSES: UploadJob['status'][] = ['success', 'error', 'cancelled'];
+
+/**
+ * Upload Queue Provider
+ *
+ * Round uploads run here instead of inside UploadData, one at a time in the
+ * order they were queued, so they keep going (and stay cancellable) while
+ * the user navigates. Jobs live in memory: File objects cannot be written
+ * to localStorage, so the queue is cleared by a full page reload.
+ * Batches report through a single toast and refresh the cache once at the end.
+ */
+export function UploadQueueProvider({ children }: { children: ReactNode }) {
+    const { showToast, updateToast } = useToast();
+    const { applyMutation } = useDataCache();
+    const [jobs, setJobs] = useState<UploadJob[]>([]);
+    const [activeJobId, setActiveJobId] = useState<string | null>(null);
+    const controllersRef = useRef(new Map<string, AbortController>());
+    const batchToastsRef = useRef(new Map<string, string>());
+    const refreshedRef = useRef(new Set<string>());   // `${jobId}:${attempt}` already refreshed for
+
+    const patchJob = (id: string, updates: Partial<UploadJob>) => {
+        setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...updates } : job)));
+    };
+
+    const runJob = useCallback(async (job: UploadJob) => {
+        const inBatch = !!job.batchId;
+        const controller = new AbortController();
+        controllersRef.current.set(job.id, controller);
+        setActiveJobId(job.id);
+
+        patchJob(job.id, {
+            status: 'uploading',
+            loaded: 0,
+            total: job.file.size,
+            attempts: job.attempts + 1,
+            response: null,
+            error: null,
+        });
+
+        const toastId = inBatch ? null : showToast({
+            type: 'loading',
+            title: 'Uploading Round',
+            message: `${job.companyName} - ${describeUploadRound(job)}`
+        });
+        const notify = (updates: Partial<Toast>) => {
+            if (toastId) updateToast(toastId, updates);
+        };
+
+        try {
+            const data = await api.uploadExcelRound(
+                job.file,
+                job.companyName,
+                job.year,
+                job.roundNumber,
+                job.roundName,
+                job.isFinal,
+                {
+                    columnMapping: job.columnMapping,
+                    rawColumns: job.rawColumns,
+                    signal: controller.signal,
+                    onProgress: (loaded, total) => patchJob(job.id, {
+                        loaded,
+                        total,
+                        status: loaded >= total ? 'processing' : 'uploading',
+                    }),
+                }
+            );
+
+            if (data.success) {
+                patchJob(job.id, { status: 'success', response: data });
+                notify({
+                    type: 'success',
+                    title: 'Upload Complete ✓',
+                    message: `${job.companyName} - ${data.data?.matchedStudents} matched, ${data.data?.newStudents} new`
+                });
+
+                // Batches refresh once their last file is done (see below)
+                if (inBatch) return;
+
+                // ✅ TARGETED REFRESH: only the uploaded company, its rounds and students
+                await applyMutation({ type: 'rounds-uploaded', results: [data] });
+                console.log('✅ Cache updated with the uploaded round');
+            } else {
+                patchJob(job.id, { status: 'error', response: data, error: data.error || 'Unknown error occurred' });
+                notify({
+                    type: 'error',
+                    title: 'Upload Failed',
+                    message: data.error || 'Unknown error occurred'
+                });
+            }
+        } catch (error: unknown) {
+            if ((error as Error).name === 'AbortError') {
+                patchJob(job.id, { status: 'cancelled', error: null });
+                notify({
+                    type: 'error',
+                    title: 'Upload Cancelled',
+                    message: `${job.companyName} - ${describeUploadRound(job)}`
+                });
+            } else {
+                const errorMessage = getErrorMessage(error, 'Failed to connect to upload service.');
+                patchJob(job.id, { status: 'error', error: errorMessage });
+                notify({
+                    type: 'error',
+                    title: 'Upload Failed',
+                    message: errorMessage
+                });
+            }
+        } finally {
+            controllersRef.current.delete(job.id);
+            setActiveJobId(null);
+        }
+    }, [showToast, updateToast, applyMutation]);
+
+    // Once every file of a batch has finished: one summary toast, one cache update
+    useEffect(() => {
+        const batchIds = new Set(jobs.map(job => job.batchId).filter((id): id is string => !!id));
+        batchIds.forEach(batchId => {
+            const batchJobs = jobs.filter(job => job.batchId === batchId);
+            if (batchJobs.some(job => !FINISHED_STATUSES.includes(job.status))) return;
+
+            const toastId = batchToastsRef.current.get(batchId);
+            const fresh = batchJobs.filter(job => job.status === 'success' && !refreshedRef.current.has(`${job.id}:${job.attempts}`));
+            if (!toastId && fresh.length === 0) return;
+            batchToastsRef.current.delete(batchId);
+            fresh.forEach(job => refreshedRef.current.add(`${job.id}:${job.attempts}`));
+
+            const succeeded = batchJobs.filter(job => job.status === 'success').length;
+            const summary = {
+                type: succeeded === batchJobs.length ? 'success' as const : 'error' as const,
+                title: succeeded === batchJobs.length ? 'Batch Upload Complete ✓' : 'Batch Upload Finished',
+                message: `${succeeded} of ${batchJobs.length} files uploaded`
+            };
+            if (toastId) {
+                updateToast(toastId, summary);
+            } else {
+                showToast(summary);
+            }
+
+            if (fresh.length > 0) {
+                applyMutation({ type: 'rounds-uploaded', results: fresh.map(job => job.response!) })
+                    .then(() => console.log('✅ Cache updated after batch upload'));
+            }
+        });
+    }, [jobs, showToast, updateToast, applyMutation]);
+
+    // Start the next queued job once nothing is in flight
+    useEffect(() => {
+        if (activeJobId) return;
+        const next = jobs.find(job => job.status === 'queued');
+        if (next) runJob(next);
+    }, [jobs, activeJobId, runJob]);
+
+    const createJob = (input: UploadJobInput, batchId: string | null): UploadJob => ({
+        ...input,
+        id: `upload-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        batchId,
+        status: 'queued',
+        loaded: 0,
+        total: input.file.size,
+        attempts: 0,
+        response: null,
+        error: null,
+        createdAt: Date.now(),
+    });
+
+    const enqueueUpload = (input: UploadJobInput): string => {
+        const job = createJob(input, null);
+        setJobs(prev => [...prev, job]);
+        return job.id;
+    };
+
+    const enqueueBatch = (inputs: UploadJobInput[]): string => {
+        const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const batchJobs = inputs.map(input => createJob(input, batchId));
+        setJobs(prev => [...prev, ...batchJobs]);
+        batchToastsRef.current.set(batchId, showToast({
+            type: 'loading',
+            title: 'Batch Upload',
+            message: `Uploading ${inputs.length} file${inputs.length === 1 ? '' : 's'} one after another`
+        }));
+        return batchId;
+    };
+
+    const cancelUpload = (id: string) => {
+        const controller = controllersRef.current.get(id);
+        if (controller) {
+            controller.abort();
+        } else {
+            // Not started yet - just take it out of the line
+            setJobs(prev => prev.map(job => (job.id === id && job.status === 'queued' ? { ...job, status: 'cancelled' } : job)));
+        }
+    };
+
+    const retryUpload = (id: string) => {
+        setJobs(prev => prev.map(job => (
+            job.id === id && FINISHED_STATUSES.includes(job.status)
+                ? { ...job, status: 'queued', loaded: 0, response: null, error: null }
+                : job
+        )));
+    };
+
+    const removeUpload = (id: string) => {
+        if (controllersRef.current.has(id)) return;  // Cancel first
+        setJobs(prev => prev.filter(job => job.id !== id));
+    };
+
+    const clearFinished = () => {
+        setJobs(prev => prev.filter(job => !FINISHED_STATUSES.includes(job.status)));
+    };
+
+    return (
+        <UploadQueueContext.Provider value={{ jobs, enqueueUpload, enqueueBatch, cancelUpload, retryUpload, removeUpload, clearFinished }}>
+            {children}
+        </UploadQueueContext.Provider>
+    );
+}
+
+// eslint-disable-next-line react-refresh/only-export-components
+export function useUploadQueue() {
+    const context = useContext(UploadQueueContext);
+    if (!context) {
+        throw new Error('useUploadQueue must be used within UploadQueueProvider');
+    }
+    return context;
+}
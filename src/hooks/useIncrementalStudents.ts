@@ -1,60 +1,52 @@
-import { useState, useEffect } from 'react';
-import { Student, StudentStats } from '../types';
+import { useState, useEffect, useMemo } from 'react';
+import { StudentStats } from '../types';
 import { useDataCache } from '../context/DataCacheContext';
 
 /**
  * Simplified Students Hook
  * 
- * Fetches ALL students once on mount and caches permanently
+ * Fetches ALL students once on mount; the shared cache revalidates them when stale
  * No pagination, no incremental loading
  * Uses shared cache with DataCacheContext (cache_all_students)
  */
 export function useIncrementalStudents(search: string, statusFilter: 'all' | 'placed' | 'not_placed') {
-    const { fetchStudents } = useDataCache();
-    const [allStudents, setAllStudents] = useState<Student[]>([]);
+    const { fetchStudents, students: cachedStudents } = useDataCache();
     const [loading, setLoading] = useState(true);
-    const [stats, setStats] = useState<StudentStats>({
-        total: 0,
-        placed: 0,
-        notPlaced: 0,
-        totalOffers: 0,
-        avgOffers: 0
-    });
 
-    // Fetch all students once on mount
+    // Fetch all students; fetchStudents changes with every cache write, and the re-runs
+    // are answered from the cache, so only the first load shows the spinner
     useEffect(() => {
         const loadStudents = async () => {
-            setLoading(true);
             try {
-                // Uses DataCacheContext - fetches all students and caches in localStorage
-                const students = await fetchStudents();
-                setAllStudents(students);
-
-                // Calculate stats
-                const placed = students.filter(s => s.currentStatus === 'placed').length;
-                const notPlaced = students.filter(s => s.currentStatus === 'not_placed').length;
-                const total = students.length;
-                const totalOffers = students.reduce((sum, s) => sum + (s.totalOffers || 0), 0);
-
-                setStats({
-                    total,
-                    placed,
-                    notPlaced,
-                    totalOffers,
-                    avgOffers: total > 0 ? parseFloat((totalOffers / total).toFixed(1)) : 0
-                });
-
-                console.log(`✅ Loaded ${students.length} students from cache/API`);
+                // Uses DataCacheContext - the list itself is read from cachedStudents below
+                await fetchStudents();
             } catch (error) {
                 console.error('❌ Error loading students:', error);
-                setAllStudents([]);
             } finally {
                 setLoading(false);
             }
         };
 
         loadStudents();
-    }, []); // ✅ Empty deps - fetchStudents is stable, only fetch once on mount
+    }, [fetchStudents]);
+
+    // Read from the shared cache so background revalidations show up here too
+    const allStudents = useMemo(() => cachedStudents ?? [], [cachedStudents]);
+
+    const stats = useMemo<StudentStats>(() => {
+        const placed = allStudents.filter(s => s.currentStatus === 'placed').length;
+        const notPlaced = allStudents.filter(s => s.currentStatus === 'not_placed').length;
+        const total = allStudents.length;
+        const totalOffers = allStudents.reduce((sum, s) => sum + (s.totalOffers || 0), 0);
+
+        return {
+            total,
+            placed,
+            notPlaced,
+            totalOffers,
+            avgOffers: total > 0 ? parseFloat((totalOffers / total).toFixed(1)) : 0
+        };
+    }, [allStudents]);
 
     // Filter students based on search and status
     const filteredStudents = allStudents.filter(student => {
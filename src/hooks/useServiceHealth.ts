@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { ServiceHealthCheck, ServiceName } from '../types';
+
+export const HEALTH_SERVICES: ServiceName[] = ['auth', 'excel', 'ai', 'delete'];
+
+const HISTORY_LIMIT = 20;
+const POLL_INTERVAL_MS = 60000;
+
+type HealthHistory = Record<ServiceName, ServiceHealthCheck[]>;
+
+const emptyHistory = (): HealthHistory => ({ auth: [], excel: [], ai: [], delete: [] });
+
+/**
+ * Service Health Hook
+ *
+ * Pings every backend service on mount and once a minute, keeping the
+ * last few results per service for the admin health panel
+ */
+export function useServiceHealth() {
+    const [history, setHistory] = useState<HealthHistory>(emptyHistory);
+    const [checking, setChecking] = useState<Set<ServiceName>>(new Set());
+
+    const record = (result: ServiceHealthCheck) => {
+        setHistory(prev => ({
+            ...prev,
+            [result.service]: [...prev[result.service], result].slice(-HISTORY_LIMIT),
+        }));
+    };
+
+    const setServiceChecking = (service: ServiceName, isChecking: boolean) => {
+        setChecking(prev => {
+            const next = new Set(prev);
+            if (isChecking) next.add(service);
+            else next.delete(service);
+            return next;
+        });
+    };
+
+    const checkService = useCallback(async (service: ServiceName) => {
+        setServiceChecking(service, true);
+        try {
+            record(await api.checkServiceHealth(service));
+        } finally {
+            setServiceChecking(service, false);
+        }
+    }, []);
+
+    const checkAll = useCallback(async () => {
+        await Promise.all(HEALTH_SERVICES.map(checkService));
+    }, [checkService]);
+
+    // Re-send the set-token cookie, then ping again to confirm it stuck
+    const resyncSession = useCallback(async (service: ServiceName) => {
+        setServiceChecking(service, true);
+        try {
+            await api.resyncServiceSession(service);
+        } finally {
+            setServiceChecking(service, false);
+        }
+        await checkService(service);
+    }, [checkService]);
+
+    useEffect(() => {
+        checkAll();
+        const interval = setInterval(checkAll, POLL_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [checkAll]);
+
+    return { history, checking, checkService, checkAll, resyncSession };
+}
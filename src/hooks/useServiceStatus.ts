@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getWakingServices, subscribeServiceStatus, ServiceWakeState } from '../lib/serviceStatus';
+
+/**
+ * Services Waking Hook
+ *
+ * Returns the backend services that are currently slow to answer or
+ * being retried after a cold start (see lib/serviceStatus)
+ */
+export function useWakingServices(): ServiceWakeState[] {
+    return useSyncExternalStore(subscribeServiceStatus, getWakingServices);
+}
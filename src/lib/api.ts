@@ -1,23 +1,243 @@
-// API Configuration - PRODUCTION
-import { User, DeleteCompanyResponse, DeleteRoundResponse, CreateStudentPayload, CreateStudentResponse, UploadResponse } from '../types';
-const API_BASE_URL = 'https://authentication-for-iare.onrender.com/api';
-const AI_API_URL = 'https://ai-to-db-iare.onrender.com';
-const EXCEL_API_URL = 'https://excel-to-db-iare.onrender.com';
-const DELETE_API_URL = 'https://excel-to-delete-iare.onrender.com';  // Delete microservice
+// API Configuration - PRODUCTION (each URL can be overridden with a VITE_* env var)
+import { User, Student, AuditEntry, DeleteCompanyResponse, DeleteRoundResponse, CreateStudentPayload, CreateStudentResponse, DeleteStudentResponse, UploadResponse, ServiceName, ServiceHealthCheck } from '../types';
+import { ApiError, NetworkError, ResponseShapeError, TimeoutError, isApiError, getErrorMessage } from './apiError';
+import { Schema, auditLogSchema, checkShape, loginResponseSchema, resetPasswordResponseSchema, studentSchema, uploadResponseSchema, userSchema, usersResponseSchema } from './responseSchemas';
+import { markServiceWaking } from './serviceStatus';
+import { notifySessionExpired } from './session';
+import { cacheStorage } from './cacheStorage';
+import { ColumnMapping } from '../types/upload';
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://authentication-for-iare.onrender.com/api';
+const AI_API_URL = import.meta.env.VITE_AI_API_URL || 'https://ai-to-db-iare.onrender.com';
+const EXCEL_API_URL = import.meta.env.VITE_EXCEL_API_URL || 'https://excel-to-db-iare.onrender.com';
+const DELETE_API_URL = import.meta.env.VITE_DELETE_API_URL || 'https://excel-to-delete-iare.onrender.com';  // Delete microservice
+
+// 🧪 MOCK MODE: VITE_USE_MOCK_API=true serves every service from the in-browser mock backend
+export const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true';
+
+// Only the mock backend records an audit trail in its write handlers; the real
+// services have no /audit-log yet, so the Audit Log page is hidden against them
+export const AUDIT_LOG_AVAILABLE = USE_MOCK_API;
+
+const SERVICE_URLS: Record<ServiceName, string> = {
+  auth: API_BASE_URL,
+  excel: EXCEL_API_URL,
+  ai: AI_API_URL,
+  delete: DELETE_API_URL,
+};
+
+// ⏱️ COLD START: Render services sleep when idle and take 30-60s to boot
+const REQUEST_TIMEOUT_MS = Number(import.meta.env.VITE_API_TIMEOUT_MS ?? 60000);
+const UPLOAD_TIMEOUT_MS = Number(import.meta.env.VITE_API_UPLOAD_TIMEOUT_MS ?? 300000);
+const GET_RETRIES = Number(import.meta.env.VITE_API_GET_RETRIES ?? 3);
+const RETRY_BASE_DELAY_MS = Number(import.meta.env.VITE_API_RETRY_DELAY_MS ?? 2000);
+const SLOW_REQUEST_MS = 4000;  // Pending longer than this = service is probably waking up
+
+type MockFetch = ReturnType<typeof import('./mockBackend').createMockFetch>;
+let mockFetch: MockFetch | null = null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export type UploadProgressHandler = (loaded: number, total: number) => void;
+
+interface TransportOptions {
+  timeoutMs?: number;
+  onUploadProgress?: UploadProgressHandler;  // Switches the request to XHR
+}
+
+// fetch() cannot report upload progress, so uploads that want it go through XHR
+function xhrFetch(url: string, init: RequestInit, onUploadProgress: UploadProgressHandler): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', url);
+    xhr.withCredentials = init.credentials === 'include';
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onUploadProgress(event.loaded, event.total);
+    };
+    xhr.onload = () => {
+      const headers = new Headers();
+      xhr.getAllResponseHeaders().trim().split(/[\r\n]+/).forEach(line => {
+        const index = line.indexOf(':');
+        if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+      });
+      const body = xhr.status === 204 || xhr.status === 205 ? null : xhr.responseText;
+      resolve(new Response(body, { status: xhr.status, statusText: xhr.statusText, headers }));
+    };
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.onabort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+
+    if (init.signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    init.signal?.addEventListener('abort', () => xhr.abort());
+    xhr.send(init.body as XMLHttpRequestBodyInit);
+  });
+}
+
+// All network calls go through here so mock mode can swap the transport
+// and connection failures surface as a NetworkError tagged with the service.
+// Requests that outlive `timeoutMs` are aborted and thrown as a TimeoutError.
+async function apiFetch(service: ServiceName, path: string, init: RequestInit = {}, options: TransportOptions = {}): Promise<Response> {
+  const url = `${SERVICE_URLS[service]}${path}`;
+  const { timeoutMs = REQUEST_TIMEOUT_MS, onUploadProgress } = options;
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  // Keep honouring the caller's own abort signal
+  const callerSignal = init.signal;
+  const abortFromCaller = () => controller.abort();
+  if (callerSignal?.aborted) controller.abort();
+  callerSignal?.addEventListener('abort', abortFromCaller);
+
+  // Uploads are slow because of their size, not a cold start - leave them out
+  let releaseWaking = () => { };
+  const isUpload = !!onUploadProgress || init.body instanceof FormData;
+  const slowId = isUpload ? undefined : setTimeout(() => {
+    releaseWaking = markServiceWaking(service);
+  }, SLOW_REQUEST_MS);
+
+  try {
+    const requestInit = { ...init, signal: controller.signal };
+    if (USE_MOCK_API) {
+      if (!mockFetch) {
+        const { createMockFetch } = await import('./mockBackend');
+        mockFetch = createMockFetch(SERVICE_URLS);
+      }
+      return await mockFetch(url, { ...requestInit, onUploadProgress });
+    }
+    if (onUploadProgress) {
+      return await xhrFetch(url, requestInit, onUploadProgress);
+    }
+    return await fetch(url, requestInit);
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(`No response within ${Math.round(timeoutMs / 1000)}s`, { service, endpoint: path });
+    }
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new NetworkError((error as Error).message || 'Network request failed', { service, endpoint: path });
+  } finally {
+    clearTimeout(timeoutId);
+    clearTimeout(slowId);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
+    releaseWaking();
+  }
+}
+
+// Gateway errors Render returns while a service is still booting
+function isColdStartResponse(response: Response) {
+  return response.status === 502 || response.status === 503 || response.status === 504;
+}
+
+// Exponential backoff with a little jitter: 2s, 4s, 8s...
+function getRetryDelay(attempt: number) {
+  return RETRY_BASE_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * 500);
+}
 
+// Services that get their own copy of the auth cookies via /api/auth/set-token
+const TOKEN_SERVICES: ServiceName[] = ['excel', 'ai', 'delete'];
+
+// Admin health panel: a public ping plus a cookie-authenticated "who am I"
+const HEALTH_TIMEOUT_MS = 15000;
+const HEALTH_PATHS: Record<ServiceName, { ping: string; session: string }> = {
+  auth: { ping: '/health', session: '/auth/me' },
+  excel: { ping: '/api/health', session: '/api/auth/me' },
+  ai: { ping: '/api/health', session: '/api/auth/me' },
+  delete: { ping: '/api/health', session: '/api/auth/me' },
+};
+
+interface AuthTokens {
+  accessToken?: string;
+  refreshToken?: string;
+}
 
+// A body that does not fit `schema` fails here, with every problem logged for the bug report
+function assertShape(service: ServiceName, endpoint: string, status: number, schema: Schema, body: unknown) {
+  const issues = checkShape(schema, body);
+  if (issues.length === 0) return;
+  console.error(`❌ Unexpected response shape from ${service} ${endpoint}:`, issues, body);
+  throw new ResponseShapeError({ service, endpoint, status, issues, payload: body });
+}
 
 // API Client with auto token refresh
 class ApiClient {
+  // Shared by concurrent 401s so a burst of requests triggers a single refresh
+  private refreshPromise: Promise<AuthTokens | null> | null = null;
+
+  /**
+   * Authenticated fetch used for every service.
+   * Idempotent GETs that hit a cold start (timeout, network error or a
+   * 502/503/504 from Render) are retried with exponential backoff while the
+   * service is flagged as waking up. Writes are never replayed.
+   */
+  private async authFetch(service: ServiceName, path: string, init: RequestInit = {}, transport: TransportOptions = {}): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase();
+    const retries = method === 'GET' ? GET_RETRIES : 0;
+
+    // Once a retry starts the service stays flagged until the last attempt settles
+    const releases: (() => void)[] = [];
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let response: Response;
+        try {
+          response = await this.fetchWithRefresh(service, path, init, transport);
+        } catch (error) {
+          if (!isApiError(error) || !error.retryable || attempt >= retries) throw error;
+          releases.push(markServiceWaking(service, attempt + 1));
+          await sleep(getRetryDelay(attempt));
+          continue;
+        }
+
+        if (!isColdStartResponse(response) || attempt >= retries) {
+          return response;
+        }
+        releases.push(markServiceWaking(service, attempt + 1));
+        await sleep(getRetryDelay(attempt));
+      }
+    } finally {
+      releases.forEach(release => release());
+    }
+  }
+
+  /**
+   * On a 401 it refreshes the session on the auth API, re-issues the
+   * set-token cookie for the affected service and retries once.
+   */
+  private async fetchWithRefresh(service: ServiceName, path: string, init: RequestInit, transport: TransportOptions): Promise<Response> {
+    const requestInit: RequestInit = { ...init, credentials: 'include' };  // Automatically sends cookies!
+    const response = await apiFetch(service, path, requestInit, transport);
+
+    if (response.status !== 401 || path.startsWith('/auth/login') || path.startsWith('/auth/refresh')) {
+      return response;
+    }
+
+    const tokens = await this.refreshSession();
+    if (!tokens) {
+      notifySessionExpired();
+      return response;
+    }
+
+    if (service !== 'auth') {
+      await this.setServiceToken(service, tokens);
+    }
+
+    return apiFetch(service, path, requestInit, transport);
+  }
+
+  // Pass a schema (lib/responseSchemas) to check the body before it reaches a page
   async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    schema?: Schema
   ): Promise<T> {
-    const url = `${API_BASE_URL}${endpoint}`;
-
-    const response = await fetch(url, {
+    const response = await this.authFetch('auth', endpoint, {
       ...options,
-      credentials: 'include',  // Automatically sends cookies!
       headers: {
         'Content-Type': 'application/json',
         ...options.headers,
@@ -25,58 +245,133 @@ class ApiClient {
     });
 
     if (response.status === 401) {
-      // Try to refresh token
-      const refreshed = await this.refreshToken();
-      if (refreshed) {
-        // Retry the original request
-        const retryResponse = await fetch(url, {
-          ...options,
-          credentials: 'include',
-          headers: {
-            'Content-Type': 'application/json',
-            ...options.headers,
-          },
-        });
-
-        if (!retryResponse.ok) {
-          const error = await retryResponse.json().catch(() => ({ error: 'Request failed' }));
-          throw new Error(error.error || 'Request failed after token refresh');
-        }
-
-        return retryResponse.json();
-      } else {
-        // Only redirect if this is not already a login/auth request
-        if (!endpoint.includes('/auth/login') && !endpoint.includes('/auth/me')) {
-          // ✅ SECURITY: Clear cache if auth fails (no cookie/invalid)
-          localStorage.clear();
-          // console.log('🔒 Auth failed - clearing local storage');
-          throw new Error('Authentication required');
-        }
-        throw new Error('Authentication failed');
+      // Only redirect if this is not already a login/auth request
+      if (!endpoint.includes('/auth/login') && !endpoint.includes('/auth/me')) {
+        // ✅ SECURITY: Clear cache if auth fails (no cookie/invalid)
+        localStorage.clear();
+        cacheStorage.clear().catch(() => { });
+        // console.log('🔒 Auth failed - clearing local storage');
+        throw await ApiError.fromResponse('auth', endpoint, response, 'Authentication required');
       }
+      throw await ApiError.fromResponse('auth', endpoint, response, 'Authentication failed');
     }
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Request failed' }));
-      throw new Error(error.error || 'Request failed');
+      throw await ApiError.fromResponse('auth', endpoint, response);
     }
 
-    return response.json();
+    const body = await response.json();
+    if (schema) assertShape('auth', endpoint, response.status, schema, body);
+    return body as T;
   }
 
   async refreshToken(): Promise<boolean> {
+    return (await this.refreshSession()) !== null;
+  }
+
+  // Refresh ahead of expiry and hand the new tokens to every service
+  async renewSession(): Promise<boolean> {
+    const tokens = await this.refreshSession();
+    if (!tokens) return false;
+    await this.propagateTokens(tokens);
+    return true;
+  }
+
+  /**
+   * Refresh the auth API session. Resolves to the new tokens (empty if the
+   * backend only rotates cookies) or null when the refresh token is no longer valid.
+   */
+  private refreshSession(): Promise<AuthTokens | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        try {
+          const response = await apiFetch('auth', '/auth/refresh', {
+            method: 'POST',
+            credentials: 'include',
+          });
+          if (!response.ok) return null;
+
+          return await response.json().catch(() => ({})) as AuthTokens;
+        } catch {
+          return null;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  // Set cookies on another service's domain so it accepts our session
+  private async setServiceToken(service: ServiceName, tokens: AuthTokens): Promise<boolean> {
+    if (!tokens.accessToken) return false;
+
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+      const response = await apiFetch(service, '/api/auth/set-token', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
+        body: JSON.stringify({
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+        }),
       });
-
       return response.ok;
     } catch {
+      // console.warn(`Failed to set ${service} service cookie`);
       return false;
     }
   }
 
+  private async propagateTokens(tokens: AuthTokens) {
+    await Promise.all(TOKEN_SERVICES.map(service => this.setServiceToken(service, tokens)));
+  }
+
+  /**
+   * Ping a service and check whether it accepts our session cookie.
+   * Skips retries and token refresh so the result shows the raw state.
+   */
+  async checkServiceHealth(service: ServiceName): Promise<ServiceHealthCheck> {
+    const { ping, session } = HEALTH_PATHS[service];
+    const startedAt = performance.now();
+
+    try {
+      const pingResponse = await apiFetch(service, ping, { credentials: 'include' }, { timeoutMs: HEALTH_TIMEOUT_MS });
+      const latencyMs = Math.round(performance.now() - startedAt);
+
+      // Any answer below 500 means the service is up, even a 404 for a missing /health route
+      const reachable = pingResponse.status < 500;
+      const sessionResponse = await apiFetch(service, session, { credentials: 'include' }, { timeoutMs: HEALTH_TIMEOUT_MS });
+      const sessionAccepted = sessionResponse.ok
+        ? true
+        : sessionResponse.status === 401 || sessionResponse.status === 403 ? false : null;
+
+      let error: string | null = null;
+      if (!reachable) error = `Health check returned HTTP ${pingResponse.status}`;
+      else if (sessionAccepted === false) error = `Session cookie rejected (HTTP ${sessionResponse.status})`;
+
+      return { service, reachable, status: pingResponse.status, latencyMs, sessionAccepted, error, checkedAt: Date.now() };
+    } catch (error) {
+      return {
+        service,
+        reachable: false,
+        status: null,
+        latencyMs: Math.round(performance.now() - startedAt),
+        sessionAccepted: null,
+        error: getErrorMessage(error, 'Health check failed'),
+        checkedAt: Date.now(),
+      };
+    }
+  }
+
+  // Re-issue one service's session cookie, e.g. after its set-token call was lost
+  async resyncServiceSession(service: ServiceName): Promise<boolean> {
+    if (service === 'auth') return this.refreshToken();
+
+    const tokens = await this.refreshSession();
+    return tokens ? this.setServiceToken(service, tokens) : false;
+  }
+
   async login(username: string, password: string) {
     // Step 1: Login to auth service
     const response = await this.request<{ user: User; accessToken: string; refreshToken: string }>(
@@ -84,57 +379,16 @@ class ApiClient {
       {
         method: 'POST',
         body: JSON.stringify({ username, password }),
-      }
+      },
+      loginResponseSchema
     );
 
     // ✅ SECURITY: Tokens are stored as httpOnly cookies by the backend
     // They are NOT accessible to JavaScript (prevents XSS attacks)
     // console.log('✅ Login successful - tokens stored as httpOnly cookies (secure)');
 
-    // Step 2: Set cookies on Excel service domain
-    try {
-      await fetch(`${EXCEL_API_URL}/api/auth/set-token`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          accessToken: response.accessToken,
-          refreshToken: response.refreshToken,
-        }),
-      });
-    } catch (e) {
-      // console.warn('Failed to set Excel service cookie:', e);
-    }
-
-    // Step 3: Set cookies on AI service domain
-    try {
-      await fetch(`${AI_API_URL}/api/auth/set-token`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          accessToken: response.accessToken,
-          refreshToken: response.refreshToken,
-        }),
-      });
-    } catch (e) {
-      // console.warn('Failed to set AI service cookie:', e);
-    }
-
-    // Step 4: Set cookies on Delete service domain
-    try {
-      await fetch(`${DELETE_API_URL}/api/auth/set-token`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          accessToken: response.accessToken,
-          refreshToken: response.refreshToken,
-        }),
-      });
-    } catch (e) {
-      // console.warn('Failed to set Delete service cookie:', e);
-    }
+    // Step 2: Set cookies on Excel, AI and Delete service domains
+    await this.propagateTokens(response);
 
     return response;
   }
@@ -146,57 +400,16 @@ class ApiClient {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ username, password, role }),
-      }
+      },
+      loginResponseSchema
     );
 
     // ✅ SECURITY: Tokens are stored as httpOnly cookies by the backend
     // They are NOT accessible to JavaScript (prevents XSS attacks)
     // console.log('✅ Registration successful - tokens stored as httpOnly cookies (secure)');
 
-    // Step 2: Set cookies on Excel service domain
-    try {
-      await fetch(`${EXCEL_API_URL}/api/auth/set-token`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          accessToken: response.accessToken,
-          refreshToken: response.refreshToken,
-        }),
-      });
-    } catch (e) {
-      // console.warn('Failed to set Excel service cookie:', e);
-    }
-
-    // Step 3: Set cookies on AI service domain
-    try {
-      await fetch(`${AI_API_URL}/api/auth/set-token`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          accessToken: response.accessToken,
-          refreshToken: response.refreshToken,
-        }),
-      });
-    } catch (e) {
-      // console.warn('Failed to set AI service cookie:', e);
-    }
-
-    // Step 4: Set cookies on Delete service domain
-    try {
-      await fetch(`${DELETE_API_URL}/api/auth/set-token`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          accessToken: response.accessToken,
-          refreshToken: response.refreshToken,
-        }),
-      });
-    } catch (e) {
-      // console.warn('Failed to set Delete service cookie:', e);
-    }
+    // Step 2: Set cookies on Excel, AI and Delete service domains
+    await this.propagateTokens(response);
 
     return response;
   }
@@ -205,16 +418,16 @@ class ApiClient {
     // Logout from all four services to clear all cookies
     const logoutPromises = [
       this.request('/auth/logout', { method: 'POST' }),
-      fetch(`${EXCEL_API_URL}/api/auth/logout`, { method: 'POST', credentials: 'include' }),
-      fetch(`${AI_API_URL}/api/auth/logout`, { method: 'POST', credentials: 'include' }),
-      fetch(`${DELETE_API_URL}/api/auth/logout`, { method: 'POST', credentials: 'include' }),
+      apiFetch('excel', '/api/auth/logout', { method: 'POST', credentials: 'include' }),
+      apiFetch('ai', '/api/auth/logout', { method: 'POST', credentials: 'include' }),
+      apiFetch('delete', '/api/auth/logout', { method: 'POST', credentials: 'include' }),
     ];
 
     await Promise.all(logoutPromises.map(p => p.catch(() => { })));
   }
 
   async getCurrentUser() {
-    return this.request<User>('/auth/me');
+    return this.request<User>('/auth/me', {}, userSchema);
   }
 
   async changePassword(currentPassword: string, newPassword: string) {
@@ -225,20 +438,21 @@ class ApiClient {
   }
 
   async getUsers() {
-    return this.request<User[]>('/users');
+    return this.request<User[]>('/users', {}, usersResponseSchema);
   }
 
-  async createUser(username: string, password: string, role: string) {
+  async createUser(username: string, password: string, role: string, rollNumber?: string) {
     return this.request('/users', {
       method: 'POST',
-      body: JSON.stringify({ username, password, role }),
+      body: JSON.stringify({ username, password, role, rollNumber }),
     });
   }
 
-  async updateUserRole(userId: string, role: string) {
+  // Student accounts need the roll number that links them to their record
+  async updateUserRole(userId: string, role: string, rollNumber?: string) {
     return this.request(`/users/${userId}/role`, {
       method: 'PUT',
-      body: JSON.stringify({ role }),
+      body: JSON.stringify({ role, rollNumber }),
     });
   }
 
@@ -246,50 +460,50 @@ class ApiClient {
     return this.request(`/users/${userId}`, { method: 'DELETE' });
   }
 
-  async resetPassword(userId: string): Promise<{
-    message: string;
-    newPassword: string;
-  }> {
-    return this.request(`/users/${userId}/reset-password`, {
+  // The server picks the new password. A server that supports forced changes flags the
+  // account and says so with mustChangePassword; the flag itself is enforced server-side.
+  async resetPassword(userId: string) {
+    return this.request<{ message: string; newPassword: string; mustChangePassword?: boolean }>(`/users/${userId}/reset-password`, {
       method: 'POST',
-    });
+    }, resetPasswordResponseSchema);
+  }
+
+  // Newest first; admin only. The server writes the entries along with each change.
+  async getAuditLog() {
+    return this.request<AuditEntry[]>('/audit-log', {}, auditLogSchema);
   }
 
-  async deleteCompany(companyYearId: string, companyName: string, year: number) {
+  async deleteCompany(companyYearId: string, companyName: string, year: number): Promise<DeleteCompanyResponse> {
     // Use DELETE microservice instead of main API
-    const url = `${DELETE_API_URL}/api/companies/${companyYearId}?company_name=${encodeURIComponent(companyName)}&year=${year}`;
+    const path = `/api/companies/${companyYearId}?company_name=${encodeURIComponent(companyName)}&year=${year}`;
 
-    const response = await fetch(url, {
+    const response = await this.authFetch('delete', path, {
       method: 'DELETE',
-      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
       },
     });
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Delete failed' }));
-      throw new Error(error.error || 'Failed to delete company');
+      throw await ApiError.fromResponse('delete', path, response, 'Failed to delete company');
     }
 
     return response.json();
   }
 
-  async deleteRound(companyYearId: string, roundId: string, roundNumber: number) {
+  async deleteRound(companyYearId: string, roundId: string, roundNumber: number): Promise<DeleteRoundResponse> {
     // Use DELETE microservice instead of main API
-    const url = `${DELETE_API_URL}/api/companies/${companyYearId}/rounds/${roundId}?round_number=${roundNumber}`;
+    const path = `/api/companies/${companyYearId}/rounds/${roundId}?round_number=${roundNumber}`;
 
-    const response = await fetch(url, {
+    const response = await this.authFetch('delete', path, {
       method: 'DELETE',
-      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
       },
     });
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Delete failed' }));
-      throw new Error(error.error || 'Failed to delete round');
+      throw await ApiError.fromResponse('delete', path, response, 'Failed to delete round');
     }
 
     return response.json();
@@ -302,24 +516,28 @@ class ApiClient {
     });
   }
 
+  // The logged-in student's own record, matched on their account's roll number
+  async getMyStudentRecord() {
+    return this.request<Student>('/students/me', {}, studentSchema);
+  }
+
   async deleteStudent(studentId: string) {
-    return this.request(`/students/${studentId}`, {
+    return this.request<DeleteStudentResponse>(`/students/${studentId}`, {
       method: 'DELETE',
     });
   }
 
   async queryAI(query: string): Promise<ReadableStream> {
-    const response = await fetch(`${AI_API_URL}/api/stream`, {
+    const response = await this.authFetch('ai', '/api/stream', {  // Sends cookies to AI service!
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      credentials: 'include',  // Send cookies to AI service!
       body: JSON.stringify({ query }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to query AI');
+      throw await ApiError.fromResponse('ai', '/api/stream', response, 'Failed to query AI');
     }
 
     return response.body!;
@@ -331,7 +549,13 @@ class ApiClient {
     year: number,
     roundNumber: number | undefined,
     roundName: string | undefined,
-    isFinal: boolean
+    isFinal: boolean,
+    options: {
+      onProgress?: UploadProgressHandler;
+      signal?: AbortSignal;
+      columnMapping?: ColumnMapping;  // Checked in the browser preview before upload
+      rawColumns?: string[];
+    } = {}
   ) {
     const formData = new FormData();
     formData.append('file', file);
@@ -347,21 +571,28 @@ class ApiClient {
     if (isFinal) {
       formData.append('isFinal', 'true');
     }
+    if (options.columnMapping) {
+      formData.append('columnMapping', JSON.stringify(options.columnMapping));
+    }
+    if (options.rawColumns) {
+      formData.append('rawColumns', JSON.stringify(options.rawColumns));
+    }
 
     // ✅ SECURITY: Use httpOnly cookies - no localStorage access!
     // Cookies are automatically sent via credentials: 'include'
-    const response = await fetch(`${EXCEL_API_URL}/api/upload-round`, {
+    const response = await this.authFetch('excel', '/api/upload-round', {
       method: 'POST',
-      credentials: 'include',  // Sends httpOnly cookies automatically
       body: formData,
-    });
+      signal: options.signal,
+    }, { timeoutMs: UPLOAD_TIMEOUT_MS, onUploadProgress: options.onProgress });
 
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Upload failed');
+      throw await ApiError.fromResponse('excel', '/api/upload-round', response, 'Upload failed');
     }
 
-    return response.json() as Promise<UploadResponse>;
+    const body = await response.json();
+    assertShape('excel', '/api/upload-round', response.status, uploadResponseSchema, body);
+    return body as UploadResponse;
   }
 }
 
@@ -0,0 +1,175 @@
+/**
+ * API Errors - Structured errors thrown by ApiClient
+ *
+ * Every failed call carries the originating service, HTTP status (null when
+ * the request never got a response), a machine-readable code, whether a
+ * retry could help, and whatever JSON the server sent back.
+ */
+import { ServiceName } from '../types';
+
+export type ApiErrorCode =
+    | 'AUTH_REQUIRED'   // 401 - session missing or expired
+    | 'FORBIDDEN'       // 403 - logged in but not allowed
+    | 'VALIDATION'      // 400 / 422 - bad input
+    | 'NOT_FOUND'       // 404
+    | 'CONFLICT'        // 409 - duplicate record
+    | 'SERVER'          // 5xx
+    | 'TIMEOUT'         // request took too long (Render cold start)
+    | 'NETWORK'         // no response at all
+    | 'INVALID_RESPONSE' // 2xx, but the body does not have the expected shape
+    | 'UNKNOWN';
+
+export const SERVICE_LABELS: Record<ServiceName, string> = {
+    auth: 'Authentication',
+    excel: 'Excel upload',
+    ai: 'AI assistant',
+    delete: 'Delete',
+};
+
+interface ApiErrorOptions {
+    service: ServiceName;
+    endpoint: string;
+    status?: number | null;
+    code?: ApiErrorCode;
+    retryable?: boolean;
+    payload?: unknown;
+}
+
+export class ApiError extends Error {
+    readonly service: ServiceName;
+    readonly endpoint: string;
+    readonly status: number | null;
+    readonly code: ApiErrorCode;
+    readonly retryable: boolean;
+    readonly payload: unknown;
+
+    constructor(message: string, options: ApiErrorOptions) {
+        super(message);
+        this.name = 'ApiError';
+        this.service = options.service;
+        this.endpoint = options.endpoint;
+        this.status = options.status ?? null;
+        this.code = options.code ?? 'UNKNOWN';
+        this.retryable = options.retryable ?? false;
+        this.payload = options.payload;
+    }
+
+    /**
+     * Build the matching error subclass from a non-OK response.
+     * Reads the server's `error` / `message` / `detail` field when there is one.
+     */
+    static async fromResponse(service: ServiceName, endpoint: string, response: Response, fallbackMessage = 'Request failed'): Promise<ApiError> {
+        const payload = await response.json().catch(() => null);
+        const message = extractServerMessage(payload) || fallbackMessage;
+        const options = { service, endpoint, status: response.status, payload };
+
+        switch (response.status) {
+            case 401:
+                return new AuthError(message, options);
+            case 403:
+                return new ApiError(message, { ...options, code: 'FORBIDDEN' });
+            case 400:
+            case 422:
+                return new ValidationError(message, options);
+            case 404:
+                return new ApiError(message, { ...options, code: 'NOT_FOUND' });
+            case 409:
+                return new ApiError(message, { ...options, code: 'CONFLICT' });
+            case 502:
+            case 503:
+            case 504:
+                // Render answers with gateway errors while a sleeping service boots
+                return new TimeoutError(message, options);
+            default:
+                return new ApiError(message, {
+                    ...options,
+                    code: response.status >= 500 ? 'SERVER' : 'UNKNOWN',
+                    retryable: response.status >= 500,
+                });
+        }
+    }
+}
+
+export class AuthError extends ApiError {
+    constructor(message: string, options: ApiErrorOptions) {
+        super(message, { ...options, code: 'AUTH_REQUIRED', retryable: false });
+        this.name = 'AuthError';
+    }
+}
+
+export class ValidationError extends ApiError {
+    constructor(message: string, options: ApiErrorOptions) {
+        super(message, { ...options, code: 'VALIDATION', retryable: false });
+        this.name = 'ValidationError';
+    }
+}
+
+export class NetworkError extends ApiError {
+    constructor(message: string, options: ApiErrorOptions) {
+        super(message, { ...options, code: 'NETWORK', retryable: true });
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends ApiError {
+    constructor(message: string, options: ApiErrorOptions) {
+        super(message, { ...options, code: 'TIMEOUT', retryable: true });
+        this.name = 'TimeoutError';
+    }
+}
+
+// The backend answered, but not in a shape this frontend can use (lib/responseSchemas)
+export class ResponseShapeError extends ApiError {
+    readonly issues: string[];
+
+    constructor(options: ApiErrorOptions & { issues: string[] }) {
+        super(`Unexpected response from ${options.endpoint}: ${options.issues.join('; ')}`, {
+            ...options,
+            code: 'INVALID_RESPONSE',
+            retryable: false,
+        });
+        this.name = 'ResponseShapeError';
+        this.issues = options.issues;
+    }
+}
+
+function extractServerMessage(payload: unknown): string | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const { error, message, detail } = payload as Record<string, unknown>;
+    const value = error ?? message ?? detail;
+    return typeof value === 'string' ? value : null;
+}
+
+export function isApiError(error: unknown): error is ApiError {
+    return error instanceof ApiError;
+}
+
+/**
+ * Turn any thrown value into a message a user can act on.
+ * Validation/conflict errors keep the server's wording; transport
+ * problems explain which service failed and what to do next.
+ */
+export function getErrorMessage(error: unknown, fallback = 'Something went wrong'): string {
+    if (!isApiError(error)) {
+        return (error as Error)?.message || fallback;
+    }
+
+    const label = SERVICE_LABELS[error.service];
+    switch (error.code) {
+        case 'AUTH_REQUIRED':
+            // A rejected login is a credentials problem, not an expired session
+            return error.endpoint === '/auth/login' ? error.message : 'Your session has expired. Please log in again.';
+        case 'FORBIDDEN':
+            return "You don't have permission to do this.";
+        case 'TIMEOUT':
+            return `The ${label} service is waking up or too slow to respond. Please try again in a minute.`;
+        case 'NETWORK':
+            return `Could not reach the ${label} service. Check your connection and try again.`;
+        case 'SERVER':
+            return `The ${label} service ran into a problem (HTTP ${error.status}). Please try again.`;
+        case 'INVALID_RESPONSE':
+            return `The ${label} service sent data this page cannot read. Please report this: ${error.message}`;
+        default:
+            return error.message || fallback;
+    }
+}
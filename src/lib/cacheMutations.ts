@@ -0,0 +1,72 @@
+/**
+ * Cache Mutations - Local patches for cached lists after a write
+ *
+ * Used by DataCacheContext.applyMutation when the change can be worked out
+ * without asking the server again.
+ */
+import { Company, CreateStudentPayload, Student } from '../types';
+
+// Same order as DataCacheContext.fetchCompanies
+const compareCompanies = (a: Company, b: Company) => (b.year - a.year) || a.companyName.localeCompare(b.companyName);
+
+export function upsertCompany(companies: Company[], company: Company): Company[] {
+    return [...companies.filter(c => c.companyYearId !== company.companyYearId), company].sort(compareCompanies);
+}
+
+/**
+ * Merge a delta sync answer into a cached list: changed records replace
+ * their cached copy (or are appended when new) and tombstoned ids are dropped.
+ * A record that is both changed and tombstoned was re-created, so it stays.
+ */
+export function mergeDelta<T>(cached: T[], changed: T[], deleted: string[], idOf: (record: T) => string): T[] {
+    const changedById = new Map(changed.map(record => [idOf(record), record]));
+    const removed = new Set(deleted.filter(id => !changedById.has(id)));
+    const merged = cached
+        .filter(record => !removed.has(idOf(record)))
+        .map(record => changedById.get(idOf(record)) ?? record);
+    const cachedIds = new Set(cached.map(idOf));
+    return [...merged, ...changed.filter(record => !cachedIds.has(idOf(record)))];
+}
+
+// Stand-in row for a student the server has not confirmed yet
+export function buildPendingStudent(payload: CreateStudentPayload): Student {
+    return {
+        studentId: `pending-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        ...payload,
+        companyStatus: {},
+        selectedCompanies: [],
+        currentStatus: 'not_placed',
+        totalOffers: 0,
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Drop a deleted company from every student's history, mirroring what the
+ * delete service does. Returns how many students changed so the caller can
+ * compare it with `students_updated` before trusting the patch.
+ */
+export function removeCompanyFromStudents(students: Student[], companyYearId: string, companyName: string) {
+    let touched = 0;
+    const patched = students.map(student => {
+        const status = student.companyStatus?.[companyYearId];
+        if (!status) return student;
+        touched++;
+
+        const companyStatus = { ...student.companyStatus };
+        delete companyStatus[companyYearId];
+        const selectedCompanies = status.status === 'selected'
+            ? student.selectedCompanies.filter(name => name !== companyName)
+            : student.selectedCompanies;
+        const totalOffers = status.status === 'selected' ? Math.max(0, student.totalOffers - 1) : student.totalOffers;
+
+        return {
+            ...student,
+            companyStatus,
+            selectedCompanies,
+            totalOffers,
+            currentStatus: totalOffers > 0 ? 'placed' as const : 'not_placed' as const,
+        };
+    });
+    return { students: patched, touched };
+}
@@ -0,0 +1,55 @@
+/**
+ * Cache Policy - How long each cached entity counts as fresh
+ *
+ * Stale entries are still served straight away; DataCacheContext refetches
+ * them in the background and the pages pick up the new data on arrival.
+ */
+
+import { CacheEntry } from '../types/cache';
+
+export type CacheEntity = 'years' | 'companies' | 'students' | 'stats' | 'dashboard' | 'rounds';
+
+const MINUTE = 60 * 1000;
+
+export const CACHE_TTL_MS: Record<CacheEntity, number> = {
+    years: 30 * MINUTE,      // Year analytics only move when rounds are uploaded
+    companies: 5 * MINUTE,
+    students: 10 * MINUTE,
+    stats: 10 * MINUTE,
+    dashboard: 5 * MINUTE,
+    rounds: 2 * MINUTE,      // Per company - the page people watch during a drive
+};
+
+// A failed or slow revalidation is not retried on every render
+export const REVALIDATE_MIN_INTERVAL_MS = 30 * 1000;
+
+// Delta sync asks only for records changed since the newest cached updatedAt.
+// Older caches reload in full, since the server only keeps tombstones so long;
+// the overlap re-requests a few minutes so clock skew cannot skip a change.
+const DELTA_SYNC_MAX_AGE_MS = 24 * 60 * MINUTE;
+const DELTA_SYNC_OVERLAP_MS = 5 * MINUTE;
+
+// The `since` to send for a cached list, or null when it must be fetched in full
+export function deltaSyncCursor(entry: CacheEntry<{ updatedAt: Date | string }[]> | null, now = Date.now()): string | null {
+    if (!entry || entry.data.length === 0 || now - entry.timestamp > DELTA_SYNC_MAX_AGE_MS) return null;
+    const newest = entry.data.reduce((max, record) => {
+        const time = new Date(record.updatedAt).getTime();
+        return Number.isNaN(time) ? max : Math.max(max, time);
+    }, 0);
+    return newest > 0 ? new Date(newest - DELTA_SYNC_OVERLAP_MS).toISOString() : null;
+}
+
+export function isCacheStale(entity: CacheEntity, entry: Pick<CacheEntry<unknown>, 'timestamp' | 'invalidated'>, now = Date.now()): boolean {
+    return !!entry.invalidated || now - entry.timestamp > CACHE_TTL_MS[entity];
+}
+
+// "just now", "5 min ago", "3 h ago", "2 days ago"
+export function formatCacheAge(timestamp: number, now = Date.now()): string {
+    const minutes = Math.floor((now - timestamp) / MINUTE);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} h ago`;
+    const days = Math.floor(hours / 24);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Cache Schema - Versioning, migrations and shape checks for cached entries
+ *
+ * Every entry written to cache storage is stamped with CACHE_SCHEMA_VERSION.
+ * On load, older entries are upgraded one version at a time through
+ * MIGRATIONS, then checked against the shape pages rely on. Anything that
+ * cannot be upgraded or does not pass is discarded and simply refetched,
+ * instead of reaching a page and crashing it.
+ *
+ * When a cached type in src/types changes: bump CACHE_SCHEMA_VERSION, add a
+ * migration from the previous version (return null to drop entries that
+ * cannot be converted) and update the shape check.
+ */
+import { CacheEntry } from '../types/cache';
+import { CacheEntity } from './cachePolicy';
+import {
+    Schema,
+    checkShape,
+    companiesSchema,
+    dashboardSummarySchema,
+    roundsResponseSchema,
+    studentStatsSchema,
+    studentsSchema,
+    yearsResponseSchema,
+} from './responseSchemas';
+
+// 1 = entries written before versioning existed
+export const CACHE_SCHEMA_VERSION = 2;
+
+// ==================== Shape checks ====================
+
+// The same checks ApiClient applies to fresh responses (lib/responseSchemas)
+const SHAPE_CHECKS: Record<CacheEntity, Schema> = {
+    years: yearsResponseSchema,
+    companies: companiesSchema,
+    students: studentsSchema,
+    stats: studentStatsSchema,
+    dashboard: dashboardSummarySchema,
+    rounds: roundsResponseSchema,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+// ==================== Migrations ====================
+
+// Upgrades an entry's data for one entity from version N to N + 1; null drops the entry
+type Migration = (entity: CacheEntity, data: unknown) => unknown | null;
+
+const MIGRATIONS: Record<number, Migration> = {
+    // 1 → 2: unversioned entries - fill in fields pages read without a fallback where they can be derived
+    1: (entity, data) => {
+        if (entity === 'students' && Array.isArray(data)) {
+            return data.map(student => {
+                if (!isObject(student)) return student;
+                const totalOffers = isNumber(student.totalOffers) ? student.totalOffers : 0;
+                return {
+                    ...student,
+                    companyStatus: isObject(student.companyStatus) ? student.companyStatus : {},
+                    selectedCompanies: Array.isArray(student.selectedCompanies) ? student.selectedCompanies : [],
+                    totalOffers,
+                    currentStatus: student.currentStatus ?? (totalOffers > 0 ? 'placed' : 'not_placed'),
+                };
+            });
+        }
+        if (entity === 'rounds' && Array.isArray(data)) {
+            return data.map(round => {
+                if (!isObject(round) || Array.isArray(round.rawColumns)) return round;
+                const rows = isObject(round.data) ? Object.values(round.data) : [];
+                const firstRow = rows.find(isObject);
+                return { ...round, rawColumns: isObject(firstRow?.rowData) ? Object.keys(firstRow.rowData) : [] };
+            });
+        }
+        return data;
+    },
+};
+
+/**
+ * Bring a stored entry up to CACHE_SCHEMA_VERSION and check its shape.
+ * Returns the (possibly unchanged) entry, or null when it should be dropped:
+ * not an entry, written by a newer version, failed migration or bad shape.
+ */
+export function upgradeCacheEntry(entity: CacheEntity, entry: unknown): CacheEntry<unknown> | null {
+    if (!isObject(entry) || !isNumber(entry.timestamp)) return null;
+
+    const fromVersion = isNumber(entry.schemaVersion) ? entry.schemaVersion : 1;
+    if (fromVersion > CACHE_SCHEMA_VERSION) return null;
+
+    let data: unknown = entry.data;
+    for (let version = fromVersion; version < CACHE_SCHEMA_VERSION; version++) {
+        data = MIGRATIONS[version](entity, data);
+        if (data === null) return null;
+    }
+    if (checkShape(SHAPE_CHECKS[entity], data).length > 0) return null;
+
+    return { ...entry, data, schemaVersion: CACHE_SCHEMA_VERSION } as CacheEntry<unknown>;
+}
@@ -0,0 +1,56 @@
+/**
+ * Cache Snapshots - Export and import of the whole data cache
+ *
+ * Admins export a snapshot to attach to a bug report; importing it in
+ * another browser reproduces exactly what that user's pages were showing.
+ */
+import { CacheEntry, CacheSnapshot } from '../types/cache';
+import { upgradeCacheEntry } from './cacheSchema';
+import { entityForStorageKey } from './cacheStorage';
+
+const SNAPSHOT_FORMAT = 'placement-cache-snapshot';
+
+export function buildCacheSnapshot(entries: Record<string, CacheEntry<unknown>>): CacheSnapshot {
+    return { format: SNAPSHOT_FORMAT, version: 1, exportedAt: Date.now(), entries };
+}
+
+/**
+ * Parse an exported snapshot file. Entries from older cache schema versions
+ * are upgraded; throws with a message fit for the admin when the file is not
+ * a snapshot or holds entries this version cannot use.
+ */
+export function parseCacheSnapshot(text: string): CacheSnapshot {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    const snapshot = parsed as Partial<CacheSnapshot> | null;
+    if (!snapshot || snapshot.format !== SNAPSHOT_FORMAT) {
+        throw new Error('The file is not a cache snapshot');
+    }
+    if (snapshot.version !== 1) {
+        throw new Error(`Snapshot version ${snapshot.version} is not supported`);
+    }
+    if (!snapshot.entries || typeof snapshot.entries !== 'object') {
+        throw new Error('The snapshot has no entries');
+    }
+
+    const entries: Record<string, CacheEntry<unknown>> = {};
+    const invalid: string[] = [];
+    Object.entries(snapshot.entries).forEach(([key, stored]) => {
+        const entity = entityForStorageKey(key);
+        const entry = entity ? upgradeCacheEntry(entity, stored) : null;
+        if (entry) {
+            entries[key] = entry;
+        } else {
+            invalid.push(key);
+        }
+    });
+    if (invalid.length > 0) {
+        throw new Error(`Unknown, malformed or newer cache entries: ${invalid.join(', ')}`);
+    }
+    return { ...snapshot, entries } as CacheSnapshot;
+}
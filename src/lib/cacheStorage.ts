@@ -0,0 +1,361 @@
+/**
+ * Cache Storage - Persistence layer behind DataCacheContext
+ *
+ * Entries are stored one record per entity ("companies", "all_students", ...)
+ * and one per company for rounds ("rounds:<companyYearId>"), so a single
+ * company's rounds can be written or evicted without touching the rest.
+ * IndexedDB is used when available (no ~5 MB limit, no main-thread JSON
+ * parse); localStorage is the fallback backend.
+ */
+import { CacheEntry, CacheUsage, CacheUsageEntry } from '../types/cache';
+import { CacheEntity } from './cachePolicy';
+import { CACHE_SCHEMA_VERSION, upgradeCacheEntry } from './cacheSchema';
+
+export const ENTITY_STORAGE_KEYS: Record<Exclude<CacheEntity, 'rounds'>, string> = {
+    years: 'years',
+    companies: 'companies',
+    students: 'all_students',   // Name kept from the days of a separate paginated cache
+    stats: 'stats',
+    dashboard: 'dashboard',
+};
+
+export const ROUNDS_KEY_PREFIX = 'rounds:';
+
+export const roundsKey = (companyYearId: string) => `${ROUNDS_KEY_PREFIX}${companyYearId}`;
+
+// null for keys no current entity is stored under
+export function entityForStorageKey(key: string): CacheEntity | null {
+    if (key.startsWith(ROUNDS_KEY_PREFIX)) return key.length > ROUNDS_KEY_PREFIX.length ? 'rounds' : null;
+    const match = Object.entries(ENTITY_STORAGE_KEYS).find(([, storageKey]) => storageKey === key);
+    return match ? match[0] as CacheEntity : null;
+}
+
+// Round data beyond this is evicted oldest-first, even before the browser complains
+const ROUNDS_BUDGET_BYTES = 25 * 1024 * 1024;
+
+// Keys written by the localStorage-only cache before this layer existed (null = dropped)
+const LEGACY_KEYS: Record<string, string | null> = {
+    cache_years: 'years',
+    cache_companies: 'companies',
+    cache_all_students: 'all_students',
+    cache_stats: 'stats',
+    cache_dashboard: 'dashboard',
+    cache_students: null,   // Old paginated students cache
+};
+const LEGACY_ROUNDS_KEY = 'cache_rounds';       // One object holding every company's rounds
+
+export interface CacheStorageBackend {
+    readonly name: CacheUsage['backend'];
+    getAll(): Promise<Record<string, CacheEntry<unknown>>>;
+    list(): Promise<CacheUsageEntry[]>;
+    set(key: string, entry: CacheEntry<unknown>): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+const isQuotaError = (error: unknown) =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// ==================== IndexedDB ====================
+
+const DB_NAME = 'placement-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';   // { key, data, timestamp, invalidated, schemaVersion }
+const META_STORE = 'meta';         // { key, bytes, timestamp } - read for usage without loading data
+
+const requestResult = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(ENTRIES_STORE)) db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+            if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Cache database is blocked by another tab'));
+    });
+}
+
+async function createIndexedDbBackend(): Promise<CacheStorageBackend> {
+    const db = await openDatabase();
+
+    const backend: CacheStorageBackend = {
+        name: 'indexeddb',
+
+        async getAll() {
+            const transaction = db.transaction(ENTRIES_STORE, 'readonly');
+            const records = await requestResult(transaction.objectStore(ENTRIES_STORE).getAll()) as ({ key: string } & CacheEntry<unknown>)[];
+            return Object.fromEntries(records.map(({ key, ...entry }) => [key, entry]));
+        },
+
+        async list() {
+            const transaction = db.transaction(META_STORE, 'readonly');
+            return await requestResult(transaction.objectStore(META_STORE).getAll()) as CacheUsageEntry[];
+        },
+
+        async set(key, entry) {
+            const bytes = JSON.stringify(entry.data)?.length ?? 0;
+            const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+            transaction.objectStore(ENTRIES_STORE).put({ ...entry, key });
+            transaction.objectStore(META_STORE).put({ key, bytes, timestamp: entry.timestamp });
+            await transactionDone(transaction);
+        },
+
+        async delete(key) {
+            const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+            transaction.objectStore(ENTRIES_STORE).delete(key);
+            transaction.objectStore(META_STORE).delete(key);
+            await transactionDone(transaction);
+        },
+
+        async clear() {
+            const transaction = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+            transaction.objectStore(ENTRIES_STORE).clear();
+            transaction.objectStore(META_STORE).clear();
+            await transactionDone(transaction);
+        },
+    };
+
+    await migrateLegacyKeys(backend);
+    return backend;
+}
+
+// Move the old localStorage cache into IndexedDB once, then drop it from localStorage
+async function migrateLegacyKeys(backend: CacheStorageBackend) {
+    const existing = new Set((await backend.list()).map(entry => entry.key));
+    let migrated = 0;
+
+    const readLegacy = (storageKey: string) => {
+        try {
+            const stored = localStorage.getItem(storageKey);
+            return stored ? JSON.parse(stored) as CacheEntry<unknown> : null;
+        } catch {
+            return null;
+        }
+    };
+
+    for (const [storageKey, key] of Object.entries(LEGACY_KEYS)) {
+        const entry = readLegacy(storageKey);
+        if (key && entry && !existing.has(key)) {
+            await backend.set(key, entry);
+            migrated++;
+        }
+        localStorage.removeItem(storageKey);
+    }
+
+    const legacyRounds = readLegacy(LEGACY_ROUNDS_KEY) as CacheEntry<Record<string, CacheEntry<unknown>>> | null;
+    for (const [companyYearId, entry] of Object.entries(legacyRounds?.data ?? {})) {
+        if (!existing.has(roundsKey(companyYearId))) {
+            await backend.set(roundsKey(companyYearId), entry);
+            migrated++;
+        }
+    }
+    localStorage.removeItem(LEGACY_ROUNDS_KEY);
+
+    if (migrated > 0) {
+        console.log(`📦 Migrated ${migrated} cache entries from localStorage to IndexedDB`);
+    }
+}
+
+// ==================== localStorage fallback ====================
+
+// Same key names as the legacy cache, so nothing needs migrating except rounds
+const STORAGE_PREFIX = 'cache_';
+
+function createLocalStorageBackend(): CacheStorageBackend {
+    const cacheKeys = () => {
+        const keys: string[] = [];
+        for (let i = 0; i < localStorage.length; i++) {
+            const storageKey = localStorage.key(i);
+            if (storageKey?.startsWith(STORAGE_PREFIX) && storageKey !== LEGACY_ROUNDS_KEY) keys.push(storageKey);
+        }
+        return keys;
+    };
+
+    const read = (storageKey: string): CacheEntry<unknown> | null => {
+        try {
+            const stored = localStorage.getItem(storageKey);
+            return stored ? JSON.parse(stored) as CacheEntry<unknown> : null;
+        } catch {
+            return null;
+        }
+    };
+
+    // Split the legacy all-companies rounds object into per-company keys
+    const legacyRounds = read(LEGACY_ROUNDS_KEY) as CacheEntry<Record<string, CacheEntry<unknown>>> | null;
+    if (legacyRounds) {
+        Object.entries(legacyRounds.data ?? {}).forEach(([companyYearId, entry]) => {
+            try {
+                localStorage.setItem(`${STORAGE_PREFIX}${roundsKey(companyYearId)}`, JSON.stringify(entry));
+            } catch (error) {
+                console.warn(`Failed to migrate rounds for ${companyYearId}:`, error);
+            }
+        });
+        localStorage.removeItem(LEGACY_ROUNDS_KEY);
+    }
+    // Other retired keys (cache_students) are dropped by the schema check on load
+
+    return {
+        name: 'localStorage',
+
+        async getAll() {
+            const entries: Record<string, CacheEntry<unknown>> = {};
+            cacheKeys().forEach(storageKey => {
+                const entry = read(storageKey);
+                if (entry) entries[storageKey.slice(STORAGE_PREFIX.length)] = entry;
+            });
+            return entries;
+        },
+
+        async list() {
+            return cacheKeys().map(storageKey => ({
+                key: storageKey.slice(STORAGE_PREFIX.length),
+                bytes: (localStorage.getItem(storageKey)?.length ?? 0) * 2,   // UTF-16
+                timestamp: read(storageKey)?.timestamp ?? 0,
+            }));
+        },
+
+        async set(key, entry) {
+            localStorage.setItem(`${STORAGE_PREFIX}${key}`, JSON.stringify(entry));
+        },
+
+        async delete(key) {
+            localStorage.removeItem(`${STORAGE_PREFIX}${key}`);
+        },
+
+        async clear() {
+            cacheKeys().forEach(storageKey => localStorage.removeItem(storageKey));
+        },
+    };
+}
+
+// ==================== Public store ====================
+
+let backendPromise: Promise<CacheStorageBackend> | null = null;
+
+function getBackend(): Promise<CacheStorageBackend> {
+    if (!backendPromise) {
+        backendPromise = (typeof indexedDB === 'undefined'
+            ? Promise.reject(new Error('IndexedDB is not available'))
+            : createIndexedDbBackend()
+        ).catch(error => {
+            console.warn('⚠️ IndexedDB unavailable - caching in localStorage instead:', error);
+            return createLocalStorageBackend();
+        });
+    }
+    return backendPromise;
+}
+
+// Delete the oldest round records (never `keep`) until `bytesToFree` is reached
+async function evictOldestRounds(backend: CacheStorageBackend, bytesToFree: number, keep: string): Promise<number> {
+    const candidates = (await backend.list())
+        .filter(entry => entry.key.startsWith(ROUNDS_KEY_PREFIX) && entry.key !== keep)
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    let freed = 0;
+    let evicted = 0;
+    for (const entry of candidates) {
+        if (freed >= bytesToFree) break;
+        await backend.delete(entry.key);
+        freed += entry.bytes;
+        evicted++;
+    }
+    if (evicted > 0) {
+        console.log(`🧹 Evicted ${evicted} old round cache entries (~${Math.round(freed / 1024)} KB)`);
+    }
+    return evicted;
+}
+
+export const cacheStorage = {
+    // Entries from older schema versions are upgraded in place; unusable ones are deleted
+    async loadAll(): Promise<Record<string, CacheEntry<unknown>>> {
+        const backend = await getBackend();
+        const entries: Record<string, CacheEntry<unknown>> = {};
+        let upgraded = 0;
+        let discarded = 0;
+
+        for (const [key, stored] of Object.entries(await backend.getAll())) {
+            const entity = entityForStorageKey(key);
+            const entry = entity ? upgradeCacheEntry(entity, stored) : null;
+            try {
+                if (!entry) {
+                    await backend.delete(key);
+                    discarded++;
+                    continue;
+                }
+                if (stored.schemaVersion !== entry.schemaVersion) {
+                    await backend.set(key, entry);
+                    upgraded++;
+                }
+            } catch (error) {
+                console.warn(`Failed to rewrite cache entry ${key}:`, error);
+            }
+            if (entry) entries[key] = entry;
+        }
+
+        if (upgraded > 0 || discarded > 0) {
+            console.log(`🔄 Cache schema v${CACHE_SCHEMA_VERSION}: upgraded ${upgraded} entries, discarded ${discarded}`);
+        }
+        return entries;
+    },
+
+    // Writes one entry, making room by evicting old round data when storage is full
+    async save<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+        const backend = await getBackend();
+        const stamped = { ...entry, schemaVersion: CACHE_SCHEMA_VERSION };
+        for (;;) {
+            try {
+                await backend.set(key, stamped);
+                break;
+            } catch (error) {
+                if (!isQuotaError(error)) throw error;
+                console.warn(`⚠️ Cache storage full while saving ${key} - evicting old rounds`);
+                const evicted = await evictOldestRounds(backend, 1, key);
+                if (evicted === 0) throw error;
+            }
+        }
+
+        if (key.startsWith(ROUNDS_KEY_PREFIX)) {
+            const roundBytes = (await backend.list())
+                .filter(item => item.key.startsWith(ROUNDS_KEY_PREFIX))
+                .reduce((sum, item) => sum + item.bytes, 0);
+            if (roundBytes > ROUNDS_BUDGET_BYTES) {
+                await evictOldestRounds(backend, roundBytes - ROUNDS_BUDGET_BYTES, key);
+            }
+        }
+    },
+
+    async remove(key: string): Promise<void> {
+        await (await getBackend()).delete(key);
+    },
+
+    async clear(): Promise<void> {
+        await (await getBackend()).clear();
+        [LEGACY_ROUNDS_KEY, ...Object.keys(LEGACY_KEYS)].forEach(storageKey => localStorage.removeItem(storageKey));
+    },
+
+    async usage(): Promise<CacheUsage> {
+        const backend = await getBackend();
+        const entries = (await backend.list()).sort((a, b) => b.bytes - a.bytes);
+        const estimate = await navigator.storage?.estimate?.().catch(() => null);
+        return {
+            backend: backend.name,
+            entries,
+            totalBytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+            usedBytes: estimate?.usage ?? null,
+            quotaBytes: estimate?.quota ?? null,
+        };
+    },
+};
@@ -31,12 +31,20 @@ export function exportToCSV(data: Record<string, unknown>[], filename: string) {
     const csv = [headers, ...rows].join('\n');
 
     // Create blob and download
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${filename}.csv`);
+}
+
+// Export any value as pretty-printed JSON
+export function exportToJSON(data: unknown, filename: string) {
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `${filename}.json`);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
 
     link.setAttribute('href', url);
-    link.setAttribute('download', `${filename}.csv`);
+    link.setAttribute('download', fileName);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Company, ServiceName, Student } from '../types';
+import { createMockFetch, resetMockBackend } from './mockBackend';
+
+const SERVICE_URLS: Record<ServiceName, string> = {
+    auth: 'http://auth.mock',
+    excel: 'http://excel.mock',
+    ai: 'http://ai.mock',
+    delete: 'http://delete.mock',
+};
+
+const mockFetch = createMockFetch(SERVICE_URLS);
+
+const post = (service: ServiceName, path: string, body: unknown) =>
+    mockFetch(`${SERVICE_URLS[service]}${path}`, { method: 'POST', body: JSON.stringify(body) });
+
+// Logs in to the auth API and hands the token to the delete service, as ApiClient.login does
+async function loginAs(username: string, password: string) {
+    const { accessToken } = await (await post('auth', '/auth/login', { username, password })).json() as { accessToken: string };
+    await post('delete', '/api/auth/set-token', { accessToken });
+}
+
+async function firstStudent(): Promise<Student> {
+    const { students } = await (await mockFetch(`${SERVICE_URLS.auth}/students`)).json() as { students: Student[] };
+    return students[0];
+}
+
+async function firstCompany(): Promise<Company> {
+    const companies = await (await mockFetch(`${SERVICE_URLS.auth}/companies`)).json() as Company[];
+    return companies[0];
+}
+
+describe('mock backend route permissions', () => {
+    beforeEach(() => {
+        resetMockBackend(2024);
+    });
+
+    it('refuses deletes to faculty, who lack the delete permissions', async () => {
+        await loginAs('faculty', 'faculty123');
+        const student = await firstStudent();
+        const company = await firstCompany();
+
+        const studentDelete = await mockFetch(`${SERVICE_URLS.auth}/students/${student.studentId}`, { method: 'DELETE' });
+        const companyDelete = await mockFetch(`${SERVICE_URLS.delete}/api/companies/${company.companyYearId}`, { method: 'DELETE' });
+
+        expect(studentDelete.status).toBe(403);
+        expect(companyDelete.status).toBe(403);
+        expect(await firstStudent()).toEqual(student);
+    });
+
+    it('refuses user management to faculty', async () => {
+        await loginAs('faculty', 'faculty123');
+
+        const users = await mockFetch(`${SERVICE_URLS.auth}/users`);
+
+        expect(users.status).toBe(403);
+    });
+
+    it('lets admins delete', async () => {
+        await loginAs('admin', 'admin123');
+        const student = await firstStudent();
+
+        const response = await mockFetch(`${SERVICE_URLS.auth}/students/${student.studentId}`, { method: 'DELETE' });
+
+        expect(response.status).toBe(200);
+        expect((await firstStudent()).studentId).not.toBe(student.studentId);
+    });
+});
@@ -0,0 +1,950 @@
+/**
+ * Mock Backend - In-browser stand-in for the auth, Excel, AI and Delete services
+ *
+ * Enabled with VITE_USE_MOCK_API=true. ApiClient routes every fetch through
+ * mockFetch, which answers from seeded fixture data (see mockFixtures.ts).
+ * State is kept in sessionStorage so it survives page reloads and logout's
+ * localStorage.clear(), but starts fresh in a new browser session.
+ */
+import { AuditAction, AuditEntry, AuditTarget, Company, DeleteCompanyResponse, DeleteRoundResponse, DashboardSummary, Round, RoundData, ServiceName, Student, StudentStats, UploadResponse, User } from '../types';
+import { ColumnMapping } from '../types/upload';
+import { ParsedSheet, canPreviewFile, detectColumnMapping, parseSheetFile } from './sheetParser';
+import { generatePassword } from './passwords';
+import { PERMISSION_LABELS, Permission, permissionsForRole } from './permissions';
+import {
+    MOCK_ROUND_COLUMNS,
+    MOCK_STATE_VERSION,
+    MockState,
+    MockUser,
+    buildYearAnalytics,
+    createMockState,
+    createMockStudent,
+    createRandom,
+    recomputeDerived,
+    toCompanyYearId,
+    toRoundRow,
+} from './mockFixtures';
+
+const STORAGE_KEY = 'mock_backend_state';
+const DEFAULT_SEED = Number(import.meta.env.VITE_MOCK_SEED) || 2024;
+const LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY ?? 300);
+const TOKEN_TTL_MS = Number(import.meta.env.VITE_MOCK_TOKEN_TTL ?? 900) * 1000;
+const COLD_START_MS = Number(import.meta.env.VITE_MOCK_COLD_START_MS ?? 0);
+
+// When each service finishes booting this page load (Render cold start simulation).
+// The first request starts the boot; it keeps going even if that client gives up.
+const bootedAt = new Map<ServiceName, number>();
+
+interface MockRequest {
+    service: ServiceName;
+    method: string;
+    params: string[];
+    query: URLSearchParams;
+    body: unknown;
+    user: MockUser | null;   // Session user; null on public routes
+}
+
+type MockHandler = (state: MockState, req: MockRequest) => Response | Promise<Response>;
+
+interface MockRoute {
+    service: ServiceName | ServiceName[];
+    method: string;
+    pattern: RegExp;
+    handler: MockHandler;
+    public?: boolean;  // Public routes skip the session check
+    permission?: Permission | Permission[];  // Any one of them (lib/permissions); without it, any signed-in account
+    passwordChange?: boolean;  // Open while the account must change its password; every other route answers 403
+}
+
+let mockState: MockState | null = null;
+
+function loadState(): MockState {
+    if (mockState) return mockState;
+
+    try {
+        const stored = sessionStorage.getItem(STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) as MockState : null;
+        if (parsed?.version === MOCK_STATE_VERSION) {
+            mockState = parsed;
+            return mockState;
+        }
+    } catch (error) {
+        console.warn('Failed to load mock backend state:', error);
+    }
+
+    mockState = createMockState(DEFAULT_SEED);
+    saveState(mockState);
+    return mockState;
+}
+
+function saveState(state: MockState) {
+    try {
+        sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+        console.warn('Failed to persist mock backend state:', error);
+    }
+}
+
+/**
+ * Reset the mock backend to freshly seeded fixtures.
+ * Handy from the devtools console: `(await import('/src/lib/mockBackend.ts')).resetMockBackend(42)`
+ */
+export function resetMockBackend(seed = DEFAULT_SEED) {
+    mockState = createMockState(seed);
+    saveState(mockState);
+}
+
+// ==================== Response helpers ====================
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
+
+function error(message: string, status: number): Response {
+    return json({ error: message }, status);
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Like delay() but rejects with an AbortError so client timeouts can fire
+function abortableDelay(ms: number, signal?: AbortSignal | null) {
+    return new Promise<void>((resolve, reject) => {
+        const abort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('The operation was aborted.', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+        }, ms);
+        if (signal?.aborted) abort();
+        signal?.addEventListener('abort', abort);
+    });
+}
+
+function findCompany(state: MockState, companyYearId: string) {
+    return state.companies.find(c => c.companyYearId === companyYearId);
+}
+
+function sortedRounds(company: Company): Round[] {
+    return Object.values(company.rounds || {}).sort((a, b) => a.roundNumber - b.roundNumber);
+}
+
+// ?since= delta answers: records updated at or after `since`, and ids deleted after it
+function changedSince<T extends { updatedAt: Date | string }>(state: MockState, records: T[], since: string) {
+    const sinceTime = new Date(since).getTime();
+    return {
+        changed: records.filter(record => new Date(record.updatedAt).getTime() >= sinceTime),
+        deleted: Object.entries(state.deletedAt)
+            .filter(([, deletedAt]) => new Date(deletedAt).getTime() >= sinceTime)
+            .map(([id]) => id),
+    };
+}
+
+// Company list entries come back without the heavy rounds/placements records
+function summarizeCompany(company: Company): Company {
+    const summary = { ...company };
+    delete summary.rounds;
+    delete summary.placements;
+    return summary;
+}
+
+function studentStats(students: Student[]): StudentStats {
+    const placed = students.filter(s => s.currentStatus === 'placed').length;
+    const totalOffers = students.reduce((sum, s) => sum + s.totalOffers, 0);
+    return {
+        total: students.length,
+        placed,
+        notPlaced: students.length - placed,
+        totalOffers,
+        avgOffers: students.length > 0 ? parseFloat((totalOffers / students.length).toFixed(1)) : 0,
+    };
+}
+
+function roundRows(round: Round, query: URLSearchParams) {
+    const search = query.get('search')?.toLowerCase();
+    const status = query.get('status');
+
+    return Object.values(round.data).filter(row => {
+        if (status && row.status !== status) return false;
+        if (search) {
+            return Object.values(row.rowData).some(value => String(value).toLowerCase().includes(search));
+        }
+        return true;
+    });
+}
+
+// ==================== Audit log ====================
+
+const AUDIT_LOG_LIMIT = 2000;
+
+// Written by the handler that made the change, so clients can neither forge nor lose entries
+function recordAudit(
+    state: MockState,
+    req: MockRequest,
+    action: AuditAction,
+    target: AuditTarget,
+    summary: string,
+    outcome: AuditEntry['outcome'] = 'success'
+) {
+    const entry: AuditEntry = {
+        id: `audit_${state.nextId++}`,
+        actor: req.user?.username ?? 'unknown',
+        timestamp: new Date().toISOString(),
+        action,
+        target,
+        outcome,
+        summary,
+    };
+    state.auditLog = [entry, ...state.auditLog].slice(0, AUDIT_LOG_LIMIT);
+}
+
+// ==================== Auth ====================
+
+function startSession(userId: string) {
+    return { userId, expiresAt: Date.now() + TOKEN_TTL_MS };
+}
+
+function issueTokens(userId: string) {
+    return {
+        accessToken: `mock-access.${userId}.${Date.now()}`,
+        refreshToken: `mock-refresh.${userId}`,
+    };
+}
+
+// What the auth API returns for a user - never the password
+function publicUser(user: MockUser): User {
+    return {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        rollNumber: user.rollNumber ?? null,
+        mustChangePassword: !!user.mustChangePassword,
+    };
+}
+
+function userIdFromToken(token: unknown): string | null {
+    if (typeof token !== 'string') return null;
+    const [, userId] = token.split('.');
+    return userId || null;
+}
+
+const authRoutes: MockRoute[] = [
+    {
+        service: 'auth', method: 'POST', pattern: /^\/auth\/login$/, public: true,
+        handler: (state, req) => {
+            const { username, password } = req.body as { username: string; password: string };
+            const user = state.users.find(u => u.username === username && u.password === password);
+            if (!user) return error('Invalid username or password', 401);
+
+            state.sessions.auth = startSession(user.id);
+            state.refreshUserId = user.id;
+            return json({ user: publicUser(user), ...issueTokens(user.id) });
+        },
+    },
+    {
+        service: 'auth', method: 'POST', pattern: /^\/auth\/register$/, public: true,
+        handler: (state, req) => {
+            const { username, password, role } = req.body as { username: string; password: string; role: string };
+            if (state.users.some(u => u.username === username)) return error('Username already exists', 409);
+
+            const user = { id: `user_${state.nextId++}`, username, password, role };
+            state.users.push(user);
+            state.sessions.auth = startSession(user.id);
+            state.refreshUserId = user.id;
+            return json({ user: { id: user.id, username, role }, ...issueTokens(user.id) }, 201);
+        },
+    },
+    {
+        service: 'auth', method: 'POST', pattern: /^\/auth\/refresh$/, public: true,
+        handler: (state) => {
+            if (!state.refreshUserId) return error('Invalid refresh token', 401);
+
+            state.sessions.auth = startSession(state.refreshUserId);
+            return json({ message: 'Token refreshed', ...issueTokens(state.refreshUserId) });
+        },
+    },
+    {
+        service: ['excel', 'ai', 'delete'], method: 'POST', pattern: /^\/api\/auth\/set-token$/, public: true,
+        handler: (state, req) => {
+            const userId = userIdFromToken((req.body as { accessToken?: string })?.accessToken);
+            if (!userId || !state.users.some(u => u.id === userId)) return error('Invalid token', 401);
+
+            state.sessions[req.service] = startSession(userId);
+            return json({ message: 'Token set' });
+        },
+    },
+    {
+        service: 'auth', method: 'POST', pattern: /^\/auth\/logout$/, public: true,
+        handler: (state) => {
+            state.sessions.auth = null;
+            state.refreshUserId = null;
+            return json({ message: 'Logged out' });
+        },
+    },
+    {
+        service: ['excel', 'ai', 'delete'], method: 'POST', pattern: /^\/api\/auth\/logout$/, public: true,
+        handler: (state, req) => {
+            state.sessions[req.service] = null;
+            return json({ message: 'Logged out' });
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/auth\/me$/, passwordChange: true,
+        handler: (_state, req) => req.user ? json(publicUser(req.user)) : error('Authentication required', 401),
+    },
+    {
+        // Session probe used by the admin health panel to confirm set-token worked
+        service: ['excel', 'ai', 'delete'], method: 'GET', pattern: /^\/api\/auth\/me$/,
+        handler: (_state, req) => req.user ? json(publicUser(req.user)) : error('Authentication required', 401),
+    },
+    {
+        service: ['auth', 'excel', 'ai', 'delete'], method: 'GET', pattern: /^\/(api\/)?health$/, public: true,
+        handler: (_state, req) => json({ status: 'ok', service: req.service }),
+    },
+    {
+        service: 'auth', method: 'POST', pattern: /^\/auth\/change-password$/, passwordChange: true,
+        handler: (state, req) => {
+            const { currentPassword, newPassword } = req.body as { currentPassword: string; newPassword: string };
+            const user = req.user;
+            if (!user) return error('Authentication required', 401);
+            if (user.password !== currentPassword) return error('Current password is incorrect', 400);
+
+            user.password = newPassword;
+            user.mustChangePassword = false;
+            recordAudit(state, req, 'password.change', { type: 'user', id: user.id, label: user.username }, 'Password changed');
+            return json({ message: 'Password changed successfully' });
+        },
+    },
+];
+
+// ==================== Users (admin) ====================
+
+const userRoutes: MockRoute[] = [
+    {
+        service: 'auth', method: 'GET', pattern: /^\/users$/, permission: 'manage:users',
+        handler: (state) => json(state.users.map(publicUser)),
+    },
+    {
+        service: 'auth', method: 'POST', pattern: /^\/users$/, permission: 'manage:users',
+        handler: (state, req) => {
+            const { username, password, role, rollNumber } = req.body as { username: string; password: string; role: string; rollNumber?: string };
+            if (state.users.some(u => u.username === username)) return error('Username already exists', 409);
+
+            // Student accounts are linked to their record by roll number
+            const linkedRollNumber = role === 'student' ? rollNumber?.trim() || null : null;
+            const user = { id: `user_${state.nextId++}`, username, password, role, rollNumber: linkedRollNumber };
+            state.users.push(user);
+            recordAudit(state, req, 'user.create', { type: 'user', id: user.id, label: username },
+                `Created as ${role}${linkedRollNumber ? ` (roll number ${linkedRollNumber})` : ''}`);
+            return json({ message: 'User created', user: publicUser(user) }, 201);
+        },
+    },
+    {
+        service: 'auth', method: 'PUT', pattern: /^\/users\/([^/]+)\/role$/, permission: 'manage:users',
+        handler: (state, req) => {
+            const user = state.users.find(u => u.id === req.params[0]);
+            if (!user) return error('User not found', 404);
+
+            const { role, rollNumber } = req.body as { role: string; rollNumber?: string };
+            const linkedRollNumber = role === 'student' ? rollNumber?.trim() || null : null;
+            if (role === 'student' && !linkedRollNumber) return error('Student accounts need a roll number', 400);
+
+            user.role = role;
+            user.rollNumber = linkedRollNumber;
+            recordAudit(state, req, 'user.role-change', { type: 'user', id: user.id, label: user.username },
+                `Role set to ${role}${linkedRollNumber ? ` (roll number ${linkedRollNumber})` : ''}`);
+            return json({ message: 'Role updated' });
+        },
+    },
+    {
+        service: 'auth', method: 'DELETE', pattern: /^\/users\/([^/]+)$/, permission: 'manage:users',
+        handler: (state, req) => {
+            if (req.params[0] === req.user?.id) return error('You cannot delete your own account', 400);
+            const user = state.users.find(u => u.id === req.params[0]);
+            if (!user) return error('User not found', 404);
+
+            state.users = state.users.filter(u => u.id !== user.id);
+            recordAudit(state, req, 'user.delete', { type: 'user', id: user.id, label: user.username }, 'Account deleted');
+            return json({ message: 'User deleted' });
+        },
+    },
+    {
+        service: 'auth', method: 'POST', pattern: /^\/users\/([^/]+)\/reset-password$/, permission: 'manage:users',
+        handler: (state, req) => {
+            const user = state.users.find(u => u.id === req.params[0]);
+            if (!user) return error('User not found', 404);
+
+            // A one-time password: every other route answers 403 until the user replaces it
+            const newPassword = generatePassword();
+            user.password = newPassword;
+            user.mustChangePassword = true;
+            // Never the password itself
+            recordAudit(state, req, 'user.password-reset', { type: 'user', id: user.id, label: user.username },
+                'One-time password issued; change required at next login');
+            return json({ message: 'Password reset', newPassword, mustChangePassword: true });
+        },
+    },
+];
+
+// ==================== Placement data ====================
+
+const dataRoutes: MockRoute[] = [
+    {
+        service: 'auth', method: 'GET', pattern: /^\/years$/, permission: 'view:analytics',
+        handler: (state) => json(buildYearAnalytics(state)),
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/companies$/, permission: ['view:companies', 'view:own-placement'],
+        handler: (state, req) => {
+            const since = req.query.get('since');
+            if (!since) return json(state.companies.map(summarizeCompany));
+            const { changed, deleted } = changedSince(state, state.companies, since);
+            return json({ companies: changed.map(summarizeCompany), deleted });
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/companies\/([^/]+)$/, permission: 'view:companies',
+        handler: (state, req) => {
+            const company = findCompany(state, req.params[0]);
+            if (!company) return error('Company not found', 404);
+            return json({ ...summarizeCompany(company), placements: company.placements || {} });
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/companies\/([^/]+)\/rounds$/, permission: 'view:rounds',
+        handler: (state, req) => {
+            const company = findCompany(state, req.params[0]);
+            if (!company) return error('Company not found', 404);
+            return json(sortedRounds(company));
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/companies\/([^/]+)\/rounds\/([^/]+)\/data$/, permission: 'view:rounds',
+        handler: (state, req) => {
+            const round = findCompany(state, req.params[0])?.rounds?.[req.params[1]];
+            if (!round) return error('Round not found', 404);
+
+            const rows = roundRows(round, req.query);
+            const limit = Number(req.query.get('limit')) || 50;
+            const offset = Number(req.query.get('cursor')) || 0;
+            const hasMore = offset + limit < rows.length;
+            return json({
+                data: rows.slice(offset, offset + limit),
+                nextCursor: hasMore ? String(offset + limit) : null,
+                hasMore,
+            });
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/companies\/([^/]+)\/rounds\/([^/]+)\/stats$/, permission: 'view:rounds',
+        handler: (state, req) => {
+            const round = findCompany(state, req.params[0])?.rounds?.[req.params[1]];
+            if (!round) return error('Round not found', 404);
+
+            const rows = roundRows(round, req.query);
+            return json({
+                qualified: rows.filter(r => r.status === 'qualified').length,
+                not_qualified: rows.filter(r => r.status === 'not_qualified').length,
+                pending: rows.filter(r => r.status === 'pending').length,
+                total: rows.length,
+            });
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/students$/, permission: 'view:students',
+        handler: (state, req) => {
+            const since = req.query.get('since');
+            if (!since) return json({ students: state.students });
+            const { changed, deleted } = changedSince(state, state.students, since);
+            return json({ students: changed, deleted });
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/students\/me$/, permission: 'view:own-placement',
+        handler: (state, req) => {
+            if (!req.user) return error('Authentication required', 401);
+            const { rollNumber } = req.user;
+            if (!rollNumber) return error('No student record is linked to this account', 404);
+
+            const student = state.students.find(s => s.rollNumber.toLowerCase() === rollNumber.toLowerCase());
+            return student ? json(student) : error(`No student record with roll number ${rollNumber}`, 404);
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/students\/stats$/, permission: 'view:students',
+        handler: (state) => json(studentStats(state.students)),
+    },
+    {
+        service: 'auth', method: 'POST', pattern: /^\/students$/, permission: 'create:student',
+        handler: (state, req) => {
+            const { name, rollNumber, email } = req.body as { name: string; rollNumber: string; email: string };
+            if (state.students.some(s => s.rollNumber.toLowerCase() === rollNumber.toLowerCase())) {
+                return error(`Student with roll number ${rollNumber} already exists`, 409);
+            }
+
+            const studentId = `student_${Date.now()}_${state.nextId++}`;
+            state.students.push(createMockStudent(studentId, name, rollNumber, email));
+            recordAudit(state, req, 'student.create', { type: 'student', id: studentId, label: `${name} (${rollNumber})` }, `Created as ${studentId}`);
+            return json({ message: `Student ${name} created`, studentId }, 201);
+        },
+    },
+    {
+        service: 'auth', method: 'DELETE', pattern: /^\/students\/([^/]+)$/, permission: 'delete:student',
+        handler: (state, req) => {
+            const student = state.students.find(s => s.studentId === req.params[0]);
+            if (!student) return error('Student not found', 404);
+
+            let roundsDeleted = 0;
+            let placementsDeleted = 0;
+            const companiesAffected = new Set<string>();
+            state.companies.forEach(company => {
+                Object.values(company.rounds || {}).forEach(round => {
+                    Object.entries(round.data).forEach(([rowId, row]) => {
+                        if (row.studentId !== student.studentId) return;
+                        delete round.data[rowId];
+                        round.studentCount--;
+                        roundsDeleted++;
+                        companiesAffected.add(company.companyYearId);
+                    });
+                });
+                if (company.placements?.[student.studentId]) {
+                    delete company.placements[student.studentId];
+                    placementsDeleted++;
+                }
+            });
+
+            const yearsAffected = new Set(Object.values(student.companyStatus).map(s => s.year)).size;
+            state.students = state.students.filter(s => s.studentId !== student.studentId);
+            state.deletedAt[student.studentId] = new Date().toISOString();
+            recomputeDerived(state);
+            recordAudit(state, req, 'student.delete', { type: 'student', id: student.studentId, label: `${student.name} (${student.rollNumber})` },
+                `Removed ${roundsDeleted} round rows and ${placementsDeleted} placements across ${companiesAffected.size} companies`);
+
+            return json({
+                message: `Student ${student.name} deleted`,
+                studentId: student.studentId,
+                studentName: student.name,
+                cascadingUpdates: {
+                    companiesAffected: companiesAffected.size,
+                    roundsDeleted,
+                    placementsDeleted,
+                    yearsAffected,
+                },
+            });
+        },
+    },
+    {
+        service: 'auth', method: 'GET', pattern: /^\/summary\/dashboard$/, permission: 'view:dashboard',
+        handler: (state) => {
+            const years = buildYearAnalytics(state);
+            const summary: DashboardSummary = {
+                counts: {
+                    years: years.length,
+                    companies: state.companies.length,
+                    students: state.students.length,
+                },
+                stats: {
+                    totalCompanies: state.companies.length,
+                    completedCompanies: state.companies.filter(c => c.status === 'completed').length,
+                    runningCompanies: state.companies.filter(c => c.status === 'running').length,
+                    totalPlaced: state.students.filter(s => s.currentStatus === 'placed').length,
+                },
+                latestYear: years[years.length - 1] ?? null,
+                recentCompanies: [...state.companies]
+                    .sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)))
+                    .slice(0, 5)
+                    .map(summarizeCompany),
+            };
+            return json(summary);
+        },
+    },
+];
+
+// ==================== Excel service ====================
+
+// .xlsx and .csv sheets are parsed with the same reader the upload preview uses and
+// matched on the roll number column (the client's mapping wins when it sends one).
+// Anything unreadable falls back to rows synthesised from the previous round.
+async function readUploadedSheet(file: File, form: FormData): Promise<{ sheet: ParsedSheet; mapping: ColumnMapping } | null> {
+    if (!canPreviewFile(file)) return null;
+
+    try {
+        const sheet = await parseSheetFile(file);
+        const sentMapping = form.get('columnMapping');
+        const mapping = sentMapping ? JSON.parse(String(sentMapping)) as ColumnMapping : detectColumnMapping(sheet);
+        return { sheet, mapping };
+    } catch {
+        return null;
+    }
+}
+
+const excelRoutes: MockRoute[] = [
+    {
+        service: 'excel', method: 'POST', pattern: /^\/api\/upload-round$/, permission: 'upload:round',
+        handler: async (state, req) => {
+            const form = req.body as FormData;
+            const file = form.get('file');
+            const companyName = String(form.get('company') || '').trim();
+            const year = Number(form.get('year'));
+            const isFinal = form.get('isFinal') === 'true';
+
+            if (!(file instanceof File)) return json({ success: false, error: 'No file uploaded' }, 400);
+            if (!companyName || !year) return json({ success: false, error: 'Company and year are required' }, 400);
+
+            const companyYearId = toCompanyYearId(companyName, year);
+            const reject = (message: string) => {
+                recordAudit(state, req, 'round.upload', { type: 'round', id: companyYearId, label: `${companyName} ${year}` }, `${file.name}: ${message}`, 'failure');
+                return json({ success: false, error: message }, 400);
+            };
+
+            const upload = await readUploadedSheet(file, form);
+            if (upload && !upload.mapping.rollNumber) {
+                return reject('Could not find a roll number column in the sheet');
+            }
+
+            let company = findCompany(state, companyYearId);
+            if (company?.status === 'completed') {
+                return reject(`${companyName} ${year} is already completed`);
+            }
+            if (!company) {
+                const now = new Date().toISOString();
+                company = {
+                    companyYearId, companyName, year, status: 'running',
+                    currentRound: 0, finalRound: null, totalRounds: 0, totalPlaced: 0, totalApplied: 0,
+                    createdAt: now, updatedAt: now, rounds: {}, placements: {},
+                };
+                state.companies.push(company);
+                delete state.deletedAt[companyYearId];
+            }
+
+            const previousRound = sortedRounds(company).pop();
+            const roundNumber = Number(form.get('roundNumber')) || (previousRound?.roundNumber ?? 0) + 1;
+            const random = createRandom(state.seed + roundNumber + companyYearId.length);
+
+            let newStudents = 0;
+            let roundRows: { student: Student | null; rowData: Record<string, string | number> }[];
+            let rawColumns = [...MOCK_ROUND_COLUMNS];
+            if (upload) {
+                const { sheet, mapping } = upload;
+                const cell = (row: Record<string, string | number>, column: string | null) =>
+                    column ? String(row[column] ?? '').trim() : '';
+
+                roundRows = sheet.rows.map(row => {
+                    const rollNumber = cell(row, mapping.rollNumber);
+                    if (!rollNumber) return { student: null, rowData: row };
+
+                    let student = state.students.find(s => s.rollNumber.toLowerCase() === rollNumber.toLowerCase());
+                    if (!student) {
+                        newStudents++;
+                        student = createMockStudent(
+                            `student_${Date.now()}_${state.nextId++}`,
+                            cell(row, mapping.name) || rollNumber,
+                            rollNumber,
+                            cell(row, mapping.email)
+                        );
+                        state.students.push(student);
+                    }
+                    return { student, rowData: row };
+                });
+                const sentColumns = form.get('rawColumns');
+                rawColumns = sentColumns ? JSON.parse(String(sentColumns)) as string[] : sheet.columns;
+            } else {
+                const previousIds = previousRound
+                    ? new Set(Object.values(previousRound.data).map(row => row.studentId))
+                    : null;
+                roundRows = state.students
+                    .filter(s => previousIds ? previousIds.has(s.studentId) && random() < 0.6 : random() < 0.4)
+                    .map(student => ({ student, rowData: toRoundRow(student, '', 40 + Math.floor(random() * 60)) }));
+            }
+
+            const data: Record<string, RoundData> = {};
+            roundRows.forEach(({ student, rowData }, index) => {
+                data[`row_${index + 1}`] = {
+                    rowData,
+                    studentId: student?.studentId ?? null,
+                    status: isFinal ? 'qualified' : 'pending',
+                };
+                if (isFinal && student) {
+                    company!.placements![student.studentId] = {
+                        rowData,
+                        timestamp: new Date().toISOString(),
+                    };
+                }
+            });
+            const linkedRows = roundRows.filter(row => row.student).length;
+
+            const roundId = `round_${roundNumber}`;
+            company.rounds![roundId] = {
+                roundId,
+                roundNumber,
+                roundName: String(form.get('roundName') || '') || null,
+                rawColumns,
+                studentCount: roundRows.length,
+                isFinalRound: isFinal,
+                timestamp: new Date().toISOString(),
+                data,
+            };
+            company.updatedAt = new Date().toISOString();
+            recomputeDerived(state);
+            recordAudit(state, req, 'round.upload', { type: 'round', id: `${companyYearId}/${roundId}`, label: `${companyName} ${year} round ${roundNumber}` },
+                `${file.name}: ${roundRows.length} rows, ${linkedRows - newStudents} matched, ${newStudents} new students`
+                + (isFinal ? `, ${linkedRows} placed` : ''));
+
+            const response: UploadResponse = {
+                success: true,
+                message: `Round ${roundNumber} uploaded for ${companyName}`,
+                data: {
+                    companyYearId,
+                    roundId,
+                    totalStudents: roundRows.length,
+                    matchedStudents: linkedRows - newStudents,
+                    newStudents,
+                    placedStudents: isFinal ? linkedRows : 0,
+                    isFinalRound: isFinal,
+                },
+            };
+            return json(response);
+        },
+    },
+];
+
+// ==================== Delete service ====================
+
+const deleteRoutes: MockRoute[] = [
+    {
+        service: 'delete', method: 'DELETE', pattern: /^\/api\/companies\/([^/]+)$/, permission: 'delete:company',
+        handler: (state, req) => {
+            const company = findCompany(state, req.params[0]);
+            if (!company) return error('Company not found', 404);
+
+            const studentsUpdated = state.students.filter(s => s.companyStatus[company.companyYearId]).length;
+            state.companies = state.companies.filter(c => c.companyYearId !== company.companyYearId);
+            state.deletedAt[company.companyYearId] = new Date().toISOString();
+            recomputeDerived(state);
+            recordAudit(state, req, 'company.delete', { type: 'company', id: company.companyYearId, label: `${company.companyName} ${company.year}` },
+                `Deleted ${Object.keys(company.rounds || {}).length} rounds and ${Object.keys(company.placements || {}).length} placements; updated ${studentsUpdated} students`);
+
+            const response: DeleteCompanyResponse = {
+                message: `${company.companyName} deleted`,
+                deleted: {
+                    rounds: Object.keys(company.rounds || {}).length,
+                    placements: Object.keys(company.placements || {}).length,
+                    students_updated: studentsUpdated,
+                },
+            };
+            return json(response);
+        },
+    },
+    {
+        service: 'delete', method: 'DELETE', pattern: /^\/api\/companies\/([^/]+)\/rounds\/([^/]+)$/, permission: 'delete:round',
+        handler: (state, req) => {
+            const company = findCompany(state, req.params[0]);
+            const round = company?.rounds?.[req.params[1]];
+            if (!company || !round) return error('Round not found', 404);
+
+            const studentIds = new Set(Object.values(round.data).map(row => row.studentId));
+            delete company.rounds![req.params[1]];
+            if (round.isFinalRound) {
+                company.placements = {};
+            }
+            company.updatedAt = new Date().toISOString();
+            recomputeDerived(state);
+            recordAudit(state, req, 'round.delete', { type: 'round', id: `${company.companyYearId}/${round.roundId}`, label: `${company.companyName} ${company.year} round ${round.roundNumber}` },
+                `Deleted ${Object.keys(round.data).length} rows; updated ${studentIds.size} students; company now ${company.status}`);
+
+            const response: DeleteRoundResponse = {
+                message: `Round ${round.roundNumber} deleted`,
+                deleted: {
+                    data_rows: Object.keys(round.data).length,
+                    students_updated: studentIds.size,
+                },
+                company_updated: { status: company.status },
+            };
+            return json(response);
+        },
+    },
+];
+
+// ==================== AI service (SSE) ====================
+
+function buildAIEvents(state: MockState, query: string): Record<string, unknown>[] {
+    const q = query.toLowerCase();
+    const events: Record<string, unknown>[] = [
+        { type: 'iteration', iteration: 1, message: 'Analyzing your question...' },
+    ];
+
+    if (q.includes('compan')) {
+        events.push(
+            { type: 'ai_decision', iteration: 1, decision: 'get_companies', reason: 'The question is about recruiting companies' },
+            { type: 'function_start', iteration: 1, function: 'get_companies', params: {} },
+            { type: 'function_result', iteration: 1, function: 'get_companies', success: true, message: 'Fetched companies', count: state.companies.length },
+            { type: 'huge_data_init', huge_data: true, headers: ['Company', 'Year', 'Status', 'Placed'], count: state.companies.length, ai_summary: `${state.companies.length} companies found` },
+            ...state.companies.map((c, index) => ({
+                type: 'huge_data_row', index, row: { Company: c.companyName, Year: c.year, Status: c.status, Placed: c.totalPlaced },
+            })),
+            { type: 'final', final: true, iterations: 1, response: `There are **${state.companies.length}** companies in the database.` },
+        );
+    } else if (q.includes('student')) {
+        events.push(
+            { type: 'ai_decision', iteration: 1, decision: 'get_students', reason: 'The question is about students' },
+            { type: 'function_start', iteration: 1, function: 'get_students', params: {} },
+            { type: 'function_result', iteration: 1, function: 'get_students', success: true, message: 'Fetched students', count: state.students.length },
+            { type: 'huge_data_init', huge_data: true, headers: ['Roll Number', 'Name', 'Status', 'Offers'], count: state.students.length, ai_summary: `${state.students.length} students found` },
+            ...state.students.map((s, index) => ({
+                type: 'huge_data_row', index, row: { 'Roll Number': s.rollNumber, Name: s.name, Status: s.currentStatus, Offers: s.totalOffers },
+            })),
+            { type: 'final', final: true, iterations: 1, response: `Found **${state.students.length}** students.` },
+        );
+    } else {
+        const stats = studentStats(state.students);
+        events.push(
+            { type: 'ai_decision', iteration: 1, decision: 'get_statistics', reason: 'General placement question' },
+            { type: 'function_start', iteration: 1, function: 'get_statistics', params: {} },
+            { type: 'function_result', iteration: 1, function: 'get_statistics', success: true, message: 'Computed placement statistics' },
+            { type: 'final', final: true, iterations: 1, response: `**${stats.placed}** of ${stats.total} students are placed with ${stats.totalOffers} offers in total.` },
+        );
+    }
+
+    return events;
+}
+
+const aiRoutes: MockRoute[] = [
+    {
+        service: 'ai', method: 'POST', pattern: /^\/api\/stream$/, permission: 'use:assistant',
+        handler: (state, req) => {
+            const { query } = (req.body || {}) as { query?: string };
+            if (!query) return error('Query is required', 400);
+
+            const events = buildAIEvents(state, query);
+            const encoder = new TextEncoder();
+            const stream = new ReadableStream<Uint8Array>({
+                async start(controller) {
+                    for (const event of events) {
+                        // Stream the "thinking" events slowly, bulk rows at once
+                        if (event.type !== 'huge_data_row') await delay(150);
+                        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+                    }
+                    controller.close();
+                },
+            });
+
+            return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+        },
+    },
+];
+
+// ==================== Audit log ====================
+
+const auditRoutes: MockRoute[] = [
+    {
+        service: 'auth', method: 'GET', pattern: /^\/audit-log$/, permission: 'view:audit',
+        handler: (state) => json(state.auditLog),
+    },
+];
+
+const routes: MockRoute[] = [...authRoutes, ...userRoutes, ...dataRoutes, ...excelRoutes, ...deleteRoutes, ...aiRoutes, ...auditRoutes];
+
+// ==================== Entry point ====================
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+    if (body instanceof FormData) return body;
+    if (typeof body === 'string') {
+        try {
+            return JSON.parse(body);
+        } catch {
+            return body;
+        }
+    }
+    return body ?? null;
+}
+
+// Extra option the api.ts transport passes instead of switching to XHR
+export type MockRequestInit = RequestInit & {
+    onUploadProgress?: (loaded: number, total: number) => void;
+};
+
+const UPLOAD_BYTES_PER_MS = 2000;  // ~2 MB/s simulated upload speed
+
+// Report upload progress in ten steps, as a slow connection would
+async function simulateUploadProgress(body: BodyInit | null | undefined, init: MockRequestInit) {
+    if (!init.onUploadProgress || !(body instanceof FormData)) return;
+
+    let total = 0;
+    body.forEach(value => {
+        total += typeof value === 'string' ? value.length : value.size;
+    });
+
+    const stepMs = Math.max(60, total / UPLOAD_BYTES_PER_MS / 10);
+    for (let step = 1; step <= 10; step++) {
+        await abortableDelay(stepMs, init.signal);
+        init.onUploadProgress(Math.round((total * step) / 10), total);
+    }
+}
+
+/**
+ * Create a fetch-compatible function that serves requests for the given
+ * service base URLs from the mock state. Unknown URLs fall through to a 404.
+ */
+export function createMockFetch(serviceUrls: Record<ServiceName, string>) {
+    return async (input: RequestInfo | URL, init: MockRequestInit = {}): Promise<Response> => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        const method = (init.method || 'GET').toUpperCase();
+
+        const match = (Object.entries(serviceUrls) as [ServiceName, string][])
+            .find(([, baseUrl]) => url.startsWith(baseUrl));
+        if (!match) {
+            return error(`Mock backend: unknown service for ${url}`, 404);
+        }
+
+        const [service, baseUrl] = match;
+        const { pathname, searchParams } = new URL(url.slice(baseUrl.length) || '/', 'http://mock');
+
+        await delay(LATENCY_MS);
+        if (COLD_START_MS > 0) {
+            if (!bootedAt.has(service)) bootedAt.set(service, Date.now() + COLD_START_MS);
+            await abortableDelay(bootedAt.get(service)! - Date.now(), init.signal);
+        }
+        await simulateUploadProgress(init.body, init);
+
+        const state = loadState();
+        for (const route of routes) {
+            const services = Array.isArray(route.service) ? route.service : [route.service];
+            const params = pathname.match(route.pattern);
+            if (!params || route.method !== method || !services.includes(service)) continue;
+
+            const session = state.sessions[service];
+            const userId = session && session.expiresAt > Date.now() ? session.userId : null;
+            // A live session whose account was deleted meanwhile counts as logged out
+            const user = state.users.find(u => u.id === userId) ?? null;
+            if (!route.public && !user) {
+                return error('Authentication required', 401);
+            }
+            if (!route.public && !route.passwordChange && user?.mustChangePassword) {
+                return error('Change your one-time password before continuing', 403);
+            }
+            // Same matrix as the UI's can(), so whatever it hides is refused here too
+            const required = typeof route.permission === 'string' ? [route.permission] : route.permission ?? [];
+            if (!route.public && required.length > 0 && !required.some(permission => permissionsForRole(user?.role).has(permission))) {
+                return error(`Your role does not allow this: ${PERMISSION_LABELS[required[0]]}`, 403);
+            }
+
+            const response = await route.handler(state, {
+                service,
+                method,
+                params: params.slice(1),
+                query: searchParams,
+                body: parseBody(init.body),
+                user: route.public ? null : user,
+            });
+
+            if (method !== 'GET') saveState(state);
+            return response;
+        }
+
+        return error(`Mock backend: no route for ${method} ${pathname}`, 404);
+    };
+}
@@ -0,0 +1,308 @@
+/**
+ * Mock Fixtures - Seedable fixture data for the in-browser mock backend
+ * Same seed = same companies, rounds and students on every machine
+ */
+import { AuditEntry, Company, CompanyStatus, Placement, Round, RoundData, Student, User, YearAnalytics } from '../types';
+
+export interface MockUser extends User {
+    password: string;
+}
+
+export interface MockSession {
+    userId: string;
+    expiresAt: number;  // Access token expiry (ms epoch)
+}
+
+// Bump when the MockState shape changes so stale sessionStorage copies are reseeded
+export const MOCK_STATE_VERSION = 5;
+
+export interface MockState {
+    version: number;
+    seed: number;
+    users: MockUser[];
+    companies: Company[];   // Includes rounds + placements records
+    students: Student[];
+    deletedAt: Record<string, string>;  // studentId / companyYearId -> ISO time, answers ?since= delta requests
+    auditLog: AuditEntry[];             // Newest first
+    sessions: Record<string, MockSession | null>;  // service -> access cookie
+    refreshUserId: string | null;  // Holder of the auth API refresh cookie
+    nextId: number;
+}
+
+const COMPANY_NAMES = [
+    'Accenture', 'Amazon', 'Capgemini', 'Cognizant', 'Deloitte', 'Google', 'HCL', 'Infosys',
+    'Microsoft', 'Oracle', 'TCS', 'Tech Mahindra', 'Wipro', 'Zoho',
+];
+
+const ROUND_NAMES = ['Aptitude Test', 'Technical Round', 'Coding Round', 'HR Round'];
+
+const FIRST_NAMES = [
+    'Aarav', 'Aditi', 'Akhil', 'Ananya', 'Arjun', 'Bhavana', 'Charan', 'Divya', 'Harsha', 'Ishita',
+    'Karthik', 'Keerthi', 'Manoj', 'Meghana', 'Nikhil', 'Pooja', 'Rahul', 'Sai', 'Sneha', 'Vamsi',
+];
+
+const LAST_NAMES = ['Reddy', 'Rao', 'Sharma', 'Naidu', 'Varma', 'Kumar', 'Goud', 'Chowdary', 'Patel', 'Iyer'];
+
+const BRANCHES = ['CSE', 'IT', 'ECE', 'EEE', 'MECH'];
+
+export const MOCK_ROUND_COLUMNS = ['Roll Number', 'Name', 'Email', 'Branch', 'Score'];
+
+// Deterministic PRNG (mulberry32) so fixtures are reproducible from a seed
+export function createRandom(seed: number) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function toCompanyYearId(companyName: string, year: number) {
+    return `${companyName.toLowerCase().replace(/[^a-z0-9]+/g, '_')}_${year}`;
+}
+
+export function createMockStudent(studentId: string, name: string, rollNumber: string, email: string): Student {
+    return {
+        studentId,
+        name,
+        rollNumber,
+        email,
+        companyStatus: {},
+        selectedCompanies: [],
+        currentStatus: 'not_placed',
+        totalOffers: 0,
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+export function toRoundRow(student: Student, branch: string, score: number): Record<string, string | number> {
+    return {
+        'Roll Number': student.rollNumber,
+        'Name': student.name,
+        'Email': student.email,
+        'Branch': branch,
+        'Score': score,
+    };
+}
+
+/**
+ * Build a fresh mock state from a seed.
+ * Companies are spread over the last two years; older drives are completed,
+ * recent ones are still running so every page has something to show.
+ */
+export function createMockState(seed = 2024, studentCount = 120): MockState {
+    const random = createRandom(seed);
+    const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+    const now = new Date();
+    const currentYear = now.getFullYear();
+
+    const students: Student[] = [];
+    const branchByStudent: Record<string, string> = {};
+    for (let i = 0; i < studentCount; i++) {
+        const first = pick(FIRST_NAMES);
+        const last = pick(LAST_NAMES);
+        const branch = pick(BRANCHES);
+        const rollNumber = `${String(currentYear - 4).slice(2)}951A${branch === 'CSE' ? '05' : '12'}${String(i + 1).padStart(3, '0')}`;
+        const studentId = `student_${i + 1}`;
+        students.push(createMockStudent(
+            studentId,
+            `${first} ${last}`,
+            rollNumber,
+            `${first.toLowerCase()}.${rollNumber.toLowerCase()}@iare.ac.in`
+        ));
+        branchByStudent[studentId] = branch;
+    }
+
+    const companies: Company[] = [];
+    const years = [currentYear - 1, currentYear];
+    years.forEach((year, yearIndex) => {
+        const names = [...COMPANY_NAMES].sort(() => random() - 0.5).slice(0, 6);
+        names.forEach((companyName, companyIndex) => {
+            const isCompleted = yearIndex === 0 || companyIndex < 3;
+            const totalRounds = 2 + Math.floor(random() * 3);
+            const createdAt = new Date(year, 1 + companyIndex, 1 + Math.floor(random() * 25)).toISOString();
+
+            const rounds: Record<string, Round> = {};
+            const placements: Record<string, Placement> = {};
+            let pool = students.filter(() => random() < 0.45);
+
+            for (let roundNumber = 1; roundNumber <= totalRounds; roundNumber++) {
+                const isFinalRound = isCompleted && roundNumber === totalRounds;
+                const data: Record<string, RoundData> = {};
+                pool.forEach((student, rowIndex) => {
+                    data[`row_${rowIndex + 1}`] = {
+                        rowData: toRoundRow(student, branchByStudent[student.studentId], 40 + Math.floor(random() * 60)),
+                        studentId: student.studentId,
+                        status: isFinalRound ? 'qualified' : 'pending',
+                    };
+                    if (isFinalRound) {
+                        placements[student.studentId] = {
+                            rowData: toRoundRow(student, branchByStudent[student.studentId], 100),
+                            timestamp: createdAt,
+                        };
+                    }
+                });
+
+                const roundId = `round_${roundNumber}`;
+                rounds[roundId] = {
+                    roundId,
+                    roundNumber,
+                    roundName: isFinalRound ? 'Final Selection' : ROUND_NAMES[(roundNumber - 1) % ROUND_NAMES.length],
+                    rawColumns: [...MOCK_ROUND_COLUMNS],
+                    studentCount: pool.length,
+                    isFinalRound,
+                    timestamp: createdAt,
+                    data,
+                };
+
+                // Roughly half the students move on to the next round
+                pool = pool.filter(() => random() < 0.55);
+            }
+
+            companies.push({
+                companyYearId: toCompanyYearId(companyName, year),
+                companyName,
+                year,
+                status: 'running',
+                currentRound: 0,
+                finalRound: null,
+                totalRounds: 0,
+                totalPlaced: 0,
+                totalApplied: 0,
+                createdAt,
+                updatedAt: createdAt,
+                rounds,
+                placements,
+            });
+        });
+    });
+
+    const state: MockState = {
+        version: MOCK_STATE_VERSION,
+        seed,
+        users: [
+            { id: 'user_admin', username: 'admin', password: 'admin123', role: 'admin' },
+            { id: 'user_faculty', username: 'faculty', password: 'faculty123', role: 'faculty' },
+            { id: 'user_student', username: students[0].rollNumber.toLowerCase(), password: 'student123', role: 'student', rollNumber: students[0].rollNumber },
+        ],
+        companies,
+        students,
+        deletedAt: {},
+        auditLog: [],
+        sessions: {},
+        refreshUserId: null,
+        nextId: 1,
+    };
+
+    recomputeDerived(state, false);
+    return state;
+}
+
+const derivedStudentFields = (s: Student) =>
+    JSON.stringify([s.companyStatus, s.selectedCompanies, s.totalOffers, s.currentStatus]);
+
+const derivedCompanyFields = (c: Company) =>
+    JSON.stringify([c.totalRounds, c.currentRound, c.finalRound, c.status, c.totalApplied, c.totalPlaced]);
+
+/**
+ * Recompute every derived field (company counters, student statuses)
+ * from the raw round data. Called after each mutation so the mock
+ * stays consistent the same way the real backend does. Records whose
+ * derived fields changed get a new updatedAt unless `stampChanges` is off
+ * (seeding), so delta sync picks them up.
+ */
+export function recomputeDerived(state: MockState, stampChanges = true) {
+    const derivedBefore = new Map<string, string>([
+        ...state.students.map(s => [s.studentId, derivedStudentFields(s)] as const),
+        ...state.companies.map(c => [c.companyYearId, derivedCompanyFields(c)] as const),
+    ]);
+
+    state.students.forEach(student => {
+        student.companyStatus = {};
+        student.selectedCompanies = [];
+    });
+    const studentsById = new Map(state.students.map(s => [s.studentId, s]));
+
+    state.companies.forEach(company => {
+        const rounds = Object.values(company.rounds || {}).sort((a, b) => a.roundNumber - b.roundNumber);
+        const finalRound = rounds.find(r => r.isFinalRound) || null;
+
+        company.totalRounds = rounds.length;
+        company.currentRound = rounds.length > 0 ? rounds[rounds.length - 1].roundNumber : 0;
+        company.finalRound = finalRound ? finalRound.roundNumber : null;
+        company.status = finalRound ? 'completed' : 'running';
+        company.totalApplied = rounds.length > 0 ? rounds[0].studentCount : 0;
+        company.totalPlaced = Object.keys(company.placements || {}).length;
+
+        rounds.forEach(round => {
+            Object.values(round.data).forEach(row => {
+                const student = row.studentId ? studentsById.get(row.studentId) : undefined;
+                if (!student) return;
+
+                const existing = student.companyStatus[company.companyYearId];
+                const status: CompanyStatus = {
+                    status: 'in_process',
+                    roundReached: Math.max(existing?.roundReached ?? 0, round.roundNumber),
+                    finalSelection: null,
+                    year: company.year,
+                };
+                student.companyStatus[company.companyYearId] = status;
+            });
+        });
+
+        state.students.forEach(student => {
+            const status = student.companyStatus[company.companyYearId];
+            if (!status || !finalRound) return;
+
+            const isSelected = !!company.placements?.[student.studentId];
+            status.status = isSelected ? 'selected' : 'not_selected';
+            status.finalSelection = isSelected;
+            if (isSelected) {
+                student.selectedCompanies.push(company.companyName);
+            }
+        });
+    });
+
+    state.students.forEach(student => {
+        student.totalOffers = student.selectedCompanies.length;
+        student.currentStatus = student.totalOffers > 0 ? 'placed' : 'not_placed';
+    });
+
+    if (!stampChanges) return;
+    const now = new Date().toISOString();
+    state.students.forEach(student => {
+        if (derivedBefore.get(student.studentId) !== derivedStudentFields(student)) student.updatedAt = now;
+    });
+    state.companies.forEach(company => {
+        if (derivedBefore.get(company.companyYearId) !== derivedCompanyFields(company)) company.updatedAt = now;
+    });
+}
+
+
+// Year-wise analytics, derived on demand like the /years endpoint
+export function buildYearAnalytics(state: MockState): YearAnalytics[] {
+    const years = Array.from(new Set(state.companies.map(c => c.year))).sort((a, b) => a - b);
+
+    return years.map(year => {
+        const companies = state.companies.filter(c => c.year === year);
+        const participated = state.students.filter(s =>
+            Object.values(s.companyStatus).some(status => status.year === year)
+        );
+
+        return {
+            year,
+            totalCompanies: companies.length,
+            completedCompanies: companies.filter(c => c.status === 'completed').length,
+            runningCompanies: companies.filter(c => c.status === 'running').length,
+            totalPlaced: companies.reduce((sum, c) => sum + c.totalPlaced, 0),
+            totalStudentsParticipated: participated.length,
+            companyWise: Object.fromEntries(companies.map(c => [c.companyYearId, {
+                companyName: c.companyName,
+                placed: c.totalPlaced,
+                status: c.status,
+            }])),
+        };
+    });
+}
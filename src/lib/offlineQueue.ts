@@ -0,0 +1,190 @@
+/**
+ * Offline Queue - Writes made without a connection, kept until they are replayed
+ *
+ * Student creates/deletes and round uploads made offline are stored here
+ * (IndexedDB, so queued sheet files survive a reload) and replayed from the
+ * Offline Changes page once the connection is back. Before a replay the
+ * mutation is compared with fresh server data so conflicting changes are
+ * shown instead of silently overwriting someone else's work.
+ */
+import { Round, Student } from '../types';
+import { OfflineMutation, QueuedMutation } from '../types/offline';
+import { describeUploadRound } from './uploadUtils';
+
+// The browser's own guess - a lab network can still be "online" with no route out
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// ==================== Storage ====================
+
+const DB_NAME = 'placement-offline';
+const DB_VERSION = 1;
+const STORE = 'mutations';   // QueuedMutation, keyed by id
+
+interface OfflineQueueBackend {
+    getAll(): Promise<QueuedMutation[]>;
+    put(item: QueuedMutation): Promise<void>;
+    delete(id: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+const requestResult = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE)) {
+                request.result.createObjectStore(STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Offline queue database is blocked by another tab'));
+    });
+}
+
+async function createIndexedDbBackend(): Promise<OfflineQueueBackend> {
+    const db = await openDatabase();
+    const store = (mode: IDBTransactionMode) => db.transaction(STORE, mode).objectStore(STORE);
+
+    return {
+        async getAll() {
+            return await requestResult(store('readonly').getAll()) as QueuedMutation[];
+        },
+        async put(item) {
+            await requestResult(store('readwrite').put(item));
+        },
+        async delete(id) {
+            await requestResult(store('readwrite').delete(id));
+        },
+        async clear() {
+            await requestResult(store('readwrite').clear());
+        },
+    };
+}
+
+// Files cannot go to localStorage, so without IndexedDB the queue lasts until reload
+function createMemoryBackend(): OfflineQueueBackend {
+    const items = new Map<string, QueuedMutation>();
+    return {
+        async getAll() {
+            return Array.from(items.values());
+        },
+        async put(item) {
+            items.set(item.id, item);
+        },
+        async delete(id) {
+            items.delete(id);
+        },
+        async clear() {
+            items.clear();
+        },
+    };
+}
+
+let backendPromise: Promise<OfflineQueueBackend> | null = null;
+
+function getBackend(): Promise<OfflineQueueBackend> {
+    if (!backendPromise) {
+        backendPromise = (typeof indexedDB === 'undefined'
+            ? Promise.reject(new Error('IndexedDB is not available'))
+            : createIndexedDbBackend()
+        ).catch(error => {
+            console.warn('⚠️ IndexedDB unavailable - offline changes are kept in memory only:', error);
+            return createMemoryBackend();
+        });
+    }
+    return backendPromise;
+}
+
+export const offlineQueueStorage = {
+    // Oldest first; a replay interrupted by a reload goes back to pending
+    async loadAll(): Promise<QueuedMutation[]> {
+        const items = await (await getBackend()).getAll();
+        return items
+            .map(item => (item.status === 'replaying' ? { ...item, status: 'pending' as const } : item))
+            .sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    // Only `owner`'s items. An idle or expired logout keeps the queue so its owner gets it
+    // back on the next login; once anyone else logs in, the other accounts' items are dropped.
+    // Items without an owner were queued before owners were kept, when every logout cleared
+    // the queue, so they count as the current user's.
+    async loadForUser(owner: string): Promise<QueuedMutation[]> {
+        const items = await this.loadAll();
+        const foreign = items.filter(item => item.owner && item.owner !== owner);
+        if (foreign.length > 0) {
+            console.warn(`⚠️ Discarding ${foreign.length} offline change(s) queued by another account`);
+            await Promise.all(foreign.map(item => this.remove(item.id)));
+        }
+        return items.filter(item => !item.owner || item.owner === owner);
+    },
+
+    async save(item: QueuedMutation): Promise<void> {
+        await (await getBackend()).put(item);
+    },
+
+    async remove(id: string): Promise<void> {
+        await (await getBackend()).delete(id);
+    },
+
+    async clear(): Promise<void> {
+        await (await getBackend()).clear();
+    },
+};
+
+// ==================== Describing and checking mutations ====================
+
+export function describeOfflineMutation(mutation: OfflineMutation): { title: string; detail: string } {
+    switch (mutation.kind) {
+        case 'create-student':
+            return { title: `Add student ${mutation.payload.name}`, detail: `${mutation.payload.rollNumber} · ${mutation.payload.email}` };
+        case 'delete-student':
+            return { title: `Delete student ${mutation.student.name}`, detail: mutation.student.rollNumber };
+        case 'upload-round':
+            return {
+                title: `Upload ${mutation.input.companyName} ${mutation.input.year} - ${describeUploadRound(mutation.input)}`,
+                detail: mutation.input.file.name,
+            };
+    }
+}
+
+const sameRoll = (a: string, b: string) => a.trim().toUpperCase() === b.trim().toUpperCase();
+
+/**
+ * Compare a queued mutation with current server data. Returns why replaying
+ * it would clash with changes made since it was queued, or null when it is
+ * safe. `students` is needed for student mutations and `rounds` (the target
+ * company's, when it already exists) for uploads.
+ */
+export function findReplayConflict(mutation: OfflineMutation, current: {
+    students?: Student[];
+    rounds?: Round[];
+}): string | null {
+    switch (mutation.kind) {
+        case 'create-student': {
+            const existing = current.students?.find(student => sameRoll(student.rollNumber, mutation.payload.rollNumber));
+            return existing ? `Roll number ${existing.rollNumber} already belongs to ${existing.name}` : null;
+        }
+        case 'delete-student': {
+            if (!current.students) return null;
+            const existing = current.students.find(student => student.studentId === mutation.student.studentId);
+            if (!existing) return 'This student has already been deleted';
+            const queuedAt = new Date(mutation.student.updatedAt).getTime();
+            const updatedAt = new Date(existing.updatedAt).getTime();
+            if (updatedAt > queuedAt) return `${existing.name} was updated after the delete was queued`;
+            return null;
+        }
+        case 'upload-round': {
+            const { roundNumber } = mutation.input;
+            if (!roundNumber || !current.rounds) return null;
+            const clash = current.rounds.find(round => round.roundNumber === roundNumber);
+            return clash
+                ? `${mutation.input.companyName} already has round ${roundNumber}${clash.roundName ? ` (${clash.roundName})` : ''}`
+                : null;
+        }
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * Passwords - Generated passwords and the shared length rule
+ *
+ * Used for the blank passwords of bulk imports (userImport), generated in the
+ * browser so the admin who sees them is the only one who ever has them in plain
+ * text, and for the one-time passwords the mock backend issues on admin resets.
+ */
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Unambiguous characters only - these get read off a printout
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+
+export function generatePassword(length = 10): string {
+    const bytes = crypto.getRandomValues(new Uint32Array(length));
+    return Array.from(bytes, value => PASSWORD_ALPHABET[value % PASSWORD_ALPHABET.length]).join('');
+}
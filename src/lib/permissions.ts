@@ -0,0 +1,78 @@
+/**
+ * Permissions - What each role may see and do
+ *
+ * AuthContext exposes `can(permission)` from this matrix; ProtectedRoute,
+ * Layout navigation and every destructive button check it. The backend
+ * still has the final say - this only keeps people away from pages and
+ * actions that would be refused.
+ */
+
+export type Role = 'admin' | 'faculty' | 'student';
+
+export type Permission =
+    | 'view:own-placement' // Student portal - the linked Student record only
+    | 'view:dashboard'
+    | 'view:companies'
+    | 'view:rounds'        // Company details with per-student round results
+    | 'view:students'
+    | 'view:analytics'     // Analytics and Trends
+    | 'view:reports'       // Reports and Leaderboard - named students
+    | 'use:assistant'      // AI assistant, which can query any record
+    | 'upload:round'
+    | 'create:student'
+    | 'delete:student'
+    | 'delete:round'
+    | 'delete:company'
+    | 'manage:users'
+    | 'view:audit';
+
+export const ROLES: Role[] = ['admin', 'faculty', 'student'];
+
+const STAFF_PERMISSIONS: Permission[] = [
+    'view:dashboard',
+    'view:companies',
+    'view:rounds',
+    'view:students',
+    'view:analytics',
+    'view:reports',
+    'use:assistant',
+    'upload:round',
+    'create:student',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    admin: [...STAFF_PERMISSIONS, 'delete:student', 'delete:round', 'delete:company', 'manage:users', 'view:audit'],
+    faculty: STAFF_PERMISSIONS,
+    // Every staff page lists or aggregates named students, so students get their portal only
+    student: ['view:own-placement'],
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'view:own-placement': 'View your own placement record',
+    'view:dashboard': 'View the dashboard',
+    'view:companies': 'View companies',
+    'view:rounds': 'View round results',
+    'view:students': 'View students',
+    'view:analytics': 'View analytics',
+    'view:reports': 'View reports',
+    'use:assistant': 'Use the AI assistant',
+    'upload:round': 'Upload round data',
+    'create:student': 'Add students',
+    'delete:student': 'Delete students',
+    'delete:round': 'Delete rounds',
+    'delete:company': 'Delete companies',
+    'manage:users': 'Manage users',
+    'view:audit': 'View the audit log',
+};
+
+const isRole = (role: string): role is Role => (ROLES as string[]).includes(role);
+
+// Unknown roles get nothing rather than guessing
+export function permissionsForRole(role: string | null | undefined): ReadonlySet<Permission> {
+    return new Set(role && isRole(role) ? ROLE_PERMISSIONS[role] : []);
+}
+
+// Where "/" and the login page send each role
+export function homePathForRole(role: string | null | undefined): string {
+    return permissionsForRole(role).has('view:own-placement') ? '/my-placement' : '/dashboard';
+}
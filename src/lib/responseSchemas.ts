@@ -0,0 +1,207 @@
+/**
+ * Response Schemas - Runtime shape checks for data coming from the backend
+ *
+ * ApiClient checks responses against these before handing them to pages,
+ * so a backend that sends a slightly different shape fails with a
+ * ResponseShapeError naming the offending field instead of crashing a page
+ * mid-render. Cache storage reuses them (lib/cacheSchema) for saved entries.
+ *
+ * Only what the frontend relies on is checked; extra fields pass through.
+ */
+
+// Returns the problems found at `path`, empty when the value fits
+export type Schema = (value: unknown, path: string) => string[];
+
+// Enough to report a problem - a 5,000 student list does not need 5,000 lines
+const MAX_ISSUES = 5;
+
+const describe = (value: unknown) => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'string' ? `"${value.length > 30 ? `${value.slice(0, 30)}…` : value}"` : typeof value;
+};
+
+const expect = (ok: boolean, path: string, expected: string, value: unknown) =>
+    ok ? [] : [`${path} should be ${expected}, got ${describe(value)}`];
+
+// ==================== Building blocks ====================
+
+const string: Schema = (value, path) => expect(typeof value === 'string', path, 'a string', value);
+const number: Schema = (value, path) => expect(typeof value === 'number' && !Number.isNaN(value), path, 'a number', value);
+const boolean: Schema = (value, path) => expect(typeof value === 'boolean', path, 'true or false', value);
+const timestamp: Schema = (value, path) => expect(typeof value === 'string' || value instanceof Date, path, 'a date', value);
+const unknownValue: Schema = () => [];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const oneOf = (...allowed: (string | number)[]): Schema => (value, path) =>
+    expect(allowed.includes(value as string | number), path, allowed.map(item => JSON.stringify(item)).join(' or '), value);
+
+const nullable = (schema: Schema): Schema => (value, path) => (value === null ? [] : schema(value, path));
+const optional = (schema: Schema): Schema => (value, path) => (value === undefined ? [] : schema(value, path));
+
+// Passes when any of the schemas does; reports the problems of the first
+const anyOf = (...schemas: Schema[]): Schema => (value, path) => {
+    const results = schemas.map(schema => schema(value, path));
+    return results.some(issues => issues.length === 0) ? [] : results[0];
+};
+
+const object = (fields: Record<string, Schema>): Schema => (value, path) => {
+    if (!isPlainObject(value)) return expect(false, path, 'an object', value);
+    const issues: string[] = [];
+    for (const [key, schema] of Object.entries(fields)) {
+        issues.push(...schema(value[key], `${path}.${key}`));
+        if (issues.length >= MAX_ISSUES) break;
+    }
+    return issues;
+};
+
+const arrayOf = (item: Schema): Schema => (value, path) => {
+    if (!Array.isArray(value)) return expect(false, path, 'an array', value);
+    const issues: string[] = [];
+    for (let i = 0; i < value.length && issues.length < MAX_ISSUES; i++) {
+        issues.push(...item(value[i], `${path}[${i}]`));
+    }
+    return issues;
+};
+
+// An object used as a map, e.g. { round_1: {...} } - an array here is a shape error
+const recordOf = (item: Schema): Schema => (value, path) => {
+    if (!isPlainObject(value)) return expect(false, path, 'an object keyed by id', value);
+    const issues: string[] = [];
+    for (const [key, entry] of Object.entries(value)) {
+        issues.push(...item(entry, `${path}.${key}`));
+        if (issues.length >= MAX_ISSUES) break;
+    }
+    return issues;
+};
+
+// ==================== Backend types (src/types) ====================
+
+const roundDataSchema = object({
+    rowData: recordOf(unknownValue),
+    studentId: nullable(string),
+    status: string,
+});
+
+export const roundSchema = object({
+    roundNumber: number,
+    roundName: nullable(string),
+    rawColumns: arrayOf(string),
+    studentCount: number,
+    isFinalRound: boolean,
+    data: recordOf(roundDataSchema),
+});
+
+export const companySchema = object({
+    companyYearId: string,
+    companyName: string,
+    year: number,
+    status: oneOf('running', 'completed'),
+    currentRound: number,
+    finalRound: nullable(number),
+    totalRounds: number,
+    totalPlaced: number,
+    totalApplied: number,
+    rounds: optional(recordOf(roundSchema)),
+    placements: optional(recordOf(object({ rowData: recordOf(unknownValue) }))),
+});
+
+export const studentSchema = object({
+    studentId: string,
+    name: string,
+    rollNumber: string,
+    email: string,
+    companyStatus: recordOf(object({
+        status: string,
+        roundReached: number,
+        year: number,
+    })),
+    selectedCompanies: arrayOf(string),
+    currentStatus: oneOf('placed', 'not_placed'),
+    totalOffers: number,
+    updatedAt: timestamp,
+});
+
+export const yearAnalyticsSchema = object({
+    year: number,
+    totalCompanies: number,
+    completedCompanies: number,
+    runningCompanies: number,
+    totalPlaced: number,
+    companyWise: recordOf(object({ companyName: string, placed: number })),
+});
+
+export const studentStatsSchema = object({
+    total: number,
+    placed: number,
+    notPlaced: number,
+    totalOffers: number,
+    avgOffers: number,
+});
+
+export const dashboardSummarySchema = object({
+    counts: object({ years: number, companies: number, students: number }),
+    stats: object({ totalCompanies: number, completedCompanies: number, runningCompanies: number, totalPlaced: number }),
+    latestYear: nullable(yearAnalyticsSchema),
+    recentCompanies: arrayOf(companySchema),
+});
+
+export const userSchema = object({
+    id: string,
+    username: string,
+    role: string,
+    rollNumber: optional(nullable(string)),
+    mustChangePassword: optional(boolean),
+});
+
+export const uploadResponseSchema = object({
+    success: boolean,
+    data: optional(object({
+        companyYearId: string,
+        roundId: string,
+        totalStudents: number,
+        matchedStudents: number,
+        newStudents: number,
+        placedStudents: number,
+        isFinalRound: boolean,
+    })),
+});
+
+// Actions are left open so entries from a newer client still load
+export const auditEntrySchema = object({
+    id: string,
+    actor: string,
+    timestamp,
+    action: string,
+    target: object({ type: string, id: string, label: string }),
+    outcome: oneOf('success', 'failure'),
+    summary: string,
+});
+
+// ==================== Endpoint responses ====================
+
+export const companiesSchema = arrayOf(companySchema);
+export const studentsSchema = arrayOf(studentSchema);
+export const yearsResponseSchema = arrayOf(yearAnalyticsSchema);
+export const roundsResponseSchema = arrayOf(roundSchema);
+export const usersResponseSchema = arrayOf(userSchema);
+export const loginResponseSchema = object({ user: userSchema });
+export const auditLogSchema = arrayOf(auditEntrySchema);
+// The server issues the password; mustChangePassword says whether it also flagged the account
+export const resetPasswordResponseSchema = object({ message: string, newPassword: string, mustChangePassword: optional(boolean) });
+
+// Full list, or a ?since= delta with tombstones
+export const companiesResponseSchema = anyOf(
+    companiesSchema,
+    object({ companies: companiesSchema, deleted: arrayOf(string) }),
+);
+export const studentsResponseSchema = object({
+    students: studentsSchema,
+    deleted: optional(arrayOf(string)),
+});
+
+export function checkShape(schema: Schema, value: unknown, path = 'response'): string[] {
+    return schema(value, path).slice(0, MAX_ISSUES);
+}
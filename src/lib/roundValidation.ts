@@ -0,0 +1,124 @@
+/**
+ * Round Validation - Compares an upload sheet with the company's earlier rounds
+ *
+ * Runs before a round is uploaded so the uploader can fix or knowingly accept
+ * a sheet before the server rewrites companyStatus for every student in it.
+ */
+import { Company, Round, RoundData, Student } from '../types';
+import { ColumnMapping } from '../types/upload';
+import { ParsedSheet } from './sheetParser';
+
+export interface RoundCheckEntry {
+    rollNumber: string;
+    name: string;
+    detail?: string;
+}
+
+export interface RoundCheckReport {
+    previousRound: { roundNumber: number; roundName: string | null } | null;
+    notInPreviousRound: RoundCheckEntry[];     // Did not take part in round N-1
+    reappearing: RoundCheckEntry[];            // Eliminated in an earlier round, back again
+    duplicates: RoundCheckEntry[];             // Same roll number on several rows
+    alreadyPlaced: RoundCheckEntry[];          // Selected by another company already
+}
+
+export function countRoundCheckFindings(report: RoundCheckReport): number {
+    return report.notInPreviousRound.length + report.reappearing.length + report.duplicates.length + report.alreadyPlaced.length;
+}
+
+const normalizeRoll = (value: unknown) => String(value ?? '').trim().toUpperCase();
+
+// Used when an earlier row was never linked to a student record
+const ROLL_COLUMN = /roll|hall\s*ticket|reg(istration)?\.?\s*no/i;
+
+/**
+ * Build the consistency report for a sheet.
+ * `rounds` are the company's existing rounds (empty for a new company) and
+ * `roundNumber` the round being uploaded; when it is not given the sheet is
+ * treated as the round after the latest one.
+ */
+export function buildRoundCheckReport(options: {
+    sheet: ParsedSheet;
+    mapping: ColumnMapping;
+    companyYearId: string | null;
+    rounds: Round[];
+    roundNumber?: number;
+    students: Student[];
+    companies: Company[];
+}): RoundCheckReport {
+    const { sheet, mapping, companyYearId, students, companies } = options;
+    const studentsById = new Map(students.map(student => [student.studentId, student]));
+    const studentsByRoll = new Map(students.map(student => [normalizeRoll(student.rollNumber), student]));
+    const companyNames = new Map(companies.map(company => [company.companyYearId, `${company.companyName} ${company.year}`]));
+
+    // Only rounds before the one being uploaded count as history
+    const sorted = [...options.rounds].sort((a, b) => a.roundNumber - b.roundNumber);
+    const targetNumber = options.roundNumber ?? (sorted.length > 0 ? sorted[sorted.length - 1].roundNumber + 1 : 1);
+    const history = sorted.filter(round => round.roundNumber < targetNumber);
+    const previousRound = history.length > 0 ? history[history.length - 1] : null;
+
+    const rowRoll = (row: RoundData) => {
+        const student = row.studentId ? studentsById.get(row.studentId) : undefined;
+        if (student) return normalizeRoll(student.rollNumber);
+        const column = Object.keys(row.rowData || {}).find(key => ROLL_COLUMN.test(key));
+        return column ? normalizeRoll(row.rowData[column]) : '';
+    };
+    const rollsInRound = (round: Round) => new Set(Object.values(round.data || {}).map(rowRoll).filter(Boolean));
+
+    // Eliminated = marked not qualified, or missing from the following round
+    const eliminatedIn = new Map<string, number>();
+    history.forEach((round, index) => {
+        const nextRound = history[index + 1];
+        const nextRolls = nextRound ? rollsInRound(nextRound) : null;
+        Object.values(round.data || {}).forEach(row => {
+            const roll = rowRoll(row);
+            if (!roll || eliminatedIn.has(roll)) return;
+            if (row.status === 'not_qualified' || (nextRolls && !nextRolls.has(roll))) {
+                eliminatedIn.set(roll, round.roundNumber);
+            }
+        });
+    });
+    const previousRolls = previousRound ? rollsInRound(previousRound) : null;
+
+    const report: RoundCheckReport = {
+        previousRound: previousRound ? { roundNumber: previousRound.roundNumber, roundName: previousRound.roundName } : null,
+        notInPreviousRound: [],
+        reappearing: [],
+        duplicates: [],
+        alreadyPlaced: [],
+    };
+
+    const rowsByRoll = new Map<string, number[]>();
+    sheet.rows.forEach((row, index) => {
+        const roll = normalizeRoll(mapping.rollNumber ? row[mapping.rollNumber] : '');
+        if (!roll) return;
+        rowsByRoll.set(roll, [...(rowsByRoll.get(roll) ?? []), index + 1]);
+    });
+
+    rowsByRoll.forEach((rowNumbers, roll) => {
+        const student = studentsByRoll.get(roll);
+        const firstRow = sheet.rows[rowNumbers[0] - 1];
+        const name = student?.name || String((mapping.name && firstRow[mapping.name]) || '');
+        const entry = { rollNumber: roll, name };
+
+        if (rowNumbers.length > 1) {
+            report.duplicates.push({ ...entry, detail: `Rows ${rowNumbers.join(', ')}` });
+        }
+
+        const eliminatedRound = eliminatedIn.get(roll);
+        if (eliminatedRound !== undefined) {
+            report.reappearing.push({ ...entry, detail: `Not qualified in round ${eliminatedRound}` });
+        } else if (previousRolls && !previousRolls.has(roll)) {
+            report.notInPreviousRound.push({ ...entry, detail: student ? undefined : 'New student' });
+        }
+
+        const placedAt = Object.entries(student?.companyStatus ?? {})
+            .filter(([id, status]) => id !== companyYearId && status.status === 'selected')
+            .map(([id]) => companyNames.get(id) ?? id);
+        if (placedAt.length > 0) {
+            report.alreadyPlaced.push({ ...entry, detail: placedAt.join(', ') });
+        }
+    });
+
+    return report;
+}
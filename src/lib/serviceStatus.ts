@@ -0,0 +1,67 @@
+/**
+ * Service Status - Tracks which backend services are currently waking up
+ *
+ * The Render services sleep when idle, so the first request after a pause can
+ * hang for 30+ seconds. ApiClient marks a service as "waking" while a request
+ * to it is slow or being retried; the Layout banner subscribes to this store.
+ */
+import { ServiceName } from '../types';
+
+export interface ServiceWakeState {
+    service: ServiceName;
+    since: number;     // When the service was first seen as slow
+    attempt: number;   // Current retry attempt (0 = first try still pending)
+}
+
+type Listener = () => void;
+
+const waking = new Map<ServiceName, { count: number; since: number; attempt: number }>();
+const listeners = new Set<Listener>();
+let snapshot: ServiceWakeState[] = [];
+
+function emit() {
+    snapshot = Array.from(waking.entries()).map(([service, entry]) => ({
+        service,
+        since: entry.since,
+        attempt: entry.attempt,
+    }));
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Mark a service as waking up. Returns a release function; the service is
+ * considered awake again once every caller has released it.
+ */
+export function markServiceWaking(service: ServiceName, attempt = 0): () => void {
+    const entry = waking.get(service);
+    if (entry) {
+        entry.count++;
+        entry.attempt = Math.max(entry.attempt, attempt);
+    } else {
+        waking.set(service, { count: 1, since: Date.now(), attempt });
+    }
+    emit();
+
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+
+        const current = waking.get(service);
+        if (!current) return;
+        current.count--;
+        if (current.count <= 0) {
+            waking.delete(service);
+        }
+        emit();
+    };
+}
+
+export function getWakingServices(): ServiceWakeState[] {
+    return snapshot;
+}
+
+export function subscribeServiceStatus(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
@@ -0,0 +1,15 @@
+/**
+ * Service Worker Registration - Installs public/sw.js so the app opens offline
+ *
+ * Production builds only: the dev server's modules change on every edit and
+ * must never be served from a cache.
+ */
+export function registerServiceWorker() {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js')
+            .then(registration => console.log('📲 Service worker registered for', registration.scope))
+            .catch(error => console.warn('⚠️ Service worker registration failed:', error));
+    });
+}
@@ -0,0 +1,40 @@
+/**
+ * Session - Idle timeout, proactive renewal and the "session expired" signal
+ *
+ * Shared lab machines must not stay logged in, so IdleTimeoutWarning logs the
+ * user out after IDLE_TIMEOUT_MS without input (any open tab counts), with a
+ * countdown for the last IDLE_WARNING_MS. AuthContext renews the session every
+ * SESSION_RENEW_MS so the access token never lapses mid-request, and ApiClient
+ * reports here when a refresh is refused so AuthContext can end the session.
+ */
+
+// 0 disables the idle timeout
+export const IDLE_TIMEOUT_MS = Number(import.meta.env.VITE_IDLE_TIMEOUT_MIN ?? 15) * 60 * 1000;
+export const IDLE_WARNING_MS = Number(import.meta.env.VITE_IDLE_WARNING_SEC ?? 60) * 1000;
+// Comfortably inside the auth API's 15-minute access token
+export const SESSION_RENEW_MS = Number(import.meta.env.VITE_SESSION_RENEW_SEC ?? 600) * 1000;
+
+export const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'wheel', 'touchstart'] as const;
+export const ACTIVITY_SHARE_MS = 15000;  // Tell other tabs at most this often
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Called when a 401 could not be fixed by refreshing - the refresh token is gone too
+export function notifySessionExpired() {
+    listeners.forEach(listener => listener());
+}
+
+export function subscribeSessionExpired(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// 90000 -> "1:30"
+export function formatCountdown(ms: number): string {
+    const seconds = Math.max(0, Math.ceil(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,361 @@
+/**
+ * Sheet Parser - Reads .xlsx and .csv round files in the browser
+ *
+ * Used to preview a file and map its columns before it is uploaded.
+ * .xlsx files are unzipped with DecompressionStream and read with DOMParser,
+ * so no spreadsheet library is needed. Legacy .xls (binary) files are not
+ * supported here; those are still sent to the Excel service unpreviewed.
+ */
+import { ColumnMapping } from '../types/upload';
+
+export type SheetValue = string | number;
+
+export interface ParsedSheet {
+    sheetName: string;
+    columns: string[];                       // Header row, de-duplicated
+    rows: Record<string, SheetValue>[];      // Non-empty data rows keyed by column
+}
+
+export class SheetParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SheetParseError';
+    }
+}
+
+export function canPreviewFile(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return name.endsWith('.xlsx') || name.endsWith('.csv');
+}
+
+export async function parseSheetFile(file: File): Promise<ParsedSheet> {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.csv')) {
+        return toParsedSheet(file.name.replace(/\.csv$/i, ''), parseCsv(await file.text()));
+    }
+    if (name.endsWith('.xlsx')) {
+        const { sheetName, cells } = await readXlsx(await file.arrayBuffer());
+        return toParsedSheet(sheetName, cells);
+    }
+    throw new SheetParseError('Only .xlsx and .csv files can be previewed');
+}
+
+// ==================== Column mapping ====================
+
+const HEADER_PATTERNS: Record<keyof ColumnMapping, RegExp[]> = {
+    rollNumber: [/roll\s*(no|num|number)?/i, /reg(istration|d)?\.?\s*(no|num|number)/i, /hall\s*ticket/i, /\bht\s*no\b/i, /admission\s*(no|number)/i],
+    name: [/^(student\s*|full\s*|candidate\s*)?name$/i, /student\s*name/i, /candidate\s*name/i],
+    email: [/e-?mail/i, /mail\s*id/i],
+};
+
+const VALUE_PATTERNS: Record<keyof ColumnMapping, RegExp> = {
+    rollNumber: /^\d{2}[a-z0-9]{6,10}$/i,   // e.g. 22951A0501
+    name: /^[a-z][a-z .']+$/i,
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+};
+
+/**
+ * Guess which columns hold the roll number, name and email.
+ * Header names win; otherwise the column whose values mostly look right.
+ */
+export function detectColumnMapping(sheet: ParsedSheet): ColumnMapping {
+    const used = new Set<string>();
+    const mapping: ColumnMapping = { rollNumber: null, name: null, email: null };
+    const fields: (keyof ColumnMapping)[] = ['rollNumber', 'email', 'name'];
+
+    fields.forEach(field => {
+        const byHeader = sheet.columns.find(column =>
+            !used.has(column) && HEADER_PATTERNS[field].some(pattern => pattern.test(column.trim()))
+        );
+        const match = byHeader ?? sheet.columns.find(column =>
+            !used.has(column) && valueMatchRatio(sheet, column, VALUE_PATTERNS[field]) >= 0.8
+        );
+        if (match) {
+            mapping[field] = match;
+            used.add(match);
+        }
+    });
+
+    return mapping;
+}
+
+function valueMatchRatio(sheet: ParsedSheet, column: string, pattern: RegExp) {
+    const values = sheet.rows.slice(0, 50).map(row => String(row[column] ?? '').trim()).filter(Boolean);
+    if (values.length === 0) return 0;
+    return values.filter(value => pattern.test(value)).length / values.length;
+}
+
+export interface SheetIssue {
+    level: 'error' | 'warning';
+    message: string;
+}
+
+/**
+ * Problems that would corrupt the round if the file went up as-is.
+ * Errors block the upload; warnings are shown but allowed through.
+ */
+export function validateSheetMapping(sheet: ParsedSheet, mapping: ColumnMapping): SheetIssue[] {
+    const issues: SheetIssue[] = [];
+
+    if (sheet.rows.length === 0) {
+        issues.push({ level: 'error', message: 'The sheet has a header row but no student rows.' });
+    }
+    if (!mapping.rollNumber) {
+        issues.push({ level: 'error', message: 'Choose the roll number column - students are matched on it.' });
+        return issues;
+    }
+
+    const rollColumn = mapping.rollNumber;
+    const missingRoll = sheet.rows.filter(row => !String(row[rollColumn] ?? '').trim()).length;
+    if (missingRoll > 0) {
+        issues.push({ level: 'warning', message: `${missingRoll} row(s) have no roll number and will not be linked to a student.` });
+    }
+
+    const rollValues = sheet.rows.map(row => String(row[rollColumn] ?? '').trim()).filter(Boolean);
+    const invalidRoll = rollValues.filter(value => !VALUE_PATTERNS.rollNumber.test(value)).length;
+    if (rollValues.length > 0 && invalidRoll / rollValues.length > 0.5) {
+        issues.push({ level: 'error', message: `"${rollColumn}" doesn't look like a roll number column (${invalidRoll} of ${rollValues.length} values don't match).` });
+    } else if (invalidRoll > 0) {
+        issues.push({ level: 'warning', message: `${invalidRoll} roll number(s) have an unusual format.` });
+    }
+
+    if (!mapping.name) {
+        issues.push({ level: 'warning', message: 'No name column selected - new students will be created without a name.' });
+    }
+    if (mapping.email) {
+        const emailColumn = mapping.email;
+        const badEmails = sheet.rows.filter(row => {
+            const value = String(row[emailColumn] ?? '').trim();
+            return value && !VALUE_PATTERNS.email.test(value);
+        }).length;
+        if (badEmails > 0) {
+            issues.push({ level: 'warning', message: `${badEmails} email address(es) look invalid.` });
+        }
+    }
+
+    return issues;
+}
+
+// ==================== Row building ====================
+
+function toParsedSheet(sheetName: string, cells: SheetValue[][]): ParsedSheet {
+    const isEmpty = (row: SheetValue[]) => row.every(value => String(value ?? '').trim() === '');
+    const headerIndex = cells.findIndex(row => !isEmpty(row));
+    if (headerIndex === -1) {
+        throw new SheetParseError('The sheet is empty');
+    }
+
+    // Blank or repeated headers still need unique keys, and data past the
+    // last header cell still gets a column
+    const width = Math.max(...cells.slice(headerIndex).map(row => row.length));
+    const header = Array.from({ length: width }, (_, index) => cells[headerIndex][index] ?? '');
+    const seen = new Map<string, number>();
+    const columns = header.map((value, index) => {
+        const base = String(value ?? '').trim() || `Column ${index + 1}`;
+        const count = (seen.get(base) ?? 0) + 1;
+        seen.set(base, count);
+        return count > 1 ? `${base} (${count})` : base;
+    });
+
+    const rows = cells.slice(headerIndex + 1)
+        .filter(row => !isEmpty(row))
+        .map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+
+    return { sheetName, columns, rows };
+}
+
+// ==================== CSV ====================
+
+function parseCsv(text: string): SheetValue[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+    const delimiter = [',', ';', '\t']
+        .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+        .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const rows: SheetValue[][] = [];
+    let row: SheetValue[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field.trim());
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field.trim());
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field.trim());
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+// ==================== XLSX ====================
+
+async function readXlsx(buffer: ArrayBuffer): Promise<{ sheetName: string; cells: SheetValue[][] }> {
+    const entries = readZipDirectory(buffer);
+    const readText = async (path: string) => {
+        const entry = entries.get(path);
+        return entry ? new TextDecoder().decode(await inflateEntry(buffer, entry)) : null;
+    };
+
+    const parser = new DOMParser();
+    const parseXml = (xml: string) => parser.parseFromString(xml, 'application/xml');
+    const byTag = (node: Document | Element, tag: string) => Array.from(node.getElementsByTagNameNS('*', tag));
+
+    // First sheet in workbook order, resolved through the workbook relationships
+    let sheetName = 'Sheet1';
+    let sheetPath = Array.from(entries.keys()).find(path => /^xl\/worksheets\/sheet\d+\.xml$/.test(path)) ?? null;
+    const workbookXml = await readText('xl/workbook.xml');
+    const relsXml = await readText('xl/_rels/workbook.xml.rels');
+    if (workbookXml && relsXml) {
+        const firstSheet = byTag(parseXml(workbookXml), 'sheet')[0];
+        const relId = firstSheet?.getAttribute('r:id')
+            ?? firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+        const relation = byTag(parseXml(relsXml), 'Relationship').find(rel => rel.getAttribute('Id') === relId);
+        const target = relation?.getAttribute('Target');
+        if (firstSheet && target) {
+            sheetName = firstSheet.getAttribute('name') || sheetName;
+            sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+        }
+    }
+
+    const sheetXml = sheetPath ? await readText(sheetPath) : null;
+    if (!sheetXml) {
+        throw new SheetParseError('No worksheet found in this workbook');
+    }
+
+    const sharedStringsXml = await readText('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXml
+        ? byTag(parseXml(sharedStringsXml), 'si').map(si => byTag(si, 't').map(t => t.textContent ?? '').join(''))
+        : [];
+
+    const cells: SheetValue[][] = [];
+    byTag(parseXml(sheetXml), 'row').forEach((rowElement, rowPosition) => {
+        const rowIndex = Number(rowElement.getAttribute('r') || rowPosition + 1) - 1;
+        const row: SheetValue[] = [];
+        byTag(rowElement, 'c').forEach((cell, cellPosition) => {
+            const ref = cell.getAttribute('r');
+            const columnIndex = ref ? columnRefToIndex(ref) : cellPosition;
+            row[columnIndex] = readCellValue(cell, sharedStrings, byTag);
+        });
+        cells[rowIndex] = Array.from(row, value => value ?? '');
+    });
+
+    return { sheetName, cells: Array.from(cells, row => row ?? []) };
+}
+
+function readCellValue(
+    cell: Element,
+    sharedStrings: string[],
+    byTag: (node: Element, tag: string) => Element[]
+): SheetValue {
+    const type = cell.getAttribute('t');
+    const raw = byTag(cell, 'v')[0]?.textContent ?? '';
+
+    switch (type) {
+        case 's':
+            return sharedStrings[Number(raw)] ?? '';
+        case 'inlineStr':
+            return byTag(cell, 't').map(t => t.textContent ?? '').join('');
+        case 'b':
+            return raw === '1' ? 'TRUE' : 'FALSE';
+        case 'str':
+        case 'e':
+            return raw;
+        default: {
+            if (raw === '') return '';
+            const number = Number(raw);
+            return Number.isFinite(number) ? number : raw;
+        }
+    }
+}
+
+// "AB12" -> 27
+function columnRefToIndex(ref: string): number {
+    const letters = ref.replace(/\d+$/, '').toUpperCase();
+    let index = 0;
+    for (const letter of letters) {
+        index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+function readZipDirectory(buffer: ArrayBuffer): Map<string, ZipEntry> {
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+
+    // End of central directory record sits in the last 64 KB
+    let eocd = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) {
+        throw new SheetParseError('This file is not a valid .xlsx workbook');
+    }
+
+    const entries = new Map<string, ZipEntry>();
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) break;
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true),
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+async function inflateEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<Uint8Array> {
+    const view = new DataView(buffer);
+    const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+    const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+    const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+    const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+    if (entry.method === 0) return data;
+    if (entry.method !== 8) {
+        throw new SheetParseError('This workbook uses an unsupported compression method');
+    }
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
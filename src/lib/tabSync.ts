@@ -0,0 +1,53 @@
+/**
+ * Tab Sync - Keeps every open tab of the portal in step
+ *
+ * DataCacheContext shares cache writes, invalidations and clears, and
+ * AuthContext shares logins and logouts, IdleTimeoutWarning user activity, and
+ * OfflineQueueContext changes to the queue of offline writes, over one BroadcastChannel.
+ * A tab never receives its own messages, so handlers only touch memory -
+ * the sending tab has already written the shared storage.
+ */
+import { SessionEndReason, User } from '../types';
+import { CacheEntry } from '../types/cache';
+
+export type TabMessage =
+    | { type: 'cache-updated'; key: string; entry: CacheEntry<unknown> | null }   // null = removed
+    | { type: 'cache-invalidated'; keys: string[] }
+    | { type: 'cache-cleared' }
+    | { type: 'offline-queue-changed' }   // Reload the queue from storage
+    | { type: 'login'; user: User }
+    | { type: 'logout'; reason?: SessionEndReason }   // No reason = the user clicked Logout
+    | { type: 'session-activity' };   // Input in another tab resets the idle timeout
+
+type Listener = (message: TabMessage) => void;
+
+const CHANNEL_NAME = 'placement-portal-sync';
+
+const listeners = new Set<Listener>();
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+    if (channel || typeof BroadcastChannel === 'undefined') return channel;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabMessage>) => {
+        listeners.forEach(listener => listener(event.data));
+    };
+    return channel;
+}
+
+export function postTabMessage(message: TabMessage) {
+    try {
+        getChannel()?.postMessage(message);
+    } catch (error) {
+        // e.g. DataCloneError - the other tabs will catch up on their next fetch
+        console.warn(`⚠️ Could not share ${message.type} with other tabs:`, error);
+    }
+}
+
+export function subscribeTabMessages(listener: Listener): () => void {
+    getChannel();
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
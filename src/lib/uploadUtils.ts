@@ -0,0 +1,79 @@
+/**
+ * Upload Utilities - Shared helpers for round uploads and the upload queue
+ */
+import { UploadJob, UploadJobInput } from '../types/upload';
+
+// "Final Round", "Round 2 (Technical)" or "Round Auto" when the backend picks the number
+export function describeUploadRound(job: UploadJobInput): string {
+    if (job.isFinal) return 'Final Round';
+    return `Round ${job.roundNumber ?? 'Auto'}${job.roundName ? ` (${job.roundName})` : ''}`;
+}
+
+export function describeUploadStatus(job: UploadJob): string {
+    switch (job.status) {
+        case 'queued':
+            return 'Waiting';
+        case 'uploading':
+            return `${formatBytes(job.loaded)} of ${formatBytes(job.total)}`;
+        case 'processing':
+            return 'Processing on server...';
+        case 'success':
+            return `${job.response?.data?.matchedStudents ?? 0} matched, ${job.response?.data?.newStudents ?? 0} new`;
+        case 'error':
+            return job.error || 'Upload failed';
+        case 'cancelled':
+            return 'Cancelled';
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export interface UploadTargetGuess {
+    companyYearId: string | null;   // Set when the name matched a running company
+    companyName: string;
+    year: number | null;
+    roundNumber: number | null;
+    isFinal: boolean;
+}
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guess company, year and round from a file name such as
+ * "Google_2025_Round2.xlsx" or "infosys final 2024.csv".
+ * Known companies win over the leftover words of the name.
+ */
+export function guessUploadTarget(fileName: string, companies: { companyYearId: string; companyName: string; year: number }[]): UploadTargetGuess {
+    const base = fileName.replace(/\.[^.]+$/, '');
+    const yearMatch = base.match(/(?:^|[^0-9])(20\d{2})(?![0-9])/);
+    const roundMatch = base.match(/(?:round|(?<![a-z])(?:rnd|r))[\s_-]*(\d{1,2})(?![0-9])/i);
+    const isFinal = /final/i.test(base);
+    const year = yearMatch ? parseInt(yearMatch[1]) : null;
+
+    const normalizedBase = normalizeName(base);
+    const known = companies
+        .filter(company => year === null || company.year === year)
+        .filter(company => normalizeName(company.companyName) && normalizedBase.includes(normalizeName(company.companyName)))
+        .sort((a, b) => b.companyName.length - a.companyName.length)[0];
+
+    // Whatever is left once the year, round and "final" words are removed
+    const leftover = base
+        .replace(yearMatch?.[1] ?? '', ' ')
+        .replace(roundMatch?.[0] ?? '', ' ')
+        .replace(/final|results?|selected|shortlist(ed)?|list/gi, ' ')
+        .replace(/[_\-.()]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    return {
+        companyYearId: known?.companyYearId ?? null,
+        companyName: known?.companyName ?? leftover,
+        year: known?.year ?? year,
+        roundNumber: roundMatch ? parseInt(roundMatch[1]) : null,
+        isFinal,
+    };
+}
@@ -0,0 +1,180 @@
+/**
+ * User Import - Bulk account creation from a CSV (or .xlsx) sheet
+ *
+ * The Admin panel reads the sheet with sheetParser, checks every row here
+ * (username, role, roll number for students, duplicates and accounts that
+ * already exist) and then creates the ready rows in small batches so the
+ * auth API is not flooded at semester start. Passwords the sheet leaves
+ * blank are generated in the browser and only ever leave it in the one
+ * credentials download.
+ */
+import { api } from './api';
+import { getErrorMessage, isApiError } from './apiError';
+import { MIN_PASSWORD_LENGTH, generatePassword } from './passwords';
+import { ROLES, Role } from './permissions';
+import { ParsedSheet } from './sheetParser';
+
+export const IMPORT_BATCH_SIZE = 5;
+export const IMPORT_BATCH_DELAY_MS = 1000;
+
+export interface UserImportColumns {
+    username: string | null;
+    role: string | null;
+    rollNumber: string | null;
+    password: string | null;
+}
+
+export interface UserImportRow {
+    row: number;                  // 1-based, not counting the header row
+    username: string;
+    role: Role | null;
+    rollNumber: string | null;
+    password: string;             // From the sheet, or generated
+    generatedPassword: boolean;
+    status: 'ready' | 'exists' | 'invalid';
+    issues: string[];
+}
+
+export interface UserImportResult {
+    row: number;
+    username: string;
+    role: Role | null;
+    rollNumber: string | null;
+    status: 'created' | 'exists' | 'failed' | 'skipped';
+    message: string;
+}
+
+const HEADER_PATTERNS: Record<keyof UserImportColumns, RegExp> = {
+    username: /^(user\s*name|user\s*id|login(\s*id)?)$/i,
+    role: /^(role|user\s*role|type)$/i,
+    rollNumber: /roll\s*(no|num|number)?|hall\s*ticket/i,
+    password: /^(initial\s*)?pass(word)?$/i,
+};
+
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,32}$/i;
+const ROLL_NUMBER_PATTERN = /^\d{2}[a-z0-9]{6,10}$/i;   // e.g. 22951A0501, as in sheetParser
+
+export const USER_IMPORT_TEMPLATE = [
+    { Username: '22951a05001', Role: 'student', 'Roll Number': '22951A05001', Password: '' },
+    { Username: 'jsmith', Role: 'faculty', 'Roll Number': '', Password: '' },
+];
+
+export function detectImportColumns(sheet: ParsedSheet): UserImportColumns {
+    const find = (field: keyof UserImportColumns) =>
+        sheet.columns.find(column => HEADER_PATTERNS[field].test(column.trim())) ?? null;
+    return {
+        username: find('username'),
+        role: find('role'),
+        rollNumber: find('rollNumber'),
+        password: find('password'),
+    };
+}
+
+// Problems with the sheet as a whole, before looking at rows
+export function checkImportColumns(sheet: ParsedSheet, columns: UserImportColumns): string[] {
+    const problems: string[] = [];
+    if (!columns.username) problems.push('No "Username" column found.');
+    if (!columns.role) problems.push('No "Role" column found.');
+    if (sheet.rows.length === 0) problems.push('The sheet has a header row but no users.');
+    return problems;
+}
+
+/**
+ * Check every row. Rows that are fine become 'ready', usernames already on
+ * the server 'exists' (skipped, never overwritten) and anything else 'invalid'.
+ */
+export function buildImportRows(sheet: ParsedSheet, columns: UserImportColumns, existingUsernames: string[]): UserImportRow[] {
+    const existing = new Set(existingUsernames.map(name => name.toLowerCase()));
+    const seen = new Set<string>();
+    const read = (values: Record<string, unknown>, column: string | null) =>
+        column ? String(values[column] ?? '').trim() : '';
+
+    return sheet.rows.map((values, index) => {
+        const issues: string[] = [];
+        const username = read(values, columns.username);
+        const roleValue = read(values, columns.role).toLowerCase();
+        const role = (ROLES as string[]).includes(roleValue) ? roleValue as Role : null;
+        const sheetPassword = read(values, columns.password);
+        // Student accounts whose username is their roll number need no separate column
+        const rollNumber = read(values, columns.rollNumber)
+            || (role === 'student' && ROLL_NUMBER_PATTERN.test(username) ? username.toUpperCase() : '');
+
+        if (!username) {
+            issues.push('Username is missing');
+        } else if (!USERNAME_PATTERN.test(username)) {
+            issues.push('Username must be 3-32 letters, digits, dots, dashes or underscores');
+        } else if (seen.has(username.toLowerCase())) {
+            issues.push('Username appears earlier in the sheet');
+        }
+        if (!role) {
+            issues.push(roleValue ? `Unknown role "${roleValue}" (use ${ROLES.join(', ')})` : 'Role is missing');
+        }
+        if (role === 'student' && !rollNumber) {
+            issues.push('Students need a roll number to see their placement record');
+        } else if (rollNumber && !ROLL_NUMBER_PATTERN.test(rollNumber)) {
+            issues.push(`"${rollNumber}" doesn't look like a roll number`);
+        }
+        if (sheetPassword && sheetPassword.length < MIN_PASSWORD_LENGTH) {
+            issues.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        }
+        if (username) seen.add(username.toLowerCase());
+
+        const exists = issues.length === 0 && existing.has(username.toLowerCase());
+        return {
+            row: index + 1,
+            username,
+            role,
+            rollNumber: role === 'student' ? rollNumber || null : null,
+            password: sheetPassword || generatePassword(),
+            generatedPassword: !sheetPassword,
+            status: issues.length > 0 ? 'invalid' : exists ? 'exists' : 'ready',
+            issues: exists ? ['Account already exists - skipped'] : issues,
+        };
+    });
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Create the ready rows IMPORT_BATCH_SIZE at a time, pausing between batches.
+ * Each finished row is reported through onResult as it settles. Aborting stops
+ * before the next batch; rows not yet sent come back as 'skipped'.
+ */
+export async function importUsers(
+    rows: UserImportRow[],
+    onResult: (result: UserImportResult) => void,
+    signal?: AbortSignal
+): Promise<UserImportResult[]> {
+    const results: UserImportResult[] = [];
+    const report = (result: UserImportResult) => {
+        results.push(result);
+        onResult(result);
+    };
+    const base = (row: UserImportRow) => ({ row: row.row, username: row.username, role: row.role, rollNumber: row.rollNumber });
+
+    const ready = rows.filter(row => row.status === 'ready');
+    for (let start = 0; start < ready.length; start += IMPORT_BATCH_SIZE) {
+        if (start > 0) await sleep(IMPORT_BATCH_DELAY_MS);
+        if (signal?.aborted) {
+            ready.slice(start).forEach(row => report({ ...base(row), status: 'skipped', message: 'Import cancelled' }));
+            break;
+        }
+
+        await Promise.all(ready.slice(start, start + IMPORT_BATCH_SIZE).map(async row => {
+            try {
+                await api.createUser(row.username, row.password, row.role!, row.rollNumber ?? undefined);
+                report({ ...base(row), status: 'created', message: 'Created' });
+            } catch (error) {
+                // Someone created it since the preview - treat like the rows found up front
+                if (isApiError(error) && error.code === 'CONFLICT') {
+                    report({ ...base(row), status: 'exists', message: 'Account already exists - skipped' });
+                } else {
+                    report({ ...base(row), status: 'failed', message: getErrorMessage(error, 'Failed to create user') });
+                }
+            }
+        }));
+    }
+
+    console.log(`👥 User import: ${results.filter(r => r.status === 'created').length} of ${ready.length} accounts created`);
+    return results;
+}
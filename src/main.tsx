@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import { cleanSensitiveData, protectLocalStorage } from './lib/securityCleanup'
+import { registerServiceWorker } from './lib/serviceWorker'
 
 // 🔒 Security: Clean localStorage of any tokens on app load
 cleanSensitiveData();
@@ -10,6 +11,9 @@ cleanSensitiveData();
 // 🛡️ Security: Prevent future token storage
 protectLocalStorage();
 
+// 📲 Offline: cache the app shell so the portal opens without a connection
+registerServiceWorker();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <App />
 );
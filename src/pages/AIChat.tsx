@@ -4,6 +4,7 @@ import { useChat } from '../context/ChatContext';
 import { Message, ThinkingStep, TableData } from '../types';
 import { FixedSizeList } from 'react-window';
 import { api } from '../lib/api';  // Import API client for JWT-authenticated requests
+import { getErrorMessage } from '../lib/apiError';
 
 // Event types from the API
 type EventType = 'iteration' | 'ai_decision' | 'function_start' | 'function_result' | 'huge_data_init' | 'huge_data_row' | 'final' | 'error';
@@ -319,7 +320,7 @@ export default function AIChat() {
             console.error('Error:', error);
             setMessages(prev => prev.map(msg =>
                 msg.id === assistantMessageId
-                    ? { ...msg, content: 'Failed to get response from AI', status: 'error' }
+                    ? { ...msg, content: getErrorMessage(error, 'Failed to get response from AI'), status: 'error' }
                     : msg
             ));
         } finally {
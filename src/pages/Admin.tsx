@@ -1,7 +1,11 @@
 import { useEffect, useState } from 'react';
 import { api } from '../lib/api';
+import { getErrorMessage } from '../lib/apiError';
+import ServiceHealthPanel from '../components/ServiceHealthPanel';
+import CacheInspectorPanel from '../components/CacheInspectorPanel';
+import UserImportModal from '../components/UserImportModal';
 import { User } from '../types';
-import { Users, UserPlus, Edit2, Trash2, Shield, AlertCircle, CheckCircle, X, Key, Search, Filter } from 'lucide-react';
+import { Users, UserPlus, Edit2, Trash2, Shield, AlertCircle, CheckCircle, X, Key, Search, Filter, Database, FileSpreadsheet, Copy, Check } from 'lucide-react';
 
 export default function Admin() {
     const [users, setUsers] = useState<User[]>([]);
@@ -9,9 +13,12 @@ export default function Admin() {
     const [error, setError] = useState('');
     const [success, setSuccess] = useState('');
     const [showCreateModal, setShowCreateModal] = useState(false);
+    const [showImportModal, setShowImportModal] = useState(false);
     const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [issuedPassword, setIssuedPassword] = useState<{ username: string; password: string; mustChange: boolean } | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
     const [roleFilter, setRoleFilter] = useState<'all' | 'admin' | 'faculty' | 'student'>('all');
+    const [activeTab, setActiveTab] = useState<'users' | 'cache'>('users');
 
     useEffect(() => {
         fetchUsers();
@@ -22,7 +29,7 @@ export default function Admin() {
             const data = await api.getUsers();
             setUsers(data);
         } catch (err: unknown) {
-            setError((err as Error).message || 'Failed to fetch users');
+            setError(getErrorMessage(err, 'Failed to fetch users'));
         } finally {
             setLoading(false);
         }
@@ -39,22 +46,22 @@ export default function Admin() {
             fetchUsers();
             setTimeout(() => setSuccess(''), 3000);
         } catch (err: unknown) {
-            setError((err as Error).message || 'Failed to delete user');
+            setError(getErrorMessage(err, 'Failed to delete user'));
             setTimeout(() => setError(''), 3000);
         }
     };
 
     const handleResetPassword = async (userId: string, username: string) => {
-        if (!confirm(`Are you sure you want to reset the password for "${username}" to "iare"?`)) {
+        if (!confirm(`Reset the password for "${username}"? The server will issue a new password, shown to you once.`)) {
             return;
         }
 
         try {
-            await api.resetPassword(userId);
-            setSuccess(`Password for "${username}" reset to "iare"`);
-            setTimeout(() => setSuccess(''), 3000);
+            const { newPassword, mustChangePassword } = await api.resetPassword(userId);
+            setIssuedPassword({ username, password: newPassword, mustChange: !!mustChangePassword });
+            fetchUsers();
         } catch (err: unknown) {
-            setError((err as Error).message || 'Failed to reset password');
+            setError(getErrorMessage(err, 'Failed to reset password'));
             setTimeout(() => setError(''), 3000);
         }
     };
@@ -88,13 +95,44 @@ export default function Admin() {
                             Manage users and roles
                         </p>
                     </div>
-                    <button
-                        onClick={() => setShowCreateModal(true)}
-                        className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all btn-hover flex items-center gap-2 shadow-lg"
-                    >
-                        <UserPlus className="h-5 w-5" />
-                        Create User
-                    </button>
+                    {activeTab === 'users' && (
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => setShowImportModal(true)}
+                                className="px-6 py-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-900 dark:text-white rounded-xl font-medium transition-all btn-hover flex items-center gap-2 shadow-lg"
+                            >
+                                <FileSpreadsheet className="h-5 w-5" />
+                                Import CSV
+                            </button>
+                            <button
+                                onClick={() => setShowCreateModal(true)}
+                                className="px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all btn-hover flex items-center gap-2 shadow-lg"
+                            >
+                                <UserPlus className="h-5 w-5" />
+                                Create User
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* Tabs */}
+                <div className="flex gap-2 mt-6">
+                    {([
+                        { id: 'users', label: 'Users & Services', icon: Users },
+                        { id: 'cache', label: 'Data cache', icon: Database },
+                    ] as const).map(tab => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setActiveTab(tab.id)}
+                            className={`px-4 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-all ${activeTab === tab.id
+                                ? 'bg-blue-500/20 text-blue-600 dark:text-blue-400'
+                                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700/50'
+                                }`}
+                        >
+                            <tab.icon className="h-4 w-4" />
+                            {tab.label}
+                        </button>
+                    ))}
                 </div>
             </div>
 
@@ -113,112 +151,127 @@ export default function Admin() {
                 </div>
             )}
 
+            {activeTab === 'cache' && <CacheInspectorPanel />}
+
             {/* Users Table */}
-            <div className="glass-strong rounded-2xl p-6 shadow-2xl">
-                <div className="flex items-center justify-between mb-6">
-                    <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-3">
-                        <div className="p-2 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg">
-                            <Users className="h-5 w-5 text-white stroke-white" strokeWidth={2} />
-                        </div>
-                        Users ({users.length})
-                    </h2>
-                    <div className="flex flex-col sm:flex-row gap-4">
-                        <div className="relative">
-                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-                            <input
-                                type="text"
-                                placeholder="Search users..."
-                                value={searchTerm}
-                                onChange={(e) => setSearchTerm(e.target.value)}
-                                className="pl-10 pr-4 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-64 text-gray-900 dark:text-white placeholder-gray-500"
-                            />
-                        </div>
-                        <div className="relative">
-                            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
-                            <select
-                                value={roleFilter}
-                                onChange={(e) => setRoleFilter(e.target.value as 'all' | 'admin' | 'faculty' | 'student')}
-                                className="pl-10 pr-8 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none text-gray-900 dark:text-white"
-                            >
-                                <option value="all">All Roles</option>
-                                <option value="student">Student</option>
-                                <option value="faculty">Faculty</option>
-                                <option value="admin">Admin</option>
-                            </select>
+            {activeTab === 'users' && (
+                <div className="glass-strong rounded-2xl p-6 shadow-2xl">
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-2xl font-semibold text-gray-900 dark:text-white flex items-center gap-3">
+                            <div className="p-2 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg">
+                                <Users className="h-5 w-5 text-white stroke-white" strokeWidth={2} />
+                            </div>
+                            Users ({users.length})
+                        </h2>
+                        <div className="flex flex-col sm:flex-row gap-4">
+                            <div className="relative">
+                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                                <input
+                                    type="text"
+                                    placeholder="Search users..."
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    className="pl-10 pr-4 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-64 text-gray-900 dark:text-white placeholder-gray-500"
+                                />
+                            </div>
+                            <div className="relative">
+                                <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                                <select
+                                    value={roleFilter}
+                                    onChange={(e) => setRoleFilter(e.target.value as 'all' | 'admin' | 'faculty' | 'student')}
+                                    className="pl-10 pr-8 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none text-gray-900 dark:text-white"
+                                >
+                                    <option value="all">All Roles</option>
+                                    <option value="student">Student</option>
+                                    <option value="faculty">Faculty</option>
+                                    <option value="admin">Admin</option>
+                                </select>
+                            </div>
                         </div>
                     </div>
-                </div>
 
-                <div className="overflow-x-auto">
-                    <table className="w-full">
-                        <thead>
-                            <tr className="border-b border-gray-700">
-                                <th className="text-left py-4 px-4 text-gray-400 font-medium">Username</th>
-                                <th className="text-left py-4 px-4 text-gray-400 font-medium">Role</th>
-                                <th className="text-left py-4 px-4 text-gray-400 font-medium">User ID</th>
-                                <th className="text-right py-4 px-4 text-gray-400 font-medium">Actions</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {users
-                                .filter(user => {
-                                    const matchesSearch = user.username.toLowerCase().includes(searchTerm.toLowerCase());
-                                    const matchesRole = roleFilter === 'all' || user.role === roleFilter;
-                                    return matchesSearch && matchesRole;
-                                })
-                                .map((user, index) => (
-                                    <tr
-                                        key={user.id}
-                                        className="border-b border-gray-700/50 hover:bg-gray-700/30 transition-all duration-200 animate-fade-in"
-                                        style={{ animationDelay: `${index * 0.05}s` }}
-                                    >
-                                        <td className="py-4 px-4">
-                                            <div className="flex items-center gap-3">
-                                                <div className="h-10 w-10 rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white font-semibold shadow-lg">
-                                                    {user.username.charAt(0).toUpperCase()}
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead>
+                                <tr className="border-b border-gray-700">
+                                    <th className="text-left py-4 px-4 text-gray-400 font-medium">Username</th>
+                                    <th className="text-left py-4 px-4 text-gray-400 font-medium">Role</th>
+                                    <th className="text-left py-4 px-4 text-gray-400 font-medium">User ID</th>
+                                    <th className="text-right py-4 px-4 text-gray-400 font-medium">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {users
+                                    .filter(user => {
+                                        const matchesSearch = user.username.toLowerCase().includes(searchTerm.toLowerCase());
+                                        const matchesRole = roleFilter === 'all' || user.role === roleFilter;
+                                        return matchesSearch && matchesRole;
+                                    })
+                                    .map((user, index) => (
+                                        <tr
+                                            key={user.id}
+                                            className="border-b border-gray-700/50 hover:bg-gray-700/30 transition-all duration-200 animate-fade-in"
+                                            style={{ animationDelay: `${index * 0.05}s` }}
+                                        >
+                                            <td className="py-4 px-4">
+                                                <div className="flex items-center gap-3">
+                                                    <div className="h-10 w-10 rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white font-semibold shadow-lg">
+                                                        {user.username.charAt(0).toUpperCase()}
+                                                    </div>
+                                                    <div>
+                                                        <span className="text-white font-medium">{user.username}</span>
+                                                        {user.rollNumber && (
+                                                            <p className="text-gray-500 text-xs">Roll No. {user.rollNumber}</p>
+                                                        )}
+                                                        {user.mustChangePassword && (
+                                                            <p className="text-yellow-600 dark:text-yellow-400 text-xs">Must change password at next login</p>
+                                                        )}
+                                                    </div>
                                                 </div>
-                                                <span className="text-white font-medium">{user.username}</span>
-                                            </div>
-                                        </td>
-                                        <td className="py-4 px-4">
-                                            <span className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-medium border ${getRoleBadge(user.role)}`}>
-                                                {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                                            </span>
-                                        </td>
-                                        <td className="py-4 px-4">
-                                            <span className="text-gray-400 font-mono text-sm">{user.id}</span>
-                                        </td>
-                                        <td className="py-4 px-4">
-                                            <div className="flex items-center justify-end gap-2">
-                                                <button
-                                                    onClick={() => setEditingUser(user)}
-                                                    className="p-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-lg transition-all"
-                                                    title="Edit role"
-                                                >
-                                                    <Edit2 className="h-4 w-4" />
-                                                </button>
-                                                <button
-                                                    onClick={() => handleDeleteUser(user.id, user.username)}
-                                                    className="p-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-all"
-                                                    title="Delete user"
-                                                >
-                                                    <Trash2 className="h-4 w-4" />
-                                                </button>
-                                                <button
-                                                    onClick={() => handleResetPassword(user.id, user.username)}
-                                                    className="p-2 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-600 dark:text-yellow-400 rounded-lg transition-all"
-                                                    title="Reset Password to 'iare'"
-                                                >
-                                                    <Key className="h-4 w-4" />
-                                                </button>
-                                            </div>
-                                        </td>
-                                    </tr>
-                                ))}
-                        </tbody>
-                    </table>
+                                            </td>
+                                            <td className="py-4 px-4">
+                                                <span className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-medium border ${getRoleBadge(user.role)}`}>
+                                                    {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                                                </span>
+                                            </td>
+                                            <td className="py-4 px-4">
+                                                <span className="text-gray-400 font-mono text-sm">{user.id}</span>
+                                            </td>
+                                            <td className="py-4 px-4">
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <button
+                                                        onClick={() => setEditingUser(user)}
+                                                        className="p-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-lg transition-all"
+                                                        title="Edit role"
+                                                    >
+                                                        <Edit2 className="h-4 w-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDeleteUser(user.id, user.username)}
+                                                        className="p-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-all"
+                                                        title="Delete user"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleResetPassword(user.id, user.username)}
+                                                        className="p-2 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-600 dark:text-yellow-400 rounded-lg transition-all"
+                                                        title="Reset password"
+                                                    >
+                                                        <Key className="h-4 w-4" />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                            </tbody>
+                        </table>
+                    </div>
                 </div>
-            </div>
+            )}
+
+            {/* Service Health */}
+            {activeTab === 'users' && <ServiceHealthPanel />}
 
             {/* Create User Modal */}
             {
@@ -239,6 +292,33 @@ export default function Admin() {
                 )
             }
 
+            {/* Bulk Import Modal */}
+            {
+                showImportModal && (
+                    <UserImportModal
+                        existingUsernames={users.map(user => user.username)}
+                        onClose={() => setShowImportModal(false)}
+                        onImported={(created) => {
+                            fetchUsers();
+                            setSuccess(`${created} user(s) created from the import`);
+                            setTimeout(() => setSuccess(''), 3000);
+                        }}
+                    />
+                )
+            }
+
+            {/* One-time Password - shown once, never stored */}
+            {
+                issuedPassword && (
+                    <OneTimePasswordModal
+                        username={issuedPassword.username}
+                        password={issuedPassword.password}
+                        mustChange={issuedPassword.mustChange}
+                        onClose={() => setIssuedPassword(null)}
+                    />
+                )
+            }
+
             {/* Edit Role Modal */}
             {
                 editingUser && (
@@ -275,6 +355,7 @@ function CreateUserModal({
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [role, setRole] = useState<'admin' | 'faculty' | 'student'>('student');
+    const [rollNumber, setRollNumber] = useState('');
     const [loading, setLoading] = useState(false);
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -282,10 +363,10 @@ function CreateUserModal({
         setLoading(true);
 
         try {
-            await api.createUser(username, password, role);
+            await api.createUser(username, password, role, role === 'student' ? rollNumber.trim() : undefined);
             onSuccess();
         } catch (err: unknown) {
-            onError((err as Error).message || 'Failed to create user');
+            onError(getErrorMessage(err, 'Failed to create user'));
         } finally {
             setLoading(false);
         }
@@ -340,6 +421,21 @@ function CreateUserModal({
                         </select>
                     </div>
 
+                    {/* The student portal shows the Student record with this roll number */}
+                    {role === 'student' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Roll Number</label>
+                            <input
+                                type="text"
+                                value={rollNumber}
+                                onChange={(e) => setRollNumber(e.target.value)}
+                                placeholder="e.g. 21951A05001"
+                                required
+                                className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 rounded-xl text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+                    )}
+
                     <div className="flex gap-3 pt-4">
                         <button
                             type="button"
@@ -375,6 +471,7 @@ function EditRoleModal({
     onError: (error: string) => void;
 }) {
     const [role, setRole] = useState<'admin' | 'faculty' | 'student'>(user.role as 'admin' | 'faculty' | 'student');
+    const [rollNumber, setRollNumber] = useState(user.rollNumber ?? '');
     const [loading, setLoading] = useState(false);
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -382,10 +479,10 @@ function EditRoleModal({
         setLoading(true);
 
         try {
-            await api.updateUserRole(user.id, role);
+            await api.updateUserRole(user.id, role, role === 'student' ? rollNumber.trim() : undefined);
             onSuccess();
         } catch (err: unknown) {
-            onError((err as Error).message || 'Failed to update role');
+            onError(getErrorMessage(err, 'Failed to update role'));
         } finally {
             setLoading(false);
         }
@@ -425,6 +522,21 @@ function EditRoleModal({
                         </select>
                     </div>
 
+                    {/* The student portal shows the Student record with this roll number */}
+                    {role === 'student' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Roll Number</label>
+                            <input
+                                type="text"
+                                value={rollNumber}
+                                onChange={(e) => setRollNumber(e.target.value)}
+                                placeholder="e.g. 21951A05001"
+                                required
+                                className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 rounded-xl text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+                    )}
+
                     <div className="flex gap-3 pt-4">
                         <button
                             type="button"
@@ -446,3 +558,78 @@ function EditRoleModal({
         </div>
     );
 }
+
+// One-time Password Modal Component
+function OneTimePasswordModal({
+    username,
+    password,
+    mustChange,
+    onClose,
+}: {
+    username: string;
+    password: string;
+    mustChange: boolean;   // The server flagged the account for a forced change
+    onClose: () => void;
+}) {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(password);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.warn('Failed to copy password:', error);
+        }
+    };
+
+    // No backdrop close - the password cannot be shown again once this is dismissed
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in">
+            <div className="glass-strong rounded-2xl border border-yellow-500/30 max-w-md w-full shadow-2xl animate-scale-in">
+                <div className="flex items-center justify-between p-6 border-b border-gray-700">
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white">Password Reset</h3>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg transition-colors">
+                        <X className="h-5 w-5 text-gray-400" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <p className="text-gray-600 dark:text-gray-400 text-sm">
+                        New password for <span className="font-medium text-gray-900 dark:text-white">{username}</span>.
+                        {mustChange
+                            ? ' They will be asked to choose a new password when they log in with it.'
+                            : ' Ask them to change it from their Profile page after logging in.'}
+                    </p>
+
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 px-4 py-3 bg-gray-50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 rounded-xl text-lg font-mono tracking-wider text-gray-900 dark:text-white select-all">
+                            {password}
+                        </code>
+                        <button
+                            onClick={handleCopy}
+                            className="p-3 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-xl transition-all"
+                            title="Copy password"
+                        >
+                            {copied ? <Check className="h-5 w-5" /> : <Copy className="h-5 w-5" />}
+                        </button>
+                    </div>
+
+                    <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-xl flex items-start gap-2">
+                        <AlertCircle className="h-4 w-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+                        <p className="text-yellow-700 dark:text-yellow-400 text-xs">
+                            This password is shown only once. Copy it now and pass it on to the user directly.
+                        </p>
+                    </div>
+
+                    <button
+                        onClick={onClose}
+                        className="w-full py-3 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -7,6 +7,7 @@ import { exportToCSV } from '../lib/exportUtils';
 import { useTheme } from '../context/ThemeContext';
 import { useDataCache } from '../context/DataCacheContext';
 import RefreshButton from '../components/RefreshButton';
+import LastUpdated from '../components/LastUpdated';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#f97316'];
 
@@ -208,6 +209,7 @@ export default function Analytics() {
             </p>
           </div>
           <div className="flex items-center gap-4">
+            <LastUpdated entities={['years', 'companies', 'students']} />
             <RefreshButton />
             <div className="flex items-center gap-2">
               <Filter className="h-5 w-5 text-cyan-400" />
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, Filter, RefreshCw, ScrollText, Search, XCircle } from 'lucide-react';
+import { api } from '../lib/api';
+import { getErrorMessage } from '../lib/apiError';
+import { exportToCSV } from '../lib/exportUtils';
+import { AuditAction, AuditEntry } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+    'company.delete': 'Deleted company',
+    'round.delete': 'Deleted round',
+    'round.upload': 'Uploaded round',
+    'student.create': 'Added student',
+    'student.delete': 'Deleted student',
+    'user.create': 'Created user',
+    'user.role-change': 'Changed role',
+    'user.delete': 'Deleted user',
+    'user.password-reset': 'Reset password',
+    'password.change': 'Changed own password',
+};
+
+// Entries recorded by a newer client may carry actions this one does not know
+const actionLabel = (action: string) => ACTION_LABELS[action as AuditAction] ?? action;
+
+const formatTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+// Who changed what - the server records an entry in each of its write handlers
+export default function AuditLog() {
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [actionFilter, setActionFilter] = useState('all');
+    const [actorFilter, setActorFilter] = useState('all');
+    const [outcomeFilter, setOutcomeFilter] = useState<'all' | AuditEntry['outcome']>('all');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+
+    const fetchEntries = useCallback(async () => {
+        setLoading(true);
+        setError('');
+        try {
+            setEntries(await api.getAuditLog());
+        } catch (err: unknown) {
+            setError(getErrorMessage(err, 'Failed to load the audit log'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const actors = useMemo(() => Array.from(new Set(entries.map(entry => entry.actor))).sort(), [entries]);
+    const actions = useMemo(() => Array.from(new Set(entries.map(entry => entry.action))).sort(), [entries]);
+
+    const filtered = useMemo(() => {
+        const search = searchTerm.trim().toLowerCase();
+        // Date inputs are local days; "to" includes the whole day
+        const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+        const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+
+        return entries.filter(entry => {
+            const time = new Date(entry.timestamp).getTime();
+            if (time < from || time > to) return false;
+            if (actionFilter !== 'all' && entry.action !== actionFilter) return false;
+            if (actorFilter !== 'all' && entry.actor !== actorFilter) return false;
+            if (outcomeFilter !== 'all' && entry.outcome !== outcomeFilter) return false;
+            if (!search) return true;
+            return [entry.actor, entry.target.label, entry.target.id, entry.summary, actionLabel(entry.action)]
+                .some(value => value.toLowerCase().includes(search));
+        });
+    }, [entries, searchTerm, actionFilter, actorFilter, outcomeFilter, fromDate, toDate]);
+
+    const handleExport = () => {
+        exportToCSV(filtered.map(entry => ({
+            Timestamp: entry.timestamp,
+            Actor: entry.actor,
+            Action: entry.action,
+            'Target Type': entry.target.type,
+            'Target ID': entry.target.id,
+            Target: entry.target.label,
+            Outcome: entry.outcome,
+            Summary: entry.summary,
+        })), `audit-log-${new Date().toISOString().slice(0, 10)}`);
+    };
+
+    const inputClass = 'py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white';
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            {/* Header */}
+            <div className="glass-strong rounded-2xl p-8 border border-purple-500/20">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold text-gradient mb-2">Audit Log</h1>
+                        <p className="text-gray-600 dark:text-gray-400 flex items-center gap-2">
+                            <ScrollText className="h-4 w-4" />
+                            Every delete, upload and account change, with who made it
+                        </p>
+                    </div>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={fetchEntries}
+                            disabled={loading}
+                            className="px-5 py-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-900 dark:text-white rounded-xl font-medium transition-all flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                            Refresh
+                        </button>
+                        <button
+                            onClick={handleExport}
+                            disabled={filtered.length === 0}
+                            className="px-5 py-3 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all btn-hover flex items-center gap-2 shadow-lg disabled:opacity-50"
+                        >
+                            <Download className="h-4 w-4" />
+                            Export CSV
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 animate-fade-in">
+                    <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+                    <p className="text-red-600 dark:text-red-400 text-sm">{error}</p>
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="glass-strong rounded-2xl p-6 shadow-2xl space-y-4">
+                <div className="flex flex-col lg:flex-row gap-4">
+                    <div className="relative flex-1">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                        <input
+                            type="text"
+                            placeholder="Search actor, target or summary..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            className={`${inputClass} pl-10 pr-4 w-full placeholder-gray-500`}
+                        />
+                    </div>
+                    <div className="relative">
+                        <Filter className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+                        <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value)} className={`${inputClass} pl-10 pr-8 appearance-none`}>
+                            <option value="all">All actions</option>
+                            {actions.map(action => <option key={action} value={action}>{actionLabel(action)}</option>)}
+                        </select>
+                    </div>
+                    <select value={actorFilter} onChange={(e) => setActorFilter(e.target.value)} className={`${inputClass} px-4`}>
+                        <option value="all">All users</option>
+                        {actors.map(actor => <option key={actor} value={actor}>{actor}</option>)}
+                    </select>
+                    <select
+                        value={outcomeFilter}
+                        onChange={(e) => setOutcomeFilter(e.target.value as 'all' | AuditEntry['outcome'])}
+                        className={`${inputClass} px-4`}
+                    >
+                        <option value="all">Any result</option>
+                        <option value="success">Succeeded</option>
+                        <option value="failure">Failed</option>
+                    </select>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+                    <label className="flex items-center gap-2">
+                        From
+                        <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={`${inputClass} px-3`} />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        To
+                        <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={`${inputClass} px-3`} />
+                    </label>
+                    <span className="ml-auto">{filtered.length} of {entries.length} entries</span>
+                </div>
+            </div>
+
+            {/* Entries */}
+            <div className="glass-strong rounded-2xl p-6 shadow-2xl">
+                {loading && entries.length === 0 ? (
+                    <LoadingSpinner text="Loading audit log..." />
+                ) : filtered.length === 0 ? (
+                    <EmptyState
+                        icon={ScrollText}
+                        title={entries.length === 0 ? 'No actions recorded yet' : 'No entries match these filters'}
+                        description={entries.length === 0 ? 'Deletes, uploads and account changes will appear here.' : undefined}
+                    />
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b border-gray-700">
+                                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Time</th>
+                                    <th className="text-left py-3 px-4 text-gray-400 font-medium">User</th>
+                                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Action</th>
+                                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Target</th>
+                                    <th className="text-left py-3 px-4 text-gray-400 font-medium">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filtered.map(entry => (
+                                    <tr key={entry.id} className="border-b border-gray-700/50 hover:bg-gray-700/30 transition-all align-top">
+                                        <td className="py-3 px-4 text-gray-500 whitespace-nowrap">{formatTime(entry.timestamp)}</td>
+                                        <td className="py-3 px-4 text-gray-900 dark:text-white font-medium">{entry.actor}</td>
+                                        <td className="py-3 px-4 text-gray-700 dark:text-gray-300 whitespace-nowrap">{actionLabel(entry.action)}</td>
+                                        <td className="py-3 px-4">
+                                            <p className="text-gray-900 dark:text-white">{entry.target.label}</p>
+                                            <p className="text-gray-500 text-xs">{entry.target.type} · {entry.target.id}</p>
+                                        </td>
+                                        <td className="py-3 px-4">
+                                            <span className={`inline-flex items-center gap-1 text-xs font-medium ${entry.outcome === 'success' ? 'text-green-500' : 'text-red-500'}`}>
+                                                {entry.outcome === 'success' ? <CheckCircle className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                                                {entry.outcome === 'success' ? 'Succeeded' : 'Failed'}
+                                            </span>
+                                            <p className="text-gray-600 dark:text-gray-400 text-xs mt-1">{entry.summary}</p>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { AlertCircle, KeyRound, Lock, LogOut } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { getErrorMessage } from '../lib/apiError';
+import { MIN_PASSWORD_LENGTH } from '../lib/passwords';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const inputClass = 'w-full px-4 py-3 bg-gray-50 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-600 rounded-xl text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all';
+
+// Forced after an admin password reset - ProtectedRoute sends flagged users here
+// until they replace the one-time password with their own.
+export default function ChangePassword() {
+    const { user, loading: authLoading, homePath, changePassword, logout } = useAuth();
+    const navigate = useNavigate();
+    // The page ProtectedRoute sent us away from
+    const returnTo = (useLocation().state as { from?: string } | null)?.from;
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    if (authLoading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <LoadingSpinner />
+            </div>
+        );
+    }
+
+    if (!user) return <Navigate to="/login" replace />;
+    // Also where a successful change lands, once the refreshed user no longer has the flag
+    if (!user.mustChangePassword) return <Navigate to={returnTo ?? homePath} replace />;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (newPassword !== confirmPassword) {
+            setError('New passwords do not match');
+            return;
+        }
+
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+            setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+            return;
+        }
+
+        if (newPassword === currentPassword) {
+            setError('Choose a password different from the one-time password');
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            await changePassword(currentPassword, newPassword);
+        } catch (err: unknown) {
+            setError(getErrorMessage(err, 'Failed to change password'));
+            setLoading(false);
+        }
+    };
+
+    const handleLogout = async () => {
+        await logout();
+        navigate('/login');
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-gray-100 to-gray-200 dark:from-gray-950 dark:via-gray-900 dark:to-black">
+            <div className="glass-strong rounded-2xl p-8 shadow-2xl border border-purple-500/20 max-w-md w-full animate-scale-in">
+                <div className="text-center mb-6">
+                    <div className="mx-auto mb-4 h-14 w-14 rounded-full bg-purple-500/20 flex items-center justify-center">
+                        <KeyRound className="h-7 w-7 text-purple-400" />
+                    </div>
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Choose a new password</h1>
+                    <p className="text-gray-600 dark:text-gray-400 text-sm">
+                        The password for <span className="font-medium text-gray-900 dark:text-white">{user.username}</span> was
+                        reset by an administrator. Replace the one-time password before continuing.
+                    </p>
+                </div>
+
+                {error && (
+                    <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 animate-fade-in">
+                        <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+                        <p className="text-red-600 dark:text-red-400 text-sm">{error}</p>
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            One-time Password
+                        </label>
+                        <input
+                            id="currentPassword"
+                            type="password"
+                            value={currentPassword}
+                            onChange={(e) => setCurrentPassword(e.target.value)}
+                            placeholder="Password you were given"
+                            autoComplete="current-password"
+                            required
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            New Password
+                        </label>
+                        <input
+                            id="newPassword"
+                            type="password"
+                            value={newPassword}
+                            onChange={(e) => setNewPassword(e.target.value)}
+                            placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                            autoComplete="new-password"
+                            required
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            Confirm New Password
+                        </label>
+                        <input
+                            id="confirmPassword"
+                            type="password"
+                            value={confirmPassword}
+                            onChange={(e) => setConfirmPassword(e.target.value)}
+                            placeholder="Confirm new password"
+                            autoComplete="new-password"
+                            required
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="w-full py-3 bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                    >
+                        {loading ? (
+                            <>
+                                <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
+                                Changing Password...
+                            </>
+                        ) : (
+                            <>
+                                <Lock className="h-5 w-5" />
+                                Change Password and Continue
+                            </>
+                        )}
+                    </button>
+                </form>
+
+                <button
+                    onClick={handleLogout}
+                    className="mt-4 w-full py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors flex items-center justify-center gap-2"
+                >
+                    <LogOut className="h-4 w-4" />
+                    Log out instead
+                </button>
+            </div>
+        </div>
+    );
+}
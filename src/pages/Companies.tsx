@@ -1,5 +1,6 @@
 import { useEffect, useState, useCallback } from 'react';
 import { api } from '../lib/api';
+import { getErrorMessage } from '../lib/apiError';
 import { Company } from '../types';
 import { Link } from 'react-router-dom';
 import { Building2, Users, Trophy, Calendar, ArrowRight, Search, Filter, Grid3x3, List, TrendingUp, Target, Trash2, Loader2 } from 'lucide-react';
@@ -7,14 +8,17 @@ import EmptyState from '../components/EmptyState';
 import { SkeletonCard } from '../components/LoadingSpinner';
 import { useDataCache } from '../context/DataCacheContext';
 import RefreshButton from '../components/RefreshButton';
+import LastUpdated from '../components/LastUpdated';
 import { useToast } from '../context/ToastContext';
+import { useAuth } from '../context/AuthContext';
 
 type ViewMode = 'grid' | 'list';
 type SortBy = 'name' | 'placements' | 'successRate' | 'recent';
 
 export default function Companies() {
-  const { fetchCompanies, refreshAll } = useDataCache();
+  const { fetchCompanies, applyMutation } = useDataCache();
   const { showToast, updateToast } = useToast();
+  const { can } = useAuth();
   const [companies, setCompanies] = useState<Company[]>([]);
   const [filteredCompanies, setFilteredCompanies] = useState<Company[]>([]);
   const [loading, setLoading] = useState(true);
@@ -62,10 +66,9 @@ export default function Companies() {
         message: `${companyName} removed. Deleted ${result.deleted.rounds} rounds, ${result.deleted.placements} placements.`
       });
 
-      // ✅ SMART REFRESH: Refetch all data in background (no page reload!)
-      console.log('🔄 Refetching all cached data...');
-      await refreshAll(); // Re-fetches data from API and updates cache
-      console.log('✅ Cache refreshed with latest data');
+      // ✅ TARGETED REFRESH: drop the company and patch its students (no full refetch!)
+      await applyMutation({ type: 'company-deleted', companyYearId, companyName, result });
+      console.log('✅ Cache updated for deleted company');
 
       // Local state will auto-update from the refreshed cache
     } catch (error: unknown) {
@@ -73,7 +76,7 @@ export default function Companies() {
       updateToast(toastId, {
         type: 'error',
         title: 'Deletion Failed',
-        message: (error as Error).message || 'Failed to delete company'
+        message: getErrorMessage(error, 'Failed to delete company')
       });
     } finally {
       setDeleting(null);
@@ -160,6 +163,7 @@ export default function Companies() {
             </p>
           </div>
           <div className="flex items-center gap-4">
+            <LastUpdated entities={['companies']} />
             <RefreshButton className="py-3 px-6" />
             <div className="grid grid-cols-3 gap-4">
               <div className="text-center">
@@ -279,7 +283,7 @@ export default function Companies() {
               company={company}
               viewMode={viewMode}
               index={index}
-              onDelete={handleDeleteCompany}
+              onDelete={can('delete:company') ? handleDeleteCompany : undefined}
               isDeleting={deleting === company.companyYearId}
             />
           ))}
@@ -293,7 +297,7 @@ interface CompanyCardProps {
   company: Company;
   viewMode: ViewMode;
   index: number;
-  onDelete: (companyYearId: string, companyName: string, year: number) => void;
+  onDelete?: (companyYearId: string, companyName: string, year: number) => void;   // No button without it
   isDeleting: boolean;
 }
 
@@ -353,22 +357,24 @@ function CompanyCard({ company, viewMode, index, onDelete, isDeleting }: Company
             >
               {company.status === 'completed' ? 'Completed' : 'Running'}
             </span>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                e.preventDefault();
-                onDelete(company.companyYearId, company.companyName, company.year);
-              }}
-              disabled={isDeleting}
-              className="p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-              title="Delete Company"
-            >
-              {isDeleting ? (
-                <Loader2 size={18} className="animate-spin" />
-              ) : (
-                <Trash2 size={18} />
-              )}
-            </button>
+            {onDelete && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  onDelete(company.companyYearId, company.companyName, company.year);
+                }}
+                disabled={isDeleting}
+                className="p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                title="Delete Company"
+              >
+                {isDeleting ? (
+                  <Loader2 size={18} className="animate-spin" />
+                ) : (
+                  <Trash2 size={18} />
+                )}
+              </button>
+            )}
             <ArrowRight className="h-6 w-6 text-gray-400 group-hover:text-blue-400 group-hover:translate-x-2 transition-all" />
           </div>
         </div>
@@ -438,27 +444,29 @@ function CompanyCard({ company, viewMode, index, onDelete, isDeleting }: Company
               Round {company.currentRound} of {company.totalRounds}
             </span>
           </div>
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              e.preventDefault();
-              onDelete(company.companyYearId, company.companyName, company.year);
-            }}
-            disabled={isDeleting}
-            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm"
-          >
-            {isDeleting ? (
-              <>
-                <Loader2 size={14} className="animate-spin" />
-                <span>Deleting...</span>
-              </>
-            ) : (
-              <>
-                <Trash2 size={14} />
-                <span>Delete</span>
-              </>
-            )}
-          </button>
+          {onDelete && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                onDelete(company.companyYearId, company.companyName, company.year);
+              }}
+              disabled={isDeleting}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm"
+            >
+              {isDeleting ? (
+                <>
+                  <Loader2 size={14} className="animate-spin" />
+                  <span>Deleting...</span>
+                </>
+              ) : (
+                <>
+                  <Trash2 size={14} />
+                  <span>Delete</span>
+                </>
+              )}
+            </button>
+          )}
         </div>
 
         {/* Progress Bar */}
@@ -1,6 +1,8 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { api } from '../lib/api';
+import { getErrorMessage, isApiError } from '../lib/apiError';
+import { companySchema } from '../lib/responseSchemas';
 import { Company, Round, Placement } from '../types';
 import { ArrowLeft, Building2, Users, Trophy, Calendar, CheckCircle2, XCircle, Clock, TrendingUp, Download, Search, Filter as FilterIcon, ChevronRight, FileText, Loader2, Trash2 } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
@@ -8,15 +10,19 @@ import EmptyState from '../components/EmptyState';
 import { exportToCSV } from '../lib/exportUtils';
 import { useDataCache } from '../context/DataCacheContext';
 import { useToast } from '../context/ToastContext';
+import { useAuth } from '../context/AuthContext';
+import LastUpdated from '../components/LastUpdated';
 
 export default function CompanyDetails() {
   const { id } = useParams<{ id: string }>();
-  const { fetchRoundsForCompany, clearCache, refreshAll } = useDataCache();  // ✅ Use cached rounds
+  const { fetchRoundsForCompany, applyMutation, rounds: cachedRounds } = useDataCache();  // ✅ Use cached rounds
   const { showToast, updateToast } = useToast();
+  const { can } = useAuth();
   const [company, setCompany] = useState<Company | null>(null);
   const [rounds, setRounds] = useState<Record<string, Round>>({});
   const [placements, setPlacements] = useState<Record<string, Placement>>({});
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [selectedRound, setSelectedRound] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'qualified' | 'not_qualified' | 'pending'>('all');
@@ -34,7 +40,7 @@ export default function CompanyDetails() {
 
       // ✅ Fetch company details and use cached rounds
       const [companyData, roundsData] = await Promise.all([
-        api.request<Company>(`/companies/${id}`),
+        api.request<Company>(`/companies/${id}`, {}, companySchema),
         fetchRoundsForCompany(id)  // ✅ Use cached rounds!
       ]);
 
@@ -42,6 +48,7 @@ export default function CompanyDetails() {
       console.log('Rounds data received (cached):', roundsData);
 
       setCompany(companyData);
+      setLoadError(null);
 
       // Convert rounds array to object with roundId as key
       const roundsMap: Record<string, Round> = {};
@@ -63,6 +70,7 @@ export default function CompanyDetails() {
       console.error('Error fetching company details:', error);
       // Set company to null so we show the error state
       setCompany(null);
+      setLoadError(isApiError(error) && error.code === 'NOT_FOUND' ? null : getErrorMessage(error, 'Failed to load company'));
     } finally {
       setLoading(false);
     }
@@ -72,6 +80,15 @@ export default function CompanyDetails() {
     fetchCompanyDetails();
   }, [id, fetchCompanyDetails]);
 
+  // Pick up rounds revalidated in the background after the first load
+  const companyRounds = id ? cachedRounds[id] : undefined;
+  useEffect(() => {
+    if (!companyRounds) return;
+    setRounds(Object.fromEntries(
+      companyRounds.filter(round => round.roundId).map(round => [round.roundId, round])
+    ));
+  }, [companyRounds]);
+
   const handleDeleteRound = async (roundId: string, roundNumber: number, e: React.MouseEvent) => {
     e.stopPropagation();
 
@@ -99,20 +116,17 @@ export default function CompanyDetails() {
         message: `Round ${roundNumber} removed. Updated ${result.deleted.students_updated} students.`
       });
 
-      // ✅ AUTOMATIC REFRESH
-      console.log('🗑️ Clearing cache after round deletion...');
-      clearCache();
-      await refreshAll();
+      // ✅ TARGETED REFRESH: only this company, its rounds and the students it touched
+      await applyMutation({ type: 'round-deleted', companyYearId: company!.companyYearId, result });
 
-      // Refresh data (refreshAll fetches fresh data, but we might want to ensure local state updation)
-      // fetchCompanyDetails(); // refreshAll + component re-render should handle it, or we call this to be safe
+      // Company header (placements, status) is read straight from the API
       await fetchCompanyDetails();
     } catch (error: unknown) {
       // Update toast to error
       updateToast(toastId, {
         type: 'error',
         title: 'Deletion Failed',
-        message: (error as Error).message || 'Failed to delete round'
+        message: getErrorMessage(error, 'Failed to delete round')
       });
     } finally {
       setDeletingRound(null);
@@ -127,8 +141,8 @@ export default function CompanyDetails() {
     return (
       <EmptyState
         icon={Building2}
-        title="Company not found"
-        description="The company you're looking for doesn't exist or has been removed"
+        title={loadError ? 'Could not load company' : 'Company not found'}
+        description={loadError ?? "The company you're looking for doesn't exist or has been removed"}
       />
     );
   }
@@ -186,6 +200,7 @@ export default function CompanyDetails() {
                     </>
                   )}
                 </span>
+                <LastUpdated roundsFor={id} />
               </div>
               <div className="mt-3 flex items-center gap-2">
                 <TrendingUp className="h-4 w-4 text-blue-400" />
@@ -319,18 +334,20 @@ export default function CompanyDetails() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <button
-                        onClick={(e) => handleDeleteRound(roundId, round.roundNumber, e)}
-                        disabled={deletingRound === roundId}
-                        className="p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                        title="Delete Round"
-                      >
-                        {deletingRound === roundId ? (
-                          <Loader2 size={16} className="animate-spin" />
-                        ) : (
-                          <Trash2 size={16} />
-                        )}
-                      </button>
+                      {can('delete:round') && (
+                        <button
+                          onClick={(e) => handleDeleteRound(roundId, round.roundNumber, e)}
+                          disabled={deletingRound === roundId}
+                          className="p-2 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                          title="Delete Round"
+                        >
+                          {deletingRound === roundId ? (
+                            <Loader2 size={16} className="animate-spin" />
+                          ) : (
+                            <Trash2 size={16} />
+                          )}
+                        </button>
+                      )}
                       <ChevronRight className="h-5 w-5 text-gray-500 group-hover:text-blue-400 group-hover:translate-x-1 transition-all" />
                     </div>
                   </div>
@@ -5,6 +5,7 @@ import StatCard from '../components/StatCard';
 import { SkeletonCard } from '../components/LoadingSpinner';
 import { useDataCache } from '../context/DataCacheContext';
 import RefreshButton from '../components/RefreshButton';
+import LastUpdated from '../components/LastUpdated';
 
 interface DashboardSummary {
   counts: {
@@ -148,6 +149,7 @@ export default function Dashboard() {
             </p>
           </div>
           <div className="flex items-center gap-4">
+            <LastUpdated entities={['students', 'companies']} />
             <RefreshButton className="py-4 px-6" />
             <div className="px-6 py-3 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl border border-blue-500/30">
               <div className="text-center">
@@ -13,14 +13,14 @@ import {
 
 export default function Home() {
     const navigate = useNavigate();
-    const { isAuthenticated, loading } = useAuth();
+    const { isAuthenticated, homePath, loading } = useAuth();
 
-    // Redirect to dashboard if already logged in
+    // Redirect to the role's landing page if already logged in
     useEffect(() => {
         if (!loading && isAuthenticated) {
-            navigate('/dashboard', { replace: true });
+            navigate(homePath, { replace: true });
         }
-    }, [isAuthenticated, loading, navigate]);
+    }, [isAuthenticated, homePath, loading, navigate]);
     const stats = [
         { icon: GraduationCap, label: 'Programs Offered', value: '15+' },
         { icon: Users, label: 'Faculty Members', value: '300+' },
@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { LogIn, Lock, User, AlertCircle, Sparkles, CheckCircle, ArrowLeft } from 'lucide-react';
+import { getErrorMessage } from '../lib/apiError';
+import { homePathForRole } from '../lib/permissions';
+import { IDLE_TIMEOUT_MS } from '../lib/session';
+import { LogIn, Lock, User, AlertCircle, Sparkles, CheckCircle, ArrowLeft, Clock } from 'lucide-react';
 import RobotGuardian from '../components/RobotGuardian';
 
 export default function Login() {
@@ -13,15 +16,17 @@ export default function Login() {
     const [focusedField, setFocusedField] = useState<'username' | 'password' | null>(null);
     const [isTyping, setIsTyping] = useState(false);
     const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
-    const { login, isAuthenticated, loading: authLoading } = useAuth();
+    const { login, isAuthenticated, homePath, sessionEnded, loading: authLoading } = useAuth();
     const navigate = useNavigate();
+    // Set by ProtectedRoute when it sent us here from a protected page
+    const returnTo = (useLocation().state as { from?: string } | null)?.from;
 
     // Redirect if already authenticated (but not if we just logged in successfully - let the success animation play)
     useEffect(() => {
         if (!authLoading && isAuthenticated && !success) {
-            navigate('/dashboard', { replace: true });
+            navigate(returnTo ?? homePath, { replace: true });
         }
-    }, [isAuthenticated, authLoading, navigate, success]);
+    }, [isAuthenticated, authLoading, navigate, success, homePath, returnTo]);
 
     // Mouse tracking
     useEffect(() => {
@@ -61,16 +66,19 @@ export default function Login() {
         setSuccess(false);
         setLoading(true);
 
+        // After an idle or expired logout only the same user goes back to that page
+        const ended = sessionEnded;
         try {
-            await login(username, password);
+            const user = await login(username, password);
             setLoading(false); // Stop loading to show success state
             setSuccess(true);
+            const resume = returnTo && (!ended || ended.username === user.username);
             // Show success animation for 2 seconds before navigating
             setTimeout(() => {
-                navigate('/dashboard');
+                navigate(resume ? returnTo : homePathForRole(user.role));
             }, 2000);
         } catch (err: unknown) {
-            setError((err as Error).message || 'Login failed. Please check your credentials.');
+            setError(getErrorMessage(err, 'Login failed. Please check your credentials.'));
             setLoading(false);
         }
     };
@@ -206,6 +214,17 @@ export default function Login() {
 
                     {/* Login Card */}
                     <div className="bg-white dark:bg-gray-900/50 rounded-2xl p-8 shadow-2xl border border-gray-200 dark:border-gray-800 animate-slide-in-right backdrop-blur-xl">
+                        {sessionEnded && !error && !success && (
+                            <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-xl flex items-start gap-3 animate-fade-in">
+                                <Clock className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+                                <p className="text-yellow-700 dark:text-yellow-400 text-sm">
+                                    {sessionEnded.reason === 'idle'
+                                        ? `You were logged out after ${Math.round(IDLE_TIMEOUT_MS / 60000)} minutes without activity.`
+                                        : 'Your session has expired.'}
+                                    {returnTo ? ' Log in again to return to where you left off.' : ' Please log in again.'}
+                                </p>
+                            </div>
+                        )}
                         {error && (
                             <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-3 animate-fade-in">
                                 <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
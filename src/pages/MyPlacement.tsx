@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Award, Briefcase, Building2, CheckCircle2, Clock, GraduationCap, Mail, TrendingUp, Trophy, UserX, XCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useDataCache } from '../context/DataCacheContext';
+import { api } from '../lib/api';
+import { getErrorMessage, isApiError } from '../lib/apiError';
+import { CompanyStatus, Student } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import StatCard from '../components/StatCard';
+
+const STATUS_BADGES: Record<CompanyStatus['status'], { label: string; className: string }> = {
+    selected: { label: 'Selected ✓', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+    not_selected: { label: 'Not Selected', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+    in_process: { label: 'In Process', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+};
+
+// Student portal - only the logged-in student's own record (GET /students/me) and
+// the company list, which carries no student data
+export default function MyPlacement() {
+    const { user } = useAuth();
+    const { fetchCompanies, companies: cachedCompanies } = useDataCache();
+    const [student, setStudent] = useState<Student | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [notLinked, setNotLinked] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    // fetchCompanies changes with every companies cache write; background revalidations
+    // must not reload the record, so it is read through a ref and the list from the cache
+    const fetchCompaniesRef = useRef(fetchCompanies);
+    useEffect(() => {
+        fetchCompaniesRef.current = fetchCompanies;
+    }, [fetchCompanies]);
+
+    const loadRecord = useCallback(async () => {
+        setLoading(true);
+        setLoadError(null);
+        setNotLinked(false);
+
+        try {
+            const [record] = await Promise.all([
+                api.getMyStudentRecord(),
+                fetchCompaniesRef.current(),
+            ]);
+            setStudent(record);
+        } catch (error) {
+            console.error('Failed to load placement record:', error);
+            if (isApiError(error) && error.code === 'NOT_FOUND') {
+                setNotLinked(true);
+            } else {
+                setLoadError(getErrorMessage(error, 'Failed to load your placement record'));
+            }
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    // Once on mount
+    useEffect(() => {
+        loadRecord();
+    }, [loadRecord]);
+
+    const companies = cachedCompanies ?? [];
+
+    if (loading) {
+        return <LoadingSpinner size="lg" text="Loading your placement record..." />;
+    }
+
+    if (notLinked || loadError || !student) {
+        return (
+            <EmptyState
+                icon={UserX}
+                title={notLinked ? 'No placement record linked' : 'Could not load your placement record'}
+                description={notLinked
+                    ? `Your account${user?.rollNumber ? ` (roll number ${user.rollNumber})` : ''} is not linked to a student record yet. Ask the placement office to link it.`
+                    : loadError ?? undefined}
+                action={notLinked ? undefined : { label: 'Try again', onClick: loadRecord }}
+            />
+        );
+    }
+
+    const companyNames = new Map(companies.map(company => [company.companyYearId, company.companyName]));
+    const applications = Object.entries(student.companyStatus)
+        .sort(([, a], [, b]) => b.year - a.year || b.roundReached - a.roundReached);
+    const runningDrives = companies
+        .filter(company => company.status === 'running')
+        .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            {/* Header */}
+            <div className="glass-strong rounded-2xl p-8 border border-blue-500/20">
+                <div className="flex items-center gap-4">
+                    <div className="h-20 w-20 rounded-2xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white font-bold text-3xl shadow-glow-blue">
+                        {student.name.charAt(0).toUpperCase()}
+                    </div>
+                    <div>
+                        <h1 className="text-4xl font-bold text-gradient-blue mb-2">{student.name}</h1>
+                        <p className="text-gray-600 dark:text-gray-400 flex flex-wrap items-center gap-x-4 gap-y-1">
+                            <span className="flex items-center gap-2">
+                                <GraduationCap className="h-4 w-4" />
+                                {student.rollNumber}
+                            </span>
+                            <span className="flex items-center gap-2 break-all">
+                                <Mail className="h-4 w-4" />
+                                {student.email}
+                            </span>
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                <StatCard
+                    title="Status"
+                    value={student.currentStatus === 'placed' ? 'Placed' : 'Not Placed'}
+                    icon={student.currentStatus === 'placed' ? CheckCircle2 : Clock}
+                    color={student.currentStatus === 'placed' ? 'green' : 'yellow'}
+                />
+                <StatCard title="Total Offers" value={student.totalOffers} icon={Award} color="purple" />
+                <StatCard title="Companies Applied" value={applications.length} icon={Building2} color="blue" />
+                <StatCard
+                    title="In Process"
+                    value={applications.filter(([, status]) => status.status === 'in_process').length}
+                    icon={TrendingUp}
+                    color="pink"
+                />
+            </div>
+
+            {/* Selected Companies */}
+            {student.selectedCompanies.length > 0 && (
+                <div className="glass-strong rounded-2xl p-6 border border-green-500/20">
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                        <Trophy className="h-5 w-5 text-green-400" />
+                        Selected Companies ({student.selectedCompanies.length})
+                    </h2>
+                    <div className="flex flex-wrap gap-3">
+                        {student.selectedCompanies.map(company => (
+                            <span
+                                key={company}
+                                className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-500/20 to-green-600/20 text-green-400 rounded-lg text-sm font-medium border border-green-500/30"
+                            >
+                                <Trophy className="h-4 w-4" />
+                                {company}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Applications */}
+                <div className="glass-strong rounded-2xl p-6 border border-gray-700/50">
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                        <Building2 className="h-5 w-5 text-blue-400" />
+                        My Applications ({applications.length})
+                    </h2>
+                    {applications.length === 0 ? (
+                        <p className="text-gray-600 dark:text-gray-400">You have not appeared in any drive yet.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {applications.map(([companyYearId, status]) => (
+                                <div key={companyYearId} className="rounded-xl p-4 border border-gray-700/50 bg-gray-50 dark:bg-gray-800/30">
+                                    <div className="flex items-center justify-between gap-3 mb-2">
+                                        <div>
+                                            <p className="text-gray-900 dark:text-white font-medium">{companyNames.get(companyYearId) ?? companyYearId}</p>
+                                            <p className="text-gray-600 dark:text-gray-500 text-sm">Year: {status.year}</p>
+                                        </div>
+                                        <span className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-medium border ${STATUS_BADGES[status.status].className}`}>
+                                            {STATUS_BADGES[status.status].label}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-6 text-sm">
+                                        <span className="flex items-center gap-2 text-gray-400">
+                                            <TrendingUp className="h-4 w-4" />
+                                            Round Reached: <strong className="text-blue-400">{status.roundReached}</strong>
+                                        </span>
+                                        {status.finalSelection !== null && (
+                                            <span className={`flex items-center gap-2 ${status.finalSelection ? 'text-green-400' : 'text-red-400'}`}>
+                                                {status.finalSelection ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                                                {status.finalSelection ? 'Finally Selected' : 'Not in Final'}
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Running drives */}
+                <div className="glass-strong rounded-2xl p-6 border border-gray-700/50">
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                        <Briefcase className="h-5 w-5 text-purple-400" />
+                        Running Drives ({runningDrives.length})
+                    </h2>
+                    {runningDrives.length === 0 ? (
+                        <p className="text-gray-600 dark:text-gray-400">No drives are running right now.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {runningDrives.map(company => {
+                                const myStatus = student.companyStatus[company.companyYearId];
+                                return (
+                                    <div key={company.companyYearId} className="rounded-xl p-4 border border-gray-700/50 bg-gray-50 dark:bg-gray-800/30 flex items-center justify-between gap-3">
+                                        <div>
+                                            <p className="text-gray-900 dark:text-white font-medium">{company.companyName}</p>
+                                            <p className="text-gray-600 dark:text-gray-500 text-sm">
+                                                {company.year} · Round {company.currentRound}{company.totalRounds > 0 ? ` of ${company.totalRounds}` : ''}
+                                            </p>
+                                        </div>
+                                        {myStatus ? (
+                                            <span className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-medium border ${STATUS_BADGES[myStatus.status].className}`}>
+                                                {myStatus.status === 'in_process' ? `In round ${myStatus.roundReached}` : STATUS_BADGES[myStatus.status].label}
+                                            </span>
+                                        ) : (
+                                            <span className="text-gray-500 text-xs">Not applied</span>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
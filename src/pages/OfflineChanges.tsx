@@ -0,0 +1,128 @@
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, Send, Trash2, UserMinus, UserPlus, Upload, Wifi, WifiOff, XCircle } from 'lucide-react';
+import EmptyState from '../components/EmptyState';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { describeOfflineMutation } from '../lib/offlineQueue';
+import { formatCacheAge } from '../lib/cachePolicy';
+import { OfflineMutation, QueuedMutation } from '../types/offline';
+
+const KIND_ICONS: Record<OfflineMutation['kind'], typeof UserPlus> = {
+    'create-student': UserPlus,
+    'delete-student': UserMinus,
+    'upload-round': Upload,
+};
+
+const STATUS_STYLES: Record<QueuedMutation['status'], { label: string; className: string }> = {
+    pending: { label: 'Waiting', className: 'bg-blue-500/20 text-blue-600 dark:text-blue-400' },
+    replaying: { label: 'Sending', className: 'bg-purple-500/20 text-purple-600 dark:text-purple-400' },
+    conflict: { label: 'Conflict', className: 'bg-yellow-500/20 text-yellow-700 dark:text-yellow-400' },
+    failed: { label: 'Failed', className: 'bg-red-500/20 text-red-600 dark:text-red-400' },
+};
+
+/**
+ * Offline Changes Page
+ *
+ * Writes made without a connection, oldest first. Each can be replayed or
+ * discarded; conflicts with newer server data need an explicit decision.
+ */
+export default function OfflineChanges() {
+    const { isOnline, items, replay, replayAll, discard } = useOfflineQueue();
+    const now = Date.now();
+    const replayable = items.filter(item => item.status === 'pending' || item.status === 'failed').length;
+    const busy = items.some(item => item.status === 'replaying');
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            {/* Header */}
+            <div className="glass-strong rounded-2xl p-8 border border-blue-500/20">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <div>
+                        <h1 className="text-4xl font-bold text-gradient-blue mb-2">Offline Changes</h1>
+                        <p className="text-gray-600 dark:text-gray-400 flex items-center gap-2">
+                            <CloudOff className="h-4 w-4" />
+                            Changes made without a connection, kept on this device until they are sent
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium ${isOnline
+                            ? 'bg-green-500/20 text-green-600 dark:text-green-400'
+                            : 'bg-red-500/20 text-red-600 dark:text-red-400'
+                            }`}>
+                            {isOnline ? <Wifi className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
+                            {isOnline ? 'Online' : 'Offline'}
+                        </span>
+                        <button
+                            onClick={() => replayAll()}
+                            disabled={!isOnline || busy || replayable === 0}
+                            className="px-4 py-2 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-white font-medium hover:from-blue-600 hover:to-purple-700 transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                        >
+                            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                            Send All ({replayable})
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {items.length === 0 ? (
+                <EmptyState
+                    icon={CloudOff}
+                    title="Nothing waiting"
+                    description="Students added or deleted and rounds uploaded while offline show up here."
+                />
+            ) : (
+                <div className="glass-strong rounded-2xl p-6 space-y-3">
+                    {items.map(item => {
+                        const { title, detail } = describeOfflineMutation(item.mutation);
+                        const Icon = KIND_ICONS[item.mutation.kind];
+                        const status = STATUS_STYLES[item.status];
+                        const isReplaying = item.status === 'replaying';
+
+                        return (
+                            <div key={item.id} className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700">
+                                <div className="flex items-center gap-3">
+                                    <div className="p-2 rounded-lg bg-blue-500/10">
+                                        <Icon className="h-5 w-5 text-blue-500" />
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-medium text-gray-900 dark:text-white truncate">{title}</p>
+                                        <p className="text-sm text-gray-500 truncate">{detail} · queued {formatCacheAge(item.createdAt, now)}</p>
+                                    </div>
+                                    <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${status.className}`}>
+                                        {status.label}
+                                    </span>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => replay(item.id, { force: item.status === 'conflict' })}
+                                            disabled={!isOnline || isReplaying}
+                                            className="px-3 py-1 text-sm rounded-lg bg-blue-500/20 hover:bg-blue-500/30 text-blue-600 dark:text-blue-400 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                                            title={item.status === 'conflict' ? 'Send it anyway' : 'Send now'}
+                                        >
+                                            {isReplaying ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+                                            {item.status === 'conflict' ? 'Send anyway' : 'Replay'}
+                                        </button>
+                                        <button
+                                            onClick={() => discard(item.id)}
+                                            disabled={isReplaying}
+                                            className="p-2 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400 hover:text-red-500 transition-all disabled:opacity-50"
+                                            title="Discard this change"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {item.error && (
+                                    <p className={`mt-3 text-sm flex items-start gap-2 ${item.status === 'conflict' ? 'text-yellow-700 dark:text-yellow-400' : 'text-red-500'}`}>
+                                        {item.status === 'conflict'
+                                            ? <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                                            : <XCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />}
+                                        {item.error}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { api } from '../lib/api';
+import { getErrorMessage } from '../lib/apiError';
 import { User as UserIcon, Lock, Mail, Shield, AlertCircle, CheckCircle, LogOut } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
@@ -38,7 +39,7 @@ export default function Profile() {
             setNewPassword('');
             setConfirmPassword('');
         } catch (err: unknown) {
-            setError((err as Error).message || 'Failed to change password');
+            setError(getErrorMessage(err, 'Failed to change password'));
         } finally {
             setLoading(false);
         }
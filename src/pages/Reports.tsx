@@ -5,6 +5,7 @@ import LoadingSpinner from '../components/LoadingSpinner';
 import { exportToCSV } from '../lib/exportUtils';
 import { useDataCache } from '../context/DataCacheContext';
 import RefreshButton from '../components/RefreshButton';
+import LastUpdated from '../components/LastUpdated';
 
 export default function Reports() {
     const { fetchYears, fetchCompanies, fetchStudents } = useDataCache();
@@ -90,6 +91,7 @@ export default function Reports() {
                         </p>
                     </div>
                     <div className="flex gap-3">
+                        <LastUpdated entities={['years', 'companies', 'students']} className="self-center" />
                         <RefreshButton />
                         <select
                             value={selectedYear}
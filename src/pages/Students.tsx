@@ -1,25 +1,18 @@
 import { useState } from 'react';
-import { Student } from '../types';
+import { CreateStudentPayload, Student } from '../types';
 import { Users, Search, Download, Loader2, CheckCircle2, XCircle, Award, GraduationCap, UserPlus, X, Mail, Building2, TrendingUp, Trophy, Trash2 } from 'lucide-react';
 import StatCard from '../components/StatCard';
 import EmptyState from '../components/EmptyState';
 import { exportToCSV } from '../lib/exportUtils';
 import { useIncrementalStudents } from '../hooks/useIncrementalStudents';
-import { api } from '../lib/api';
+import { getErrorMessage } from '../lib/apiError';
 import RefreshButton from '../components/RefreshButton';
+import LastUpdated from '../components/LastUpdated';
 import { useToast } from '../context/ToastContext';
-
-interface DeleteStudentResponse {
-  message: string;
-  studentId: string;
-  studentName: string;
-  cascadingUpdates: {
-    companiesAffected: number;
-    roundsDeleted: number;
-    placementsDeleted: number;
-    yearsAffected: number;
-  };
-}
+import { useDataCache } from '../context/DataCacheContext';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { isOffline } from '../lib/offlineQueue';
+import { useAuth } from '../context/AuthContext';
 
 export default function Students() {
   const [searchTerm, setSearchTerm] = useState('');
@@ -27,10 +20,12 @@ export default function Students() {
   const [statusFilter, setStatusFilter] = useState<'all' | 'placed' | 'not_placed'>('all');
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [isCreating, setIsCreating] = useState(false);
   const [formData, setFormData] = useState({ name: '', rollNumber: '', email: '' });
   const [formError, setFormError] = useState('');
-  const { showToast, updateToast } = useToast();
+  const { showToast } = useToast();
+  const { createStudent, deleteStudent, pendingStudentIds } = useDataCache();
+  const { queueMutation } = useOfflineQueue();
+  const { can } = useAuth();
 
   // Trigger search on Enter key
   const handleSearchKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -62,11 +57,9 @@ export default function Students() {
   };
 
   const handleCloseModal = () => {
-    if (!isCreating) {
-      setShowAddModal(false);
-      setFormData({ name: '', rollNumber: '', email: '' });
-      setFormError('');
-    }
+    setShowAddModal(false);
+    setFormData({ name: '', rollNumber: '', email: '' });
+    setFormError('');
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -74,7 +67,7 @@ export default function Students() {
     setFormError('');
   };
 
-  const handleCreateStudent = async (e: React.FormEvent) => {
+  const handleCreateStudent = (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!formData.name.trim()) {
@@ -94,33 +87,47 @@ export default function Students() {
       return;
     }
 
-    try {
-      setIsCreating(true);
-      const result = await api.createStudent({
-        name: formData.name.trim(),
-        rollNumber: formData.rollNumber.trim(),
-        email: formData.email.trim()
-      });
-
-      alert(`✅ ${result.message} \n\nStudent added successfully!`);
+    const payload = {
+      name: formData.name.trim(),
+      rollNumber: formData.rollNumber.trim(),
+      email: formData.email.trim()
+    };
+    handleCloseModal();
+    submitStudent(payload);
+  };
 
-      setShowAddModal(false);
-      setFormData({ name: '', rollNumber: '', email: '' });
-      setFormError('');
+  // Optimistic: the row appears at once and is rolled back if the server refuses it
+  const submitStudent = async (payload: CreateStudentPayload) => {
+    if (isOffline()) {
+      queueMutation({ kind: 'create-student', payload });
+      showToast({
+        type: 'success',
+        title: 'Saved Offline',
+        message: `${payload.name} will be added once you send your offline changes.`
+      });
+      return;
+    }
 
-      // Refresh page to show new student
-      window.location.reload();
+    try {
+      await createStudent(payload);
+      showToast({
+        type: 'success',
+        title: 'Student Added',
+        message: `${payload.name} (${payload.rollNumber}) was added.`
+      });
     } catch (error: unknown) {
-      setFormError((error as Error).message || 'Failed to create student');
-    } finally {
-      setIsCreating(false);
+      showToast({
+        type: 'error',
+        title: 'Could Not Add Student',
+        message: `${payload.name} was removed from the list. ${getErrorMessage(error, 'Failed to create student')}`,
+        duration: 10000,
+        action: { label: 'Retry', onClick: () => submitStudent(payload) }
+      });
     }
   };
 
-  const [deletingStudent, setDeletingStudent] = useState<string | null>(null);
-
-  const handleDeleteStudent = async (studentId: string, studentName: string) => {
-    const confirmMessage = `⚠️  DELETE "${studentName}" ?\n\n` +
+  const handleDeleteStudent = (student: Student) => {
+    const confirmMessage = `⚠️  DELETE "${student.name}" ?\n\n` +
       `This will permanently delete: \n` +
       `• Student profile and personal data\n` +
       `• All round participation records\n` +
@@ -133,40 +140,38 @@ export default function Students() {
       return;
     }
 
-    // Show loading toast
-    const toastId = showToast({
-      type: 'loading',
-      title: 'Deleting Student',
-      message: `Removing ${studentName} and details...`
-    });
+    removeStudent(student);
+  };
 
-    try {
-      setDeletingStudent(studentId);
-      const result = await api.deleteStudent(studentId) as DeleteStudentResponse;
+  // Optimistic: the row disappears at once and comes back if the delete fails
+  const removeStudent = async (student: Student) => {
+    if (isOffline()) {
+      queueMutation({ kind: 'delete-student', student });
+      showToast({
+        type: 'success',
+        title: 'Saved Offline',
+        message: `${student.name} will be deleted once you send your offline changes.`
+      });
+      return;
+    }
 
+    try {
+      const result = await deleteStudent(student);
       const cascading = result.cascadingUpdates;
 
-      // Update toast to success
-      updateToast(toastId, {
+      showToast({
         type: 'success',
         title: 'Student Deleted',
-        message: `${studentName} removed. Affected: ${cascading.companiesAffected} companies, ${cascading.placementsDeleted} placements.`
+        message: `${student.name} removed. Affected: ${cascading.companiesAffected} companies, ${cascading.placementsDeleted} placements.`
       });
-
-      // Refresh page after short delay to show toast
-      setTimeout(() => {
-        window.location.reload();
-      }, 2000);
-
     } catch (error: unknown) {
-      // Update toast to error
-      updateToast(toastId, {
+      showToast({
         type: 'error',
         title: 'Deletion Failed',
-        message: (error as Error).message || 'Failed to delete student'
+        message: `${student.name} was restored. ${getErrorMessage(error, 'Failed to delete student')}`,
+        duration: 10000,
+        action: { label: 'Retry', onClick: () => removeStudent(student) }
       });
-    } finally {
-      setDeletingStudent(null);
     }
   };
 
@@ -182,7 +187,10 @@ export default function Students() {
               Complete student management and tracking
             </p>
           </div>
-          <RefreshButton />
+          <div className="flex items-center gap-4">
+            <LastUpdated entities={['students']} />
+            <RefreshButton />
+          </div>
         </div>
       </div>
 
@@ -260,13 +268,15 @@ export default function Students() {
             <option value="placed">Placed</option>
             <option value="not_placed">Not Placed</option>
           </select>
-          <button
-            onClick={handleOpenModal}
-            className="px-6 py-3 bg-green-600 dark:bg-green-500 text-white rounded-xl font-medium transition-all btn-hover flex items-center gap-2 shadow-lg shadow-green-500/30 hover:bg-green-700 dark:hover:bg-green-600"
-          >
-            <UserPlus className="h-4 w-4" />
-            Add Student
-          </button>
+          {can('create:student') && (
+            <button
+              onClick={handleOpenModal}
+              className="px-6 py-3 bg-green-600 dark:bg-green-500 text-white rounded-xl font-medium transition-all btn-hover flex items-center gap-2 shadow-lg shadow-green-500/30 hover:bg-green-700 dark:hover:bg-green-600"
+            >
+              <UserPlus className="h-4 w-4" />
+              Add Student
+            </button>
+          )}
           <button
             onClick={() => {
               const exportData = students.map((s: Student) => ({
@@ -344,96 +354,98 @@ export default function Students() {
                   </tr>
                 </thead>
                 <tbody>
-                  {students.map((student: Student) => (
-                    <tr
-                      key={student.studentId}
-                      className="border-b border-gray-700/50 hover:bg-gray-700/30 transition-colors duration-150 group"
-                    >
-                      <td className="py-4 px-4">
-                        <div className="flex items-center gap-3">
-                          <div className="h-12 w-12 rounded-lg bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center text-always-white font-semibold shadow-lg group-hover:scale-110 transition-transform">
-                            {student.name.split(' ').map((n: string) => n[0]).join('').slice(0, 2).toUpperCase()}
+                  {students.map((student: Student) => {
+                    const isPending = pendingStudentIds.includes(student.studentId);
+                    return (
+                      <tr
+                        key={student.studentId}
+                        className="border-b border-gray-700/50 hover:bg-gray-700/30 transition-colors duration-150 group"
+                      >
+                        <td className="py-4 px-4">
+                          <div className="flex items-center gap-3">
+                            <div className="h-12 w-12 rounded-lg bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center text-always-white font-semibold shadow-lg group-hover:scale-110 transition-transform">
+                              {student.name.split(' ').map((n: string) => n[0]).join('').slice(0, 2).toUpperCase()}
+                            </div>
+                            <div>
+                              <span className="text-white font-medium block group-hover:text-purple-400 transition-colors">
+                                {student.name}
+                              </span>
+                              {isPending && (
+                                <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-md bg-yellow-500/20 text-yellow-400 text-xs font-medium">
+                                  <Loader2 className="h-3 w-3 animate-spin" />
+                                  Saving...
+                                </span>
+                              )}
+                            </div>
                           </div>
-                          <div>
-                            <span className="text-white font-medium block group-hover:text-purple-400 transition-colors">
-                              {student.name}
-                            </span>
+                        </td>
+                        <td className="py-4 px-4">
+                          <span className="text-blue-400 font-mono">{student.rollNumber}</span>
+                        </td>
+                        <td className="py-4 px-4">
+                          <div className="flex items-center gap-2 text-gray-300">
+                            <Mail className="h-4 w-4 text-gray-500" />
+                            <span className="text-sm">{student.email}</span>
                           </div>
-                        </div>
-                      </td>
-                      <td className="py-4 px-4">
-                        <span className="text-blue-400 font-mono">{student.rollNumber}</span>
-                      </td>
-                      <td className="py-4 px-4">
-                        <div className="flex items-center gap-2 text-gray-300">
-                          <Mail className="h-4 w-4 text-gray-500" />
-                          <span className="text-sm">{student.email}</span>
-                        </div>
-                      </td>
-                      <td className="py-4 px-4">
-                        <span
-                          className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-medium ${student.currentStatus === 'placed'
-                            ? 'bg-green-500/20 text-green-400'
-                            : 'bg-red-500/20 text-red-400'
-                            }`}
-                        >
-                          {student.currentStatus === 'placed' ? (
-                            <>
-                              <CheckCircle2 className="h-3 w-3 mr-1" />
-                              Placed
-                            </>
-                          ) : (
-                            <>
-                              <XCircle className="h-3 w-3 mr-1" />
-                              Not Placed
-                            </>
-                          )}
-                        </span>
-                      </td>
-                      <td className="py-4 px-4 text-center">
-                        <span className="inline-flex items-center justify-center h-8 w-8 rounded-lg bg-gradient-to-br from-yellow-500 to-yellow-600 text-white font-bold shadow-lg">
-                          {student.totalOffers}
-                        </span>
-                      </td>
-                      <td className="py-4 px-4 text-center">
-                        <span className="text-gray-300 font-medium">
-                          {Object.keys(student.companyStatus).length}
-                        </span>
-                      </td>
-                      <td className="py-4 px-4">
-                        <div className="flex items-center justify-center gap-3">
-                          <button
-                            onClick={() => setSelectedStudent(student)}
-                            className="group relative px-5 py-2.5 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white text-sm font-semibold rounded-lg transition-all duration-200 shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 hover:scale-105 active:scale-95 whitespace-nowrap flex items-center gap-2"
+                        </td>
+                        <td className="py-4 px-4">
+                          <span
+                            className={`inline-flex items-center px-3 py-1.5 rounded-lg text-xs font-medium ${student.currentStatus === 'placed'
+                              ? 'bg-green-500/20 text-green-400'
+                              : 'bg-red-500/20 text-red-400'
+                              }`}
                           >
-                            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                            </svg>
-                            <span>View</span>
-                          </button>
-                          <button
-                            onClick={() => handleDeleteStudent(student.studentId, student.name)}
-                            disabled={deletingStudent === student.studentId}
-                            className="group relative px-5 py-2.5 bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white text-sm font-semibold rounded-lg transition-all duration-200 shadow-lg shadow-red-500/30 hover:shadow-red-500/50 hover:scale-105 active:scale-95 disabled:hover:scale-100 whitespace-nowrap flex items-center justify-center gap-2 min-w-[110px]"
-                            title={deletingStudent === student.studentId ? "Deleting..." : "Delete Student"}
-                          >
-                            {deletingStudent === student.studentId ? (
+                            {student.currentStatus === 'placed' ? (
                               <>
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                                <span>Deleting</span>
+                                <CheckCircle2 className="h-3 w-3 mr-1" />
+                                Placed
                               </>
                             ) : (
                               <>
+                                <XCircle className="h-3 w-3 mr-1" />
+                                Not Placed
+                              </>
+                            )}
+                          </span>
+                        </td>
+                        <td className="py-4 px-4 text-center">
+                          <span className="inline-flex items-center justify-center h-8 w-8 rounded-lg bg-gradient-to-br from-yellow-500 to-yellow-600 text-white font-bold shadow-lg">
+                            {student.totalOffers}
+                          </span>
+                        </td>
+                        <td className="py-4 px-4 text-center">
+                          <span className="text-gray-300 font-medium">
+                            {Object.keys(student.companyStatus).length}
+                          </span>
+                        </td>
+                        <td className="py-4 px-4">
+                          <div className="flex items-center justify-center gap-3">
+                            <button
+                              onClick={() => setSelectedStudent(student)}
+                              className="group relative px-5 py-2.5 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white text-sm font-semibold rounded-lg transition-all duration-200 shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 hover:scale-105 active:scale-95 whitespace-nowrap flex items-center gap-2"
+                            >
+                              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                              </svg>
+                              <span>View</span>
+                            </button>
+                            {can('delete:student') && (
+                              <button
+                                onClick={() => handleDeleteStudent(student)}
+                                disabled={isPending}
+                                className="group relative px-5 py-2.5 bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white text-sm font-semibold rounded-lg transition-all duration-200 shadow-lg shadow-red-500/30 hover:shadow-red-500/50 hover:scale-105 active:scale-95 disabled:hover:scale-100 whitespace-nowrap flex items-center justify-center gap-2 min-w-[110px]"
+                                title={isPending ? "Waiting for the server to save this student" : "Delete Student"}
+                              >
                                 <Trash2 className="h-4 w-4" />
                                 <span>Delete</span>
-                              </>
+                              </button>
                             )}
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -460,8 +472,7 @@ export default function Students() {
               </h2>
               <button
                 onClick={handleCloseModal}
-                disabled={isCreating}
-                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
               >
                 <X size={20} />
               </button>
@@ -477,7 +488,6 @@ export default function Students() {
                   name="name"
                   value={formData.name}
                   onChange={handleInputChange}
-                  disabled={isCreating}
                   placeholder="John Doe"
                   className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
                   required
@@ -493,7 +503,6 @@ export default function Students() {
                   name="rollNumber"
                   value={formData.rollNumber}
                   onChange={handleInputChange}
-                  disabled={isCreating}
                   placeholder="20CS001"
                   className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
                   required
@@ -509,7 +518,6 @@ export default function Students() {
                   name="email"
                   value={formData.email}
                   onChange={handleInputChange}
-                  disabled={isCreating}
                   placeholder="john.doe@example.com"
                   className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
                   required
@@ -526,27 +534,16 @@ export default function Students() {
                 <button
                   type="button"
                   onClick={handleCloseModal}
-                  disabled={isCreating}
                   className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Cancel
                 </button>
                 <button
                   type="submit"
-                  disabled={isCreating}
                   className="flex-1 px-4 py-2 bg-green-600 dark:bg-green-500 text-white rounded-lg hover:bg-green-700 dark:hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
-                  {isCreating ? (
-                    <>
-                      <Loader2 size={16} className="animate-spin" />
-                      <span>Creating...</span>
-                    </>
-                  ) : (
-                    <>
-                      <UserPlus size={16} />
-                      <span>Add Student</span>
-                    </>
-                  )}
+                  <UserPlus size={16} />
+                  <span>Add Student</span>
                 </button>
               </div>
             </form>
@@ -1,15 +1,37 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { api } from '../lib/api';
-import { Company, UploadResponse } from '../types';
-import { Upload, FileSpreadsheet, CheckCircle, XCircle, Loader2, Flag, Plus, RefreshCw, Building2, ChevronDown, Users } from 'lucide-react';
+import { companiesSchema } from '../lib/responseSchemas';
+import { Company, Round, Student, UploadResponse } from '../types';
+import { Upload, FileSpreadsheet, CheckCircle, XCircle, Loader2, Flag, Plus, RefreshCw, Building2, ChevronDown, Users, Layers } from 'lucide-react';
+import { useUploadQueue } from '../context/UploadQueueContext';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
 import { useToast } from '../context/ToastContext';
+import { isOffline } from '../lib/offlineQueue';
+import UploadQueuePanel from '../components/UploadQueuePanel';
+import { formatBytes } from '../lib/uploadUtils';
+import { ParsedSheet, canPreviewFile, detectColumnMapping, parseSheetFile, validateSheetMapping } from '../lib/sheetParser';
+import { ColumnMapping } from '../types/upload';
+import SheetPreview from '../components/SheetPreview';
+import RoundCheckPanel from '../components/RoundCheckPanel';
+import BatchUploadForm from '../components/BatchUploadForm';
 import { useDataCache } from '../context/DataCacheContext';
+import { buildRoundCheckReport, countRoundCheckFindings } from '../lib/roundValidation';
+
+interface RoundCheckSource {
+    companyYearId: string | null;
+    rounds: Round[];
+    students: Student[];
+    companies: Company[];
+}
 
 export default function UploadData() {
     const navigate = useNavigate();
-    const { showToast, updateToast } = useToast();
-    const { refreshAll } = useDataCache();
+    const { jobs, enqueueUpload, cancelUpload, retryUpload } = useUploadQueue();
+    const { queueMutation } = useOfflineQueue();
+    const { showToast } = useToast();
+    const { fetchCompanies: fetchCachedCompanies, fetchStudents, fetchRoundsForCompany } = useDataCache();
+    const [batchMode, setBatchMode] = useState(false);
     const [file, setFile] = useState<File | null>(null);
     const [isNewCompany, setIsNewCompany] = useState(true);
     const [isDropdownOpen, setIsDropdownOpen] = useState(false);
@@ -19,17 +41,122 @@ export default function UploadData() {
     const [roundNumber, setRoundNumber] = useState('');
     const [roundName, setRoundName] = useState('');
     const [isFinal, setIsFinal] = useState(false);
-    const [loading, setLoading] = useState(false);
-    const [response, setResponse] = useState<UploadResponse | null>(null);
+    const [currentJobId, setCurrentJobId] = useState<string | null>(null);
     const [dragActive, setDragActive] = useState(false);
     const [runningCompanies, setRunningCompanies] = useState<Company[]>([]);
     const [loadingCompanies, setLoadingCompanies] = useState(true);
+    const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+    const [sheetError, setSheetError] = useState('');
+    const [parsingSheet, setParsingSheet] = useState(false);
+    const [columnMapping, setColumnMapping] = useState<ColumnMapping>({ rollNumber: null, name: null, email: null });
+    const [roundCheckSource, setRoundCheckSource] = useState<RoundCheckSource | null>(null);
+    const [checkingRounds, setCheckingRounds] = useState(false);
+    const [confirmedCheck, setConfirmedCheck] = useState<string | null>(null);
+
+    // Parse the chosen file in the browser so problems show up before upload
+    useEffect(() => {
+        setSheet(null);
+        setSheetError('');
+        setParsingSheet(false);
+        if (!file || !canPreviewFile(file)) return;
+
+        let cancelled = false;
+        setParsingSheet(true);
+        parseSheetFile(file)
+            .then(parsed => {
+                if (cancelled) return;
+                setSheet(parsed);
+                setColumnMapping(detectColumnMapping(parsed));
+            })
+            .catch(error => {
+                if (!cancelled) setSheetError(`Could not preview this file: ${(error as Error).message || 'unreadable'}`);
+            })
+            .finally(() => {
+                if (!cancelled) setParsingSheet(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [file]);
+
+    const sheetIssues = sheet ? validateSheetMapping(sheet, columnMapping) : [];
+    const hasBlockingIssues = sheetIssues.some(issue => issue.level === 'error');
+
+    // The cache fetchers change identity whenever they fill the cache - read them through
+    // a ref so the round check only reloads on form changes
+    const cacheFetchersRef = useRef({ fetchStudents, fetchCachedCompanies, fetchRoundsForCompany });
+    useEffect(() => {
+        cacheFetchersRef.current = { fetchStudents, fetchCachedCompanies, fetchRoundsForCompany };
+    }, [fetchStudents, fetchCachedCompanies, fetchRoundsForCompany]);
+
+    // Load the company's earlier rounds so the sheet can be checked against them
+    const hasSheet = !!sheet;
+    const newCompanyKey = `${company.trim().toLowerCase()}|${year}`;
+    useEffect(() => {
+        setRoundCheckSource(null);
+        setCheckingRounds(false);
+        if (!hasSheet || (!isNewCompany && !selectedCompanyId)) return;
+
+        let cancelled = false;
+        setCheckingRounds(true);
+        const loadSource = async (): Promise<RoundCheckSource> => {
+            const { fetchStudents, fetchCachedCompanies, fetchRoundsForCompany } = cacheFetchersRef.current;
+            const [students, companies] = await Promise.all([fetchStudents(), fetchCachedCompanies()]);
+            // A "new" company that already exists for this year gets the round appended
+            const [name, companyYear] = newCompanyKey.split('|');
+            const companyYearId = isNewCompany
+                ? companies.find(c => c.companyName.toLowerCase() === name && String(c.year) === companyYear)?.companyYearId ?? null
+                : selectedCompanyId;
+            const rounds = companyYearId ? await fetchRoundsForCompany(companyYearId) : [];
+            return { companyYearId, rounds, students, companies };
+        };
+        loadSource()
+            .then(source => {
+                if (!cancelled) setRoundCheckSource(source);
+            })
+            .catch(error => console.error('Error loading rounds for validation:', error))
+            .finally(() => {
+                if (!cancelled) setCheckingRounds(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [hasSheet, isNewCompany, selectedCompanyId, newCompanyKey]);
+
+    const parsedRoundNumber = roundNumber && isNewCompany ? parseInt(roundNumber) : undefined;
+    const roundCheck = sheet && roundCheckSource && columnMapping.rollNumber
+        ? buildRoundCheckReport({ sheet, mapping: columnMapping, roundNumber: parsedRoundNumber, ...roundCheckSource })
+        : null;
+    const roundCheckFindings = roundCheck ? countRoundCheckFindings(roundCheck) : 0;
+
+    // Confirmation is tied to what was reviewed, so any change to the sheet or target asks again
+    const roundCheckSignature = roundCheck ? JSON.stringify([file?.name, roundCheckSource?.companyYearId, parsedRoundNumber, columnMapping, roundCheckFindings]) : null;
+    const needsConfirmation = roundCheckFindings > 0 && confirmedCheck !== roundCheckSignature;
+
+    // The upload started from this form (progress + result come from the queue)
+    const currentJob = jobs.find(job => job.id === currentJobId) ?? null;
+    const loading = !!currentJob && ['queued', 'uploading', 'processing'].includes(currentJob.status);
+    let response: UploadResponse | null = null;
+    if (currentJob?.status === 'success') {
+        response = currentJob.response;
+    } else if (currentJob?.status === 'error' || currentJob?.status === 'cancelled') {
+        response = { success: false, error: currentJob.error || 'Upload was cancelled' };
+    }
+
+    // If final round, navigate to placements overview after 2 seconds
+    useEffect(() => {
+        if (currentJob?.status !== 'success' || !currentJob.isFinal) return;
+        const timer = setTimeout(() => {
+            navigate('/placements');
+        }, 2000);
+        return () => clearTimeout(timer);
+    }, [currentJob?.status, currentJob?.isFinal, navigate]);
 
     // Fetch running companies
     useEffect(() => {
         const fetchCompanies = async () => {
             try {
-                const companiesData = await api.request<Company[]>('/companies');
+                const companiesData = await api.request<Company[]>('/companies', {}, companiesSchema);
                 const companies = companiesData
                     .filter(c => c.status === 'running')
                     .sort((a, b) => a.companyName.localeCompare(b.companyName));
@@ -59,7 +186,7 @@ export default function UploadData() {
         setDragActive(false);
         if (e.dataTransfer.files && e.dataTransfer.files[0]) {
             const droppedFile = e.dataTransfer.files[0];
-            if (droppedFile.name.endsWith('.xlsx') || droppedFile.name.endsWith('.xls')) {
+            if (/\.(xlsx|xls|csv)$/i.test(droppedFile.name)) {
                 setFile(droppedFile);
             }
         }
@@ -71,7 +198,7 @@ export default function UploadData() {
         }
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
         // Validate
@@ -79,95 +206,35 @@ export default function UploadData() {
         if (isNewCompany && (!company || !year)) return;
         if (!isNewCompany && !selectedCompanyId) return;
 
-        setLoading(true);
-        setResponse(null);
-
-        // Get company name and year for toast
-        const companyName = isNewCompany ? company : runningCompanies.find(c => c.companyYearId === selectedCompanyId)!.companyName;
-        const companyYear = isNewCompany ? parseInt(year) : runningCompanies.find(c => c.companyYearId === selectedCompanyId)!.year;
-        const roundNumText = roundNumber || 'Auto';
-        const roundTypeText = isFinal ? 'Final Round' : `Round ${roundNumText}`;
-
-        // Show loading toast
-        const toastId = showToast({
-            type: 'loading',
-            title: 'Processing Upload',
-            message: `${companyName} - ${roundTypeText}`
-        });
-
-        const formData = new FormData();
-        formData.append('file', file);
-
-        if (isNewCompany) {
-            formData.append('company', company);
-            formData.append('year', year);
-            if (roundNumber) formData.append('roundNumber', roundNumber);
-        } else {
-            // For existing company, extract company name and year from the selected company
-            const selectedCompany = runningCompanies.find(c => c.companyYearId === selectedCompanyId);
-            if (selectedCompany) {
-                formData.append('company', selectedCompany.companyName);
-                formData.append('year', selectedCompany.year.toString());
-            }
-        }
-
-        if (roundName) formData.append('roundName', roundName);
-        formData.append('isFinal', isFinal.toString());
-
-        try {
-            // Use the new API client method that calls port 5005 with JWT
-            const data = await api.uploadExcelRound(
-                file,
-                companyName,
-                companyYear,
-                roundNumber ? parseInt(roundNumber) : undefined,
-                roundName || undefined,
-                isFinal
-            );
-            setResponse(data);
-
-            // Update toast to success
-            if (data.success) {
-                updateToast(toastId, {
-                    type: 'success',
-                    title: 'Upload Complete ✓',
-                    message: `${companyName} - ${data.data?.matchedStudents} matched, ${data.data?.newStudents} new`
-                });
-
-                // ✅ SMART REFRESH: Refetch all data in background (no page reload!)
-                console.log('🔄 Refetching all cached data after upload...');
-                await refreshAll(); // Re-fetches data from API and updates cache
-                console.log('✅ Cache refreshed with latest data');
-            } else {
-                updateToast(toastId, {
-                    type: 'error',
-                    title: 'Upload Failed',
-                    message: data.error || 'Unknown error occurred'
-                });
-            }
+        const selectedCompany = runningCompanies.find(c => c.companyYearId === selectedCompanyId);
+        const companyName = isNewCompany ? company : selectedCompany!.companyName;
+        const companyYear = isNewCompany ? parseInt(year) : selectedCompany!.year;
 
-            // If final round, navigate to placements overview after 2 seconds
-            if (isFinal && data.success) {
-                setTimeout(() => {
-                    navigate('/placements');
-                }, 2000);
-            }
-        } catch (error: unknown) {
-            const errorMessage = (error as Error).message || 'Failed to connect to upload service.';
-            setResponse({
-                success: false,
-                error: errorMessage,
-            });
+        const input = {
+            file,
+            companyName,
+            year: companyYear,
+            roundNumber: roundNumber ? parseInt(roundNumber) : undefined,
+            roundName: roundName || undefined,
+            isFinal,
+            columnMapping: sheet ? columnMapping : undefined,
+            rawColumns: sheet?.columns,
+        };
 
-            // Update toast to error
-            updateToast(toastId, {
-                type: 'error',
-                title: 'Upload Failed',
-                message: errorMessage
+        // Kept on this device and sent from the Offline Changes page later
+        if (isOffline()) {
+            queueMutation({ kind: 'upload-round', input });
+            showToast({
+                type: 'success',
+                title: 'Saved Offline',
+                message: `${companyName} upload will be sent once you send your offline changes.`
             });
-        } finally {
-            setLoading(false);
+            resetForm();
+            return;
         }
+
+        // The queue owns the upload from here, so it keeps running if the user leaves this page
+        setCurrentJobId(enqueueUpload(input));
     };
 
     const resetForm = () => {
@@ -178,10 +245,12 @@ export default function UploadData() {
         setRoundNumber('');
         setRoundName('');
         setIsFinal(false);
-        setResponse(null);
+        setCurrentJobId(null);
+        setConfirmedCheck(null);
     };
 
-    const canSubmit = file && (isNewCompany ? (company && year) : selectedCompanyId);
+    const canSubmit = file && !parsingSheet && !hasBlockingIssues && !checkingRounds && !needsConfirmation
+        && (isNewCompany ? (company && year) : selectedCompanyId);
 
     return (
         <div className="space-y-8 animate-fade-in">
@@ -198,15 +267,30 @@ export default function UploadData() {
             <div className="max-w-2xl mx-auto">
                 {/* Upload Form */}
                 <div className="glass-strong rounded-2xl p-6 shadow-2xl">
-                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6 flex items-center gap-3">
-                        <div className="p-2 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg">
-                            <Upload className="h-5 w-5 text-white stroke-white" strokeWidth={2} />
-                        </div>
-                        Upload Excel File
-                    </h2>
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-3">
+                            <div className="p-2 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg">
+                                <Upload className="h-5 w-5 text-white stroke-white" strokeWidth={2} />
+                            </div>
+                            {batchMode ? 'Upload Several Files' : 'Upload Excel File'}
+                        </h2>
+                        <button
+                            type="button"
+                            onClick={() => setBatchMode(!batchMode)}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-all ${batchMode
+                                ? 'bg-blue-500/20 text-blue-600 dark:text-blue-400'
+                                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700/50'
+                                }`}
+                        >
+                            <Layers className="h-4 w-4" />
+                            Batch mode
+                        </button>
+                    </div>
 
                     {/* Show Result if available */}
-                    {response ? (
+                    {batchMode ? (
+                        <BatchUploadForm runningCompanies={runningCompanies} />
+                    ) : response ? (
                         response.success ? (
                             <div className="space-y-6 animate-fade-in">
                                 <div className="flex items-center gap-3 p-4 bg-green-500/10 rounded-xl border border-green-500/30">
@@ -252,12 +336,21 @@ export default function UploadData() {
                                         <p className="text-sm text-red-500 mt-1">{response.error}</p>
                                     </div>
                                 </div>
-                                <button
-                                    onClick={() => setResponse(null)}
-                                    className="w-full py-3 rounded-xl border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-all"
-                                >
-                                    Try Again
-                                </button>
+                                <div className="flex gap-3">
+                                    <button
+                                        onClick={() => retryUpload(currentJob!.id)}
+                                        className="flex-1 py-3 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-white font-medium hover:from-blue-600 hover:to-purple-700 transition-all shadow-lg flex items-center justify-center gap-2"
+                                    >
+                                        <RefreshCw className="h-4 w-4" />
+                                        Retry Upload
+                                    </button>
+                                    <button
+                                        onClick={() => setCurrentJobId(null)}
+                                        className="flex-1 py-3 rounded-xl border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-all"
+                                    >
+                                        Edit Details
+                                    </button>
+                                </div>
                             </div>
                         )
                     ) : (
@@ -303,7 +396,7 @@ export default function UploadData() {
                             >
                                 <input
                                     type="file"
-                                    accept=".xlsx,.xls"
+                                    accept=".xlsx,.xls,.csv"
                                     onChange={handleFileChange}
                                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                                 />
@@ -318,11 +411,39 @@ export default function UploadData() {
                                 ) : (
                                     <div className="flex flex-col items-center gap-2">
                                         <FileSpreadsheet className="h-8 w-8 text-gray-400" />
-                                        <p className="font-medium text-gray-900 dark:text-white">Drop Excel file or click to browse</p>
+                                        <p className="font-medium text-gray-900 dark:text-white">Drop Excel or CSV file or click to browse</p>
                                     </div>
                                 )}
                             </div>
 
+                            {/* Sheet Preview */}
+                            {parsingSheet && (
+                                <div className="flex items-center gap-2 text-sm text-gray-500">
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                    Reading file...
+                                </div>
+                            )}
+                            {sheetError && (
+                                <div className="p-3 rounded-xl border bg-red-500/10 border-red-500/30 text-red-600 dark:text-red-400 text-sm flex items-start gap-2">
+                                    <XCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                                    {sheetError}
+                                </div>
+                            )}
+                            {file && !canPreviewFile(file) && (
+                                <p className="text-sm text-gray-500">
+                                    Preview is only available for .xlsx and .csv files - this file will be checked by the server.
+                                </p>
+                            )}
+                            {sheet && (
+                                <SheetPreview
+                                    key={file?.name}
+                                    sheet={sheet}
+                                    mapping={columnMapping}
+                                    issues={sheetIssues}
+                                    onMappingChange={setColumnMapping}
+                                />
+                            )}
+
                             {/* Conditional Form Fields */}
                             {isNewCompany ? (
                                 <div className="grid grid-cols-2 gap-4">
@@ -487,6 +608,16 @@ export default function UploadData() {
                                 </div>
                             )}
 
+                            {/* Round Check */}
+                            {sheet && (
+                                <RoundCheckPanel
+                                    report={roundCheck}
+                                    checking={checkingRounds}
+                                    confirmed={!needsConfirmation}
+                                    onConfirmChange={(checked) => setConfirmedCheck(checked ? roundCheckSignature : null)}
+                                />
+                            )}
+
                             {/* Final Round Toggle */}
                             <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl">
                                 <div className="flex items-center gap-3">
@@ -518,7 +649,7 @@ export default function UploadData() {
                                 {loading ? (
                                     <>
                                         <Loader2 className="h-5 w-5 animate-spin" />
-                                        Uploading...
+                                        {currentJob?.status === 'queued' ? 'Waiting in queue...' : currentJob?.status === 'processing' ? 'Processing...' : 'Uploading...'}
                                     </>
                                 ) : (
                                     <>
@@ -527,9 +658,38 @@ export default function UploadData() {
                                     </>
                                 )}
                             </button>
+
+                            {/* Upload Progress */}
+                            {loading && currentJob && (
+                                <div className="space-y-2 animate-fade-in">
+                                    <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                        <div
+                                            className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-200"
+                                            style={{ width: `${currentJob.total > 0 ? Math.round((currentJob.loaded / currentJob.total) * 100) : 0}%` }}
+                                        />
+                                    </div>
+                                    <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                                        <span>
+                                            {currentJob.status === 'processing'
+                                                ? 'File sent - waiting for the server to process it'
+                                                : `${formatBytes(currentJob.loaded)} of ${formatBytes(currentJob.total)}`}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => cancelUpload(currentJob.id)}
+                                            className="px-3 py-1 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-500 font-medium transition-all"
+                                        >
+                                            Cancel
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                         </form>
                     )}
                 </div>
+
+                {/* Upload Queue */}
+                <UploadQueuePanel />
             </div>
         </div>
     );
@@ -0,0 +1,47 @@
+import { DeleteCompanyResponse, DeleteRoundResponse, DeleteStudentResponse, Student, UploadResponse } from './index';
+
+export interface CacheEntry<T> {
+    data: T;
+    timestamp: number;
+    invalidated?: boolean;   // Known to be out of date - refetch on next read whatever the TTL
+    schemaVersion?: number;  // lib/cacheSchema version it was written with; missing = 1
+}
+
+export interface CacheUsageEntry {
+    key: string;          // e.g. "companies" or "rounds:<companyYearId>"
+    bytes: number;        // Approximate serialized size
+    timestamp: number;    // When the data was fetched
+}
+
+export interface CacheUsage {
+    backend: 'indexeddb' | 'localStorage';
+    entries: CacheUsageEntry[];
+    totalBytes: number;
+    usedBytes: number | null;    // Whole origin, from navigator.storage.estimate()
+    quotaBytes: number | null;
+}
+
+// One entry as shown by the Admin cache inspector (sizes come from CacheUsage)
+export interface CacheEntrySummary {
+    key: string;
+    label: string;         // e.g. "Companies" or "Rounds · Google 2025"
+    records: number;       // Array length, or 1 for a single summary object
+    timestamp: number;
+    invalidated: boolean;
+}
+
+// Exported cache contents, attached to bug reports and imported to reproduce them
+export interface CacheSnapshot {
+    format: 'placement-cache-snapshot';
+    version: 1;
+    exportedAt: number;
+    entries: Record<string, CacheEntry<unknown>>;   // Keyed like cache storage
+}
+
+// A finished write, described well enough for DataCacheContext to update only what it touched
+export type CacheMutation =
+    | { type: 'company-deleted'; companyYearId: string; companyName: string; result: DeleteCompanyResponse }
+    | { type: 'round-deleted'; companyYearId: string; result: DeleteRoundResponse }
+    | { type: 'rounds-uploaded'; results: UploadResponse[] }
+    | { type: 'student-created'; student: Student }
+    | { type: 'student-deleted'; student: Student; result: DeleteStudentResponse };
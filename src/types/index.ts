@@ -1,3 +1,5 @@
+import { Permission } from '../lib/permissions';
+
 export interface RoundData {
   rowData: Record<string, string | number>;
   studentId: string | null;
@@ -121,14 +123,27 @@ export interface DashboardSummary {
   recentCompanies: Company[];
 }
 
+// Why the user was logged out without clicking "Logout" (lib/session)
+export type SessionEndReason = 'idle' | 'expired';
+
+export interface SessionEnd {
+  reason: SessionEndReason;
+  username: string;   // Only this user is sent back to the page they were on
+}
+
 export interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<User>;
   logout: () => Promise<void>;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  can: (permission: Permission) => boolean;   // Role permission matrix in lib/permissions
+  homePath: string;                           // Landing page for the user's role
+  sessionEnded: SessionEnd | null;            // Set by an idle or expired logout until the next login
+  endSession: (reason: SessionEndReason) => Promise<void>;
   refreshUser: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;   // Clears mustChangePassword
 }
 
 export type Theme = 'light' | 'dark';
@@ -169,10 +184,50 @@ export interface CreateStudentResponse {
   studentId: string;
 }
 
+export interface DeleteStudentResponse {
+  message: string;
+  studentId: string;
+  studentName: string;
+  cascadingUpdates: {
+    companiesAffected: number;
+    roundsDeleted: number;
+    placementsDeleted: number;
+    yearsAffected: number;
+  };
+}
+
+// GET /students, and /students?since= for delta sync (only delta answers carry `deleted`)
+export interface StudentsResponse {
+  students: Student[];
+  deleted?: string[];   // Tombstones: ids of students deleted since `since`
+}
+
+// GET /companies?since= - a plain full array comes back when `since` is not supported
+export interface CompaniesDeltaResponse {
+  companies: Company[];
+  deleted: string[];    // Tombstones: companyYearIds deleted since `since`
+}
+
+// Backend microservices the frontend talks to
+export type ServiceName = 'auth' | 'excel' | 'ai' | 'delete';
+
+// One ping of a service from the admin health panel
+export interface ServiceHealthCheck {
+  service: ServiceName;
+  reachable: boolean;
+  status: number | null;           // HTTP status of the ping (null = no response)
+  latencyMs: number;
+  sessionAccepted: boolean | null; // Did the service accept our session cookie? null = could not tell
+  error: string | null;
+  checkedAt: number;
+}
+
 export interface User {
   id: string;
   username: string;
   role: string;
+  rollNumber?: string | null;  // Links a student account to its Student record
+  mustChangePassword?: boolean; // Set by an admin password reset until the user picks their own
 }
 
 export interface UploadResponse {
@@ -189,3 +244,32 @@ export interface UploadResponse {
     isFinalRound: boolean;
   };
 }
+
+// Audit log - written by the server's write handlers, one entry per change
+export type AuditAction =
+  | 'company.delete'
+  | 'round.delete'
+  | 'round.upload'
+  | 'student.create'
+  | 'student.delete'
+  | 'user.create'
+  | 'user.role-change'
+  | 'user.delete'
+  | 'user.password-reset'
+  | 'password.change';
+
+export interface AuditTarget {
+  type: 'company' | 'round' | 'student' | 'user';
+  id: string;
+  label: string;   // Human-readable name at the time of the action
+}
+
+export interface AuditEntry {
+  id: string;
+  actor: string;       // Username of the session user
+  timestamp: string;   // ISO
+  action: AuditAction;
+  target: AuditTarget;
+  outcome: 'success' | 'failure';
+  summary: string;   // e.g. deleted counts, or why an upload was rejected
+}
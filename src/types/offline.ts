@@ -0,0 +1,23 @@
+import { CreateStudentPayload, Student } from './index';
+import { UploadJobInput } from './upload';
+
+// A write made while offline, with everything needed to send it later
+export type OfflineMutation =
+    | { kind: 'create-student'; payload: CreateStudentPayload }
+    | { kind: 'delete-student'; student: Student }          // As it was when the delete was queued
+    | { kind: 'upload-round'; input: UploadJobInput };
+
+export type QueuedMutationStatus =
+    | 'pending'     // Waiting to be replayed
+    | 'replaying'
+    | 'conflict'    // The server data changed since it was queued - needs a decision
+    | 'failed';
+
+export interface QueuedMutation {
+    id: string;
+    mutation: OfflineMutation;
+    status: QueuedMutationStatus;
+    error: string | null;      // Conflict or failure reason
+    createdAt: number;
+    owner?: string;            // Username that queued it; absent on items queued before owners were kept
+}
@@ -4,6 +4,10 @@ export interface Toast {
     title: string;
     message: string;
     duration?: number;
+    action?: {              // e.g. "Retry" on a failed write; the toast closes when clicked
+        label: string;
+        onClick: () => void;
+    };
 }
 
 export type ToastInput = Omit<Toast, 'id'> & { id?: string };
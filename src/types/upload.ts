@@ -0,0 +1,40 @@
+import { UploadResponse } from './index';
+
+export type UploadJobStatus =
+    | 'queued'
+    | 'uploading'    // Bytes are being sent
+    | 'processing'   // File sent, waiting for the Excel service to finish
+    | 'success'
+    | 'error'
+    | 'cancelled';
+
+// Which sheet column holds each field Student records are matched on
+export interface ColumnMapping {
+    rollNumber: string | null;
+    name: string | null;
+    email: string | null;
+}
+
+// Everything needed to (re)send a round upload
+export interface UploadJobInput {
+    file: File;
+    companyName: string;
+    year: number;
+    roundNumber?: number;
+    roundName?: string;
+    isFinal: boolean;
+    columnMapping?: ColumnMapping;   // From the in-browser preview, when the file could be parsed
+    rawColumns?: string[];
+}
+
+export interface UploadJob extends UploadJobInput {
+    id: string;
+    batchId: string | null;   // Jobs queued together refresh the cache once, after the last file
+    status: UploadJobStatus;
+    loaded: number;   // Bytes sent
+    total: number;    // Bytes to send
+    attempts: number;
+    response: UploadResponse | null;
+    error: string | null;
+    createdAt: number;
+}
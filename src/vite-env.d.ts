@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_AI_API_URL?: string;
+  readonly VITE_EXCEL_API_URL?: string;
+  readonly VITE_DELETE_API_URL?: string;
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_MOCK_SEED?: string;
+  readonly VITE_MOCK_LATENCY?: string;
+  readonly VITE_MOCK_TOKEN_TTL?: string;
+  readonly VITE_MOCK_COLD_START_MS?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_API_UPLOAD_TIMEOUT_MS?: string;
+  readonly VITE_API_GET_RETRIES?: string;
+  readonly VITE_API_RETRY_DELAY_MS?: string;
+  readonly VITE_IDLE_TIMEOUT_MIN?: string;
+  readonly VITE_IDLE_WARNING_SEC?: string;
+  readonly VITE_SESSION_RENEW_SEC?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}